@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE "order_events" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "hotelId" INTEGER NOT NULL,
+    "orderId" INTEGER NOT NULL,
+    "guestId" INTEGER NOT NULL,
+    "type" TEXT NOT NULL,
+    "status" TEXT NOT NULL,
+    "data" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "order_events_hotelId_fkey" FOREIGN KEY ("hotelId") REFERENCES "hotels" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "order_events_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "orders" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "order_events_hotelId_id_idx" ON "order_events"("hotelId", "id");
+
+-- CreateIndex
+CREATE INDEX "order_events_guestId_id_idx" ON "order_events"("guestId", "id");
+
+-- CreateIndex
+CREATE INDEX "order_events_orderId_idx" ON "order_events"("orderId");
+
+-- CreateIndex
+CREATE INDEX "order_events_createdAt_idx" ON "order_events"("createdAt");
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "payments" ADD COLUMN "provider" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "payments_reference_key" ON "payments"("reference");
@@ -0,0 +1,35 @@
+-- CreateTable
+CREATE TABLE "refunds" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "paymentId" INTEGER NOT NULL,
+    "amount" DECIMAL NOT NULL,
+    "reason" TEXT NOT NULL,
+    "adminId" INTEGER,
+    "restocked" BOOLEAN NOT NULL DEFAULT false,
+    "reference" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "refunds_paymentId_fkey" FOREIGN KEY ("paymentId") REFERENCES "payments" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "refunds_adminId_fkey" FOREIGN KEY ("adminId") REFERENCES "admins" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "refund_items" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "refundId" INTEGER NOT NULL,
+    "orderItemId" INTEGER NOT NULL,
+    "quantity" INTEGER NOT NULL,
+    CONSTRAINT "refund_items_refundId_fkey" FOREIGN KEY ("refundId") REFERENCES "refunds" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "refund_items_orderItemId_fkey" FOREIGN KEY ("orderItemId") REFERENCES "order_items" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "refunds_paymentId_idx" ON "refunds"("paymentId");
+
+-- CreateIndex
+CREATE INDEX "refunds_adminId_idx" ON "refunds"("adminId");
+
+-- CreateIndex
+CREATE INDEX "refund_items_refundId_idx" ON "refund_items"("refundId");
+
+-- CreateIndex
+CREATE INDEX "refund_items_orderItemId_idx" ON "refund_items"("orderItemId");
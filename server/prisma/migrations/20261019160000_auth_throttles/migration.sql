@@ -0,0 +1,23 @@
+-- AlterTable
+ALTER TABLE "admin_verifications" ADD COLUMN "attempts" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "auth_throttles" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "scope" TEXT NOT NULL,
+    "key" TEXT NOT NULL,
+    "hotelId" INTEGER,
+    "count" INTEGER NOT NULL DEFAULT 0,
+    "windowStart" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lockCount" INTEGER NOT NULL DEFAULT 0,
+    "lockedUntil" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "auth_throttles_hotelId_fkey" FOREIGN KEY ("hotelId") REFERENCES "hotels" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "auth_throttles_hotelId_idx" ON "auth_throttles"("hotelId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "auth_throttles_scope_key_key" ON "auth_throttles"("scope", "key");
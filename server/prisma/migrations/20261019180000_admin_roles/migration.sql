@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "admins" ADD COLUMN "role" TEXT NOT NULL DEFAULT 'OWNER';
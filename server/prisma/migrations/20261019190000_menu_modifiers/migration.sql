@@ -0,0 +1,58 @@
+-- CreateTable
+CREATE TABLE "modifier_groups" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "name" TEXT NOT NULL,
+    "minSelect" INTEGER NOT NULL DEFAULT 0,
+    "maxSelect" INTEGER NOT NULL DEFAULT 1,
+    "menuItemId" INTEGER NOT NULL,
+    "hotelId" INTEGER NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "modifier_groups_menuItemId_fkey" FOREIGN KEY ("menuItemId") REFERENCES "menu_items" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "modifier_groups_hotelId_fkey" FOREIGN KEY ("hotelId") REFERENCES "hotels" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "modifier_options" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "name" TEXT NOT NULL,
+    "priceDelta" DECIMAL NOT NULL DEFAULT 0,
+    "stock" INTEGER,
+    "groupId" INTEGER NOT NULL,
+    "hotelId" INTEGER NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "modifier_options_groupId_fkey" FOREIGN KEY ("groupId") REFERENCES "modifier_groups" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "modifier_options_hotelId_fkey" FOREIGN KEY ("hotelId") REFERENCES "hotels" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "order_item_options" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "orderItemId" INTEGER NOT NULL,
+    "optionId" INTEGER,
+    "groupName" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "priceDelta" DECIMAL NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "order_item_options_orderItemId_fkey" FOREIGN KEY ("orderItemId") REFERENCES "order_items" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "order_item_options_optionId_fkey" FOREIGN KEY ("optionId") REFERENCES "modifier_options" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "modifier_groups_menuItemId_idx" ON "modifier_groups"("menuItemId");
+
+-- CreateIndex
+CREATE INDEX "modifier_groups_hotelId_idx" ON "modifier_groups"("hotelId");
+
+-- CreateIndex
+CREATE INDEX "modifier_options_groupId_idx" ON "modifier_options"("groupId");
+
+-- CreateIndex
+CREATE INDEX "modifier_options_hotelId_idx" ON "modifier_options"("hotelId");
+
+-- CreateIndex
+CREATE INDEX "order_item_options_orderItemId_idx" ON "order_item_options"("orderItemId");
+
+-- CreateIndex
+CREATE INDEX "order_item_options_optionId_idx" ON "order_item_options"("optionId");
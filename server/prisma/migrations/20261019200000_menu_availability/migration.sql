@@ -0,0 +1,32 @@
+-- AlterTable
+ALTER TABLE "hotels" ADD COLUMN "timezone" TEXT NOT NULL DEFAULT 'UTC';
+
+-- AlterTable
+ALTER TABLE "menu_items" ADD COLUMN "unavailableUntil" DATETIME;
+
+-- CreateTable
+CREATE TABLE "availability_schedules" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "hotelId" INTEGER NOT NULL,
+    "categoryId" INTEGER,
+    "menuItemId" INTEGER,
+    "daysOfWeek" TEXT NOT NULL,
+    "startTime" TEXT NOT NULL,
+    "endTime" TEXT NOT NULL,
+    "startDate" TEXT,
+    "endDate" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "availability_schedules_hotelId_fkey" FOREIGN KEY ("hotelId") REFERENCES "hotels" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "availability_schedules_categoryId_fkey" FOREIGN KEY ("categoryId") REFERENCES "menu_categories" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "availability_schedules_menuItemId_fkey" FOREIGN KEY ("menuItemId") REFERENCES "menu_items" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "availability_schedules_hotelId_idx" ON "availability_schedules"("hotelId");
+
+-- CreateIndex
+CREATE INDEX "availability_schedules_categoryId_idx" ON "availability_schedules"("categoryId");
+
+-- CreateIndex
+CREATE INDEX "availability_schedules_menuItemId_idx" ON "availability_schedules"("menuItemId");
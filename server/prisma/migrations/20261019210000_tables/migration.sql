@@ -0,0 +1,50 @@
+-- CreateTable
+CREATE TABLE "tables" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "hotelId" INTEGER NOT NULL,
+    "label" TEXT NOT NULL,
+    "zone" TEXT,
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "tokenVersion" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "tables_hotelId_fkey" FOREIGN KEY ("hotelId") REFERENCES "hotels" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- Migrate free-text table numbers into one managed table per hotel and label
+INSERT INTO "tables" ("hotelId", "label", "updatedAt")
+SELECT DISTINCT "hotelId", TRIM("tableNumber"), CURRENT_TIMESTAMP FROM "orders";
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_orders" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "guestId" INTEGER NOT NULL,
+    "hotelId" INTEGER NOT NULL,
+    "tableId" INTEGER NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'PENDING',
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "orders_guestId_fkey" FOREIGN KEY ("guestId") REFERENCES "guests" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "orders_hotelId_fkey" FOREIGN KEY ("hotelId") REFERENCES "hotels" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "orders_tableId_fkey" FOREIGN KEY ("tableId") REFERENCES "tables" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+INSERT INTO "new_orders" ("id", "guestId", "hotelId", "tableId", "status", "createdAt", "updatedAt")
+SELECT "orders"."id", "orders"."guestId", "orders"."hotelId", "tables"."id", "orders"."status", "orders"."createdAt", "orders"."updatedAt"
+FROM "orders"
+JOIN "tables" ON "tables"."hotelId" = "orders"."hotelId" AND "tables"."label" = TRIM("orders"."tableNumber");
+DROP TABLE "orders";
+ALTER TABLE "new_orders" RENAME TO "orders";
+CREATE INDEX "orders_hotelId_idx" ON "orders"("hotelId");
+CREATE INDEX "orders_guestId_idx" ON "orders"("guestId");
+CREATE INDEX "orders_status_idx" ON "orders"("status");
+CREATE INDEX "orders_tableId_idx" ON "orders"("tableId");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
+
+-- CreateIndex
+CREATE INDEX "tables_hotelId_idx" ON "tables"("hotelId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "tables_hotelId_label_key" ON "tables"("hotelId", "label");
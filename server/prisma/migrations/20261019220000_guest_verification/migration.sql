@@ -0,0 +1,40 @@
+-- CreateTable
+CREATE TABLE "guest_verifications" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "email" TEXT NOT NULL,
+    "name" TEXT,
+    "passcode" TEXT NOT NULL,
+    "linkTokenHash" TEXT NOT NULL,
+    "expiresAt" DATETIME NOT NULL,
+    "used" BOOLEAN NOT NULL DEFAULT false,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_guests" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "name" TEXT NOT NULL,
+    "email" TEXT,
+    "emailVerifiedAt" DATETIME,
+    "tableId" INTEGER,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "guests_tableId_fkey" FOREIGN KEY ("tableId") REFERENCES "tables" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+INSERT INTO "new_guests" ("id", "name", "email", "createdAt", "updatedAt") SELECT "id", "name", "email", "createdAt", "updatedAt" FROM "guests";
+DROP TABLE "guests";
+ALTER TABLE "new_guests" RENAME TO "guests";
+CREATE UNIQUE INDEX "guests_email_key" ON "guests"("email");
+CREATE INDEX "guests_email_idx" ON "guests"("email");
+CREATE INDEX "guests_tableId_idx" ON "guests"("tableId");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "guest_verifications_linkTokenHash_key" ON "guest_verifications"("linkTokenHash");
+
+-- CreateIndex
+CREATE INDEX "guest_verifications_email_idx" ON "guest_verifications"("email");
@@ -0,0 +1,26 @@
+-- CreateTable
+CREATE TABLE "guest_profiles" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "guestId" INTEGER NOT NULL,
+    "hotelId" INTEGER NOT NULL,
+    "notes" TEXT,
+    "allergies" TEXT,
+    "visitCount" INTEGER NOT NULL DEFAULT 0,
+    "lastVisitAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "guest_profiles_guestId_fkey" FOREIGN KEY ("guestId") REFERENCES "guests" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "guest_profiles_hotelId_fkey" FOREIGN KEY ("hotelId") REFERENCES "hotels" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- Backfill a profile for every guest that has ordered at a hotel
+INSERT INTO "guest_profiles" ("guestId", "hotelId", "visitCount", "lastVisitAt", "createdAt", "updatedAt")
+SELECT "guestId", "hotelId", COUNT(DISTINCT substr("createdAt", 1, 10)), MAX("createdAt"), MIN("createdAt"), CURRENT_TIMESTAMP
+FROM "orders"
+GROUP BY "guestId", "hotelId";
+
+-- CreateIndex
+CREATE INDEX "guest_profiles_hotelId_idx" ON "guest_profiles"("hotelId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "guest_profiles_guestId_hotelId_key" ON "guest_profiles"("guestId", "hotelId");
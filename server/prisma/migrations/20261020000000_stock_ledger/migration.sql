@@ -0,0 +1,31 @@
+-- AlterTable
+ALTER TABLE "menu_items" ADD COLUMN "lowStockThreshold" INTEGER;
+
+-- CreateTable
+CREATE TABLE "stock_movements" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "hotelId" INTEGER NOT NULL,
+    "menuItemId" INTEGER NOT NULL,
+    "delta" INTEGER NOT NULL,
+    "reason" TEXT NOT NULL,
+    "orderId" INTEGER,
+    "refundId" INTEGER,
+    "adminId" INTEGER,
+    "note" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "stock_movements_hotelId_fkey" FOREIGN KEY ("hotelId") REFERENCES "hotels" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "stock_movements_menuItemId_fkey" FOREIGN KEY ("menuItemId") REFERENCES "menu_items" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "stock_movements_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "orders" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "stock_movements_refundId_fkey" FOREIGN KEY ("refundId") REFERENCES "refunds" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "stock_movements_adminId_fkey" FOREIGN KEY ("adminId") REFERENCES "admins" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- Open the ledger with each item's current stock so the two reconcile
+INSERT INTO "stock_movements" ("hotelId", "menuItemId", "delta", "reason", "note")
+SELECT "hotelId", "id", "stock", 'ADJUSTMENT', 'Opening balance' FROM "menu_items" WHERE "stock" <> 0;
+
+-- CreateIndex
+CREATE INDEX "stock_movements_hotelId_idx" ON "stock_movements"("hotelId");
+
+-- CreateIndex
+CREATE INDEX "stock_movements_menuItemId_idx" ON "stock_movements"("menuItemId");
@@ -0,0 +1,61 @@
+-- CreateTable
+CREATE TABLE "ingredients" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "hotelId" INTEGER NOT NULL,
+    "name" TEXT NOT NULL,
+    "unit" TEXT NOT NULL,
+    "stock" DECIMAL NOT NULL DEFAULT 0,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "ingredients_hotelId_fkey" FOREIGN KEY ("hotelId") REFERENCES "hotels" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "recipe_lines" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "hotelId" INTEGER NOT NULL,
+    "ingredientId" INTEGER NOT NULL,
+    "menuItemId" INTEGER,
+    "optionId" INTEGER,
+    "quantity" DECIMAL NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "recipe_lines_hotelId_fkey" FOREIGN KEY ("hotelId") REFERENCES "hotels" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "recipe_lines_ingredientId_fkey" FOREIGN KEY ("ingredientId") REFERENCES "ingredients" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "recipe_lines_menuItemId_fkey" FOREIGN KEY ("menuItemId") REFERENCES "menu_items" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "recipe_lines_optionId_fkey" FOREIGN KEY ("optionId") REFERENCES "modifier_options" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "order_item_ingredients" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "orderItemId" INTEGER NOT NULL,
+    "ingredientId" INTEGER NOT NULL,
+    "quantity" DECIMAL NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "order_item_ingredients_orderItemId_fkey" FOREIGN KEY ("orderItemId") REFERENCES "order_items" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "order_item_ingredients_ingredientId_fkey" FOREIGN KEY ("ingredientId") REFERENCES "ingredients" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "ingredients_hotelId_idx" ON "ingredients"("hotelId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ingredients_hotelId_name_key" ON "ingredients"("hotelId", "name");
+
+-- CreateIndex
+CREATE INDEX "recipe_lines_hotelId_idx" ON "recipe_lines"("hotelId");
+
+-- CreateIndex
+CREATE INDEX "recipe_lines_ingredientId_idx" ON "recipe_lines"("ingredientId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "recipe_lines_menuItemId_ingredientId_key" ON "recipe_lines"("menuItemId", "ingredientId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "recipe_lines_optionId_ingredientId_key" ON "recipe_lines"("optionId", "ingredientId");
+
+-- CreateIndex
+CREATE INDEX "order_item_ingredients_orderItemId_idx" ON "order_item_ingredients"("orderItemId");
+
+-- CreateIndex
+CREATE INDEX "order_item_ingredients_ingredientId_idx" ON "order_item_ingredients"("ingredientId");
@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "menu_categories" ADD COLUMN "externalKey" TEXT;
+
+-- AlterTable
+ALTER TABLE "menu_items" ADD COLUMN "externalKey" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "menu_categories_hotelId_externalKey_key" ON "menu_categories"("hotelId", "externalKey");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "menu_items_hotelId_externalKey_key" ON "menu_items"("hotelId", "externalKey");
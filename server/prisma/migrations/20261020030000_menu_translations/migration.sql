@@ -0,0 +1,31 @@
+-- AlterTable
+ALTER TABLE "hotels" ADD COLUMN "defaultLocale" TEXT NOT NULL DEFAULT 'en';
+
+-- CreateTable
+CREATE TABLE "menu_category_translations" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "categoryId" INTEGER NOT NULL,
+    "locale" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "menu_category_translations_categoryId_fkey" FOREIGN KEY ("categoryId") REFERENCES "menu_categories" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "menu_item_translations" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "menuItemId" INTEGER NOT NULL,
+    "locale" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "menu_item_translations_menuItemId_fkey" FOREIGN KEY ("menuItemId") REFERENCES "menu_items" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "menu_category_translations_categoryId_locale_key" ON "menu_category_translations"("categoryId", "locale");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "menu_item_translations_menuItemId_locale_key" ON "menu_item_translations"("menuItemId", "locale");
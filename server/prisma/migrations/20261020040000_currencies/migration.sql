@@ -0,0 +1,58 @@
+-- AlterTable
+ALTER TABLE "hotels" ADD COLUMN "currency" TEXT NOT NULL DEFAULT 'USD';
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_orders" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "guestId" INTEGER NOT NULL,
+    "hotelId" INTEGER NOT NULL,
+    "tableId" INTEGER NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'PENDING',
+    "currency" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "orders_guestId_fkey" FOREIGN KEY ("guestId") REFERENCES "guests" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "orders_hotelId_fkey" FOREIGN KEY ("hotelId") REFERENCES "hotels" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "orders_tableId_fkey" FOREIGN KEY ("tableId") REFERENCES "tables" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+-- Existing orders were placed in their hotel's (default) currency
+INSERT INTO "new_orders" ("id", "guestId", "hotelId", "tableId", "status", "currency", "createdAt", "updatedAt")
+SELECT "orders"."id", "orders"."guestId", "orders"."hotelId", "orders"."tableId", "orders"."status", "hotels"."currency", "orders"."createdAt", "orders"."updatedAt"
+FROM "orders"
+JOIN "hotels" ON "hotels"."id" = "orders"."hotelId";
+DROP TABLE "orders";
+ALTER TABLE "new_orders" RENAME TO "orders";
+CREATE INDEX "orders_hotelId_idx" ON "orders"("hotelId");
+CREATE INDEX "orders_guestId_idx" ON "orders"("guestId");
+CREATE INDEX "orders_tableId_idx" ON "orders"("tableId");
+CREATE INDEX "orders_status_idx" ON "orders"("status");
+CREATE TABLE "new_payments" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "orderId" INTEGER NOT NULL,
+    "hotelId" INTEGER NOT NULL,
+    "amount" DECIMAL NOT NULL,
+    "currency" TEXT NOT NULL,
+    "method" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'PENDING',
+    "provider" TEXT,
+    "reference" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "payments_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "orders" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "payments_hotelId_fkey" FOREIGN KEY ("hotelId") REFERENCES "hotels" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+INSERT INTO "new_payments" ("id", "orderId", "hotelId", "amount", "currency", "method", "status", "provider", "reference", "createdAt", "updatedAt")
+SELECT "payments"."id", "payments"."orderId", "payments"."hotelId", "payments"."amount", "orders"."currency", "payments"."method", "payments"."status", "payments"."provider", "payments"."reference", "payments"."createdAt", "payments"."updatedAt"
+FROM "payments"
+JOIN "orders" ON "orders"."id" = "payments"."orderId";
+DROP TABLE "payments";
+ALTER TABLE "new_payments" RENAME TO "payments";
+CREATE UNIQUE INDEX "payments_orderId_key" ON "payments"("orderId");
+CREATE UNIQUE INDEX "payments_reference_key" ON "payments"("reference");
+CREATE INDEX "payments_hotelId_idx" ON "payments"("hotelId");
+CREATE INDEX "payments_orderId_idx" ON "payments"("orderId");
+CREATE INDEX "payments_status_idx" ON "payments"("status");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
@@ -0,0 +1,65 @@
+-- AlterTable
+ALTER TABLE "hotels" ADD COLUMN "taxName" TEXT NOT NULL DEFAULT 'Tax';
+ALTER TABLE "hotels" ADD COLUMN "taxRate" DECIMAL NOT NULL DEFAULT 0;
+ALTER TABLE "hotels" ADD COLUMN "taxInclusive" BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE "hotels" ADD COLUMN "serviceChargeRate" DECIMAL NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "menu_categories" ADD COLUMN "taxRate" DECIMAL;
+
+-- CreateTable
+CREATE TABLE "order_taxes" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "orderId" INTEGER NOT NULL,
+    "name" TEXT NOT NULL,
+    "rate" DECIMAL NOT NULL,
+    "base" DECIMAL NOT NULL,
+    "amount" DECIMAL NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "order_taxes_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "orders" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_orders" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "guestId" INTEGER NOT NULL,
+    "hotelId" INTEGER NOT NULL,
+    "tableId" INTEGER NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'PENDING',
+    "currency" TEXT NOT NULL,
+    "taxInclusive" BOOLEAN NOT NULL,
+    "subtotal" DECIMAL NOT NULL,
+    "taxTotal" DECIMAL NOT NULL,
+    "serviceCharge" DECIMAL NOT NULL,
+    "tip" DECIMAL NOT NULL DEFAULT 0,
+    "total" DECIMAL NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "orders_guestId_fkey" FOREIGN KEY ("guestId") REFERENCES "guests" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "orders_hotelId_fkey" FOREIGN KEY ("hotelId") REFERENCES "hotels" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "orders_tableId_fkey" FOREIGN KEY ("tableId") REFERENCES "tables" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+-- Existing orders carried no tax, service charge or tip, so their total is
+-- the sum of their lines, as their payments already charged
+INSERT INTO "new_orders" ("id", "guestId", "hotelId", "tableId", "status", "currency", "taxInclusive", "subtotal", "taxTotal", "serviceCharge", "tip", "total", "createdAt", "updatedAt")
+SELECT "id", "guestId", "hotelId", "tableId", "status", "currency", false, "lines"."amount", 0, 0, 0, "lines"."amount", "createdAt", "updatedAt"
+FROM "orders"
+JOIN (
+    SELECT "orders"."id" AS "orderId", ROUND(COALESCE(SUM("order_items"."price" * "order_items"."quantity"), 0), 2) AS "amount"
+    FROM "orders"
+    LEFT JOIN "order_items" ON "order_items"."orderId" = "orders"."id"
+    GROUP BY "orders"."id"
+) AS "lines" ON "lines"."orderId" = "orders"."id";
+DROP TABLE "orders";
+ALTER TABLE "new_orders" RENAME TO "orders";
+CREATE INDEX "orders_hotelId_idx" ON "orders"("hotelId");
+CREATE INDEX "orders_guestId_idx" ON "orders"("guestId");
+CREATE INDEX "orders_tableId_idx" ON "orders"("tableId");
+CREATE INDEX "orders_status_idx" ON "orders"("status");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
+
+-- CreateIndex
+CREATE INDEX "order_taxes_orderId_idx" ON "order_taxes"("orderId");
@@ -0,0 +1,77 @@
+-- AlterTable
+ALTER TABLE "orders" ADD COLUMN "discountTotal" DECIMAL NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "promotions" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "hotelId" INTEGER NOT NULL,
+    "name" TEXT NOT NULL,
+    "code" TEXT,
+    "type" TEXT NOT NULL,
+    "value" DECIMAL,
+    "buyQuantity" INTEGER,
+    "getQuantity" INTEGER,
+    "categoryId" INTEGER,
+    "menuItemId" INTEGER,
+    "daysOfWeek" TEXT,
+    "startTime" TEXT,
+    "endTime" TEXT,
+    "startDate" TEXT,
+    "endDate" TEXT,
+    "maxRedemptions" INTEGER,
+    "maxPerGuest" INTEGER,
+    "redemptionCount" INTEGER NOT NULL DEFAULT 0,
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "promotions_hotelId_fkey" FOREIGN KEY ("hotelId") REFERENCES "hotels" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "promotions_categoryId_fkey" FOREIGN KEY ("categoryId") REFERENCES "menu_categories" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "promotions_menuItemId_fkey" FOREIGN KEY ("menuItemId") REFERENCES "menu_items" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "promotion_redemptions" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "promotionId" INTEGER NOT NULL,
+    "orderId" INTEGER NOT NULL,
+    "guestId" INTEGER NOT NULL,
+    "guestUse" INTEGER NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "promotion_redemptions_promotionId_fkey" FOREIGN KEY ("promotionId") REFERENCES "promotions" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "promotion_redemptions_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "orders" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "promotion_redemptions_guestId_fkey" FOREIGN KEY ("guestId") REFERENCES "guests" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "order_discounts" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "orderId" INTEGER NOT NULL,
+    "promotionId" INTEGER,
+    "name" TEXT NOT NULL,
+    "code" TEXT,
+    "amount" DECIMAL NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "order_discounts_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "orders" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "order_discounts_promotionId_fkey" FOREIGN KEY ("promotionId") REFERENCES "promotions" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "promotions_hotelId_idx" ON "promotions"("hotelId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "promotions_hotelId_code_key" ON "promotions"("hotelId", "code");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "promotion_redemptions_orderId_key" ON "promotion_redemptions"("orderId");
+
+-- CreateIndex
+CREATE INDEX "promotion_redemptions_guestId_idx" ON "promotion_redemptions"("guestId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "promotion_redemptions_promotionId_guestId_guestUse_key" ON "promotion_redemptions"("promotionId", "guestId", "guestUse");
+
+-- CreateIndex
+CREATE INDEX "order_discounts_orderId_idx" ON "order_discounts"("orderId");
+
+-- CreateIndex
+CREATE INDEX "order_discounts_promotionId_idx" ON "order_discounts"("promotionId");
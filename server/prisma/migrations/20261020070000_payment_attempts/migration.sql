@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE "payment_attempts" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "paymentId" INTEGER NOT NULL,
+    "provider" TEXT,
+    "reference" TEXT NOT NULL,
+    "status" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "payment_attempts_paymentId_fkey" FOREIGN KEY ("paymentId") REFERENCES "payments" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "payment_attempts_reference_key" ON "payment_attempts"("reference");
+
+-- CreateIndex
+CREATE INDEX "payment_attempts_paymentId_idx" ON "payment_attempts"("paymentId");
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "refunds" ADD COLUMN "status" TEXT NOT NULL DEFAULT 'PENDING';
+
+-- Refunds recorded before this were already confirmed by the gateway
+UPDATE "refunds" SET "status" = 'COMPLETED';
@@ -0,0 +1,16 @@
+-- AlterTable
+ALTER TABLE "order_items" ADD COLUMN "restockedQuantity" INTEGER NOT NULL DEFAULT 0;
+
+-- Count units already put back by completed restocking refunds
+UPDATE "order_items" SET "restockedQuantity" = MIN("quantity", COALESCE((
+    SELECT SUM("refund_items"."quantity")
+    FROM "refund_items"
+    JOIN "refunds" ON "refunds"."id" = "refund_items"."refundId"
+    WHERE "refund_items"."orderItemId" = "order_items"."id"
+      AND "refunds"."restocked" = 1
+      AND "refunds"."status" = 'COMPLETED'
+), 0));
+
+-- Cancellation put back every unit of a cancelled order
+UPDATE "order_items" SET "restockedQuantity" = "quantity"
+WHERE "orderId" IN (SELECT "id" FROM "orders" WHERE "status" = 'CANCELLED');
@@ -1,32 +1,187 @@
-import { prisma } from "./lib/prisma";
+import { readFile, writeFile } from "node:fs/promises";
+import { extname } from "node:path";
+import { parseArgs } from "node:util";
+import { prisma } from "./lib/prisma.js";
+import { provisionHotel, exportHotelData, offboardHotel } from "./src/helpers/provisioning.helper.js";
+import {
+  importMenu,
+  exportMenu,
+  formatMenuFile,
+  type MenuFileFormat,
+} from "./src/helpers/menu-file.helper.js";
 
-async function main() {
-  // Create a new user with a post
-  const user = await prisma.user.create({
-    data: {
-      name: "Alice",
-      email: "alice@prisma.io",
-      posts: {
-        create: {
-          title: "Hello World",
-          content: "This is my first post!",
-          published: true,
-        },
-      },
+const USAGE = `Usage:
+  npm run cli -- provision --name <hotel> --owner-name <name> --owner-email <email> --owner-phone <phone> [--categories "Starters,Mains"]
+  npm run cli -- offboard --hotel-id <id> [--out <file.json>]
+  npm run cli -- menu-import --hotel-id <id> --file <menu.csv|menu.json> [--dry-run] [--prune]
+  npm run cli -- menu-export --hotel-id <id> [--out <menu.csv|menu.json>]`;
+
+/**
+ * Picks a menu file format from a file name, defaulting to JSON
+ */
+function menuFormat(file: string): MenuFileFormat {
+  return extname(file).toLowerCase() === ".csv" ? "csv" : "json";
+}
+
+async function provision(args: string[]) {
+  const { values } = parseArgs({
+    args,
+    options: {
+      name: { type: "string" },
+      "owner-name": { type: "string" },
+      "owner-email": { type: "string" },
+      "owner-phone": { type: "string" },
+      categories: { type: "string" },
     },
-    include: {
-      posts: true,
+  });
+
+  const name = values.name?.trim();
+  const ownerName = values["owner-name"]?.trim();
+  const ownerEmail = values["owner-email"]?.trim().toLowerCase();
+  const ownerPhone = values["owner-phone"]?.trim();
+
+  if (!name || !ownerName || !ownerEmail || !ownerPhone) {
+    throw new Error(USAGE);
+  }
+
+  const categories = (values.categories ?? "")
+    .split(",")
+    .map((category) => category.trim())
+    .filter(Boolean);
+
+  const result = await provisionHotel({
+    hotel: { name },
+    owner: { name: ownerName, email: ownerEmail, phone: ownerPhone },
+    categories,
+  });
+  if (!result.success) {
+    throw new Error(result.message);
+  }
+
+  console.log(`${result.message}: hotel ${result.hotelId}, owner admin ${result.ownerId}`);
+}
+
+async function offboard(args: string[]) {
+  const { values } = parseArgs({
+    args,
+    options: {
+      "hotel-id": { type: "string" },
+      out: { type: "string" },
+    },
+  });
+
+  const hotelId = parseInt(values["hotel-id"] ?? "", 10);
+  if (isNaN(hotelId)) {
+    throw new Error(USAGE);
+  }
+
+  // Write a first export before deleting anything so an unwritable path
+  // can't lose the hotel's data
+  const out = values.out ?? `hotel-${hotelId}-export.json`;
+  const snapshot = await exportHotelData(hotelId);
+  if (!snapshot) {
+    throw new Error("Hotel not found");
+  }
+  await writeFile(out, JSON.stringify(snapshot, null, 2));
+
+  const result = await offboardHotel(hotelId);
+  if (!result.success) {
+    throw new Error(result.message);
+  }
+
+  await writeFile(out, JSON.stringify(result.export, null, 2));
+  console.log(`${result.message}: export written to ${out}`);
+}
+
+async function menuImport(args: string[]) {
+  const { values } = parseArgs({
+    args,
+    options: {
+      "hotel-id": { type: "string" },
+      file: { type: "string" },
+      "dry-run": { type: "boolean" },
+      prune: { type: "boolean" },
     },
   });
-  console.log("Created user:", user);
 
-  // Fetch all users with their posts
-  const allUsers = await prisma.user.findMany({
-    include: {
-      posts: true,
+  const hotelId = parseInt(values["hotel-id"] ?? "", 10);
+  if (isNaN(hotelId) || !values.file) {
+    throw new Error(USAGE);
+  }
+
+  const result = await importMenu(
+    hotelId,
+    menuFormat(values.file),
+    await readFile(values.file, "utf8"),
+    { dryRun: values["dry-run"] ?? false, prune: values.prune ?? false }
+  );
+
+  const report = result.data;
+  if (report) {
+    for (const kind of ["categories", "items"] as const) {
+      const changes = report.plan[kind];
+      console.log(
+        `${kind}: ${changes.create.length} to create, ${changes.update.length} to update, ${changes.delete.length} to delete`
+      );
+      for (const action of ["create", "update", "delete"] as const) {
+        for (const key of changes[action]) console.log(`  ${action} ${key}`);
+      }
+    }
+    for (const error of report.errors) {
+      console.error(`${error.row}: ${error.message}`);
+    }
+  }
+
+  if (!result.success) {
+    throw new Error(result.message);
+  }
+  console.log(result.message);
+}
+
+async function menuExport(args: string[]) {
+  const { values } = parseArgs({
+    args,
+    options: {
+      "hotel-id": { type: "string" },
+      out: { type: "string" },
     },
   });
-  console.log("All users:", JSON.stringify(allUsers, null, 2));
+
+  const hotelId = parseInt(values["hotel-id"] ?? "", 10);
+  if (isNaN(hotelId)) {
+    throw new Error(USAGE);
+  }
+
+  const menu = await exportMenu(hotelId);
+  if (!menu) {
+    throw new Error("Hotel not found");
+  }
+
+  // Without --out the JSON file goes to stdout
+  if (!values.out) {
+    process.stdout.write(formatMenuFile(menu, "json"));
+    return;
+  }
+
+  await writeFile(values.out, formatMenuFile(menu, menuFormat(values.out)));
+  console.log(`Menu exported to ${values.out}`);
+}
+
+async function main() {
+  const [command, ...args] = process.argv.slice(2);
+
+  switch (command) {
+    case "provision":
+      return provision(args);
+    case "offboard":
+      return offboard(args);
+    case "menu-import":
+      return menuImport(args);
+    case "menu-export":
+      return menuExport(args);
+    default:
+      throw new Error(USAGE);
+  }
 }
 
 main()
@@ -34,7 +189,7 @@ main()
     await prisma.$disconnect();
   })
   .catch(async (e) => {
-    console.error(e);
+    console.error(e instanceof Error ? e.message : e);
     await prisma.$disconnect();
     process.exit(1);
   });
@@ -1,5 +1,14 @@
 import crypto from "node:crypto";
 import { prisma } from "../../lib/prisma.js";
+import type { AdminRole } from "../../generated/prisma/client.js";
+import { sendNotification, type NotificationChannel } from "./notification.helper.js";
+import { guestAppUrl } from "./table.helper.js";
+
+// Only in explicit dev mode is the passcode echoed back to the caller
+const AUTH_DEV_MODE = process.env.AUTH_DEV_MODE === "true";
+
+// Wrong guesses a single passcode survives before it is invalidated
+const MAX_PASSCODE_ATTEMPTS = 5;
 
 // ============================================
 // Types & Interfaces
@@ -9,12 +18,15 @@ export interface AdminAuthPayload {
   adminId: number;
   hotelId: number;
   email: string;
+  role: AdminRole;
+  sessionId: string;
   type: "admin";
 }
 
 export interface GuestAuthPayload {
   guestId: number;
-  email: string;
+  email: string | null; // null for anonymous table guests
+  sessionId: string;
   type: "guest";
 }
 
@@ -22,15 +34,37 @@ export type AuthPayload = AdminAuthPayload | GuestAuthPayload;
 
 export interface MFAVerificationResult {
   success: boolean;
-  passcode?: string;
+  passcode?: string; // Only set when AUTH_DEV_MODE is on
+  channel?: NotificationChannel;
+  expiresAt?: Date;
+  message: string;
+}
+
+export interface GuestVerificationResult {
+  success: boolean;
+  passcode?: string; // Only set when AUTH_DEV_MODE is on
+  linkToken?: string; // Only set when AUTH_DEV_MODE is on
   expiresAt?: Date;
   message: string;
 }
 
+/**
+ * Proof of email ownership: the emailed code, or the magic link token
+ */
+export type GuestProof = { email: string; passcode: string } | { linkToken: string };
+
+export interface VerifyGuestResult {
+  success: boolean;
+  guestId?: number;
+  email?: string;
+  message: string;
+}
+
 export interface VerifyPasscodeResult {
   success: boolean;
   adminId?: number;
   hotelId?: number;
+  role?: AdminRole;
   message: string;
 }
 
@@ -46,11 +80,13 @@ function generatePasscode(): string {
 }
 
 /**
- * Creates a new MFA verification passcode for an admin
+ * Creates a new MFA verification passcode for an admin and delivers it
+ * by email (Admin.email) or SMS (Admin.phone)
  * Passcode expires in 10 minutes by default
  */
 export async function createAdminVerification(
   adminId: number,
+  channel: NotificationChannel = "email",
   expirationMinutes: number = 10
 ): Promise<MFAVerificationResult> {
   try {
@@ -72,6 +108,12 @@ export async function createAdminVerification(
     const expiresAt = new Date();
     expiresAt.setMinutes(expiresAt.getMinutes() + expirationMinutes);
 
+    // Only the newest code stays valid, so guesses can't spread across codes
+    await prisma.adminVerification.updateMany({
+      where: { adminId, used: false },
+      data: { used: true },
+    });
+
     // Create verification record
     const verification = await prisma.adminVerification.create({
       data: {
@@ -82,13 +124,32 @@ export async function createAdminVerification(
       },
     });
 
-    // In a real application, you would send this passcode via SMS/Email
-    // For now, we return it in the response (remove in production!)
+    // Deliver the passcode to the admin
+    const delivered = await sendNotification(channel, {
+      to: channel === "sms" ? admin.phone : admin.email,
+      subject: `Your ${admin.hotel.name} sign-in code`,
+      text: `Your ZapMenu sign-in code is ${passcode}. It expires in ${expirationMinutes} minutes.`,
+    });
+
+    if (!delivered) {
+      // Invalidate a code the admin never received
+      await prisma.adminVerification.update({
+        where: { id: verification.id },
+        data: { used: true },
+      });
+
+      return {
+        success: false,
+        message: `Failed to deliver verification code by ${channel}`,
+      };
+    }
+
     return {
       success: true,
-      passcode, // TODO: Remove this in production - send via SMS/Email instead
+      ...(AUTH_DEV_MODE && { passcode }),
+      channel,
       expiresAt: verification.expiresAt,
-      message: "MFA passcode generated successfully",
+      message: "MFA passcode sent successfully",
     };
   } catch (error) {
     console.error("Error creating admin verification:", error);
@@ -136,8 +197,19 @@ export async function verifyAdminPasscode(
     });
 
     if (!verification) {
+      // Count the failed guess against the admin's outstanding codes
+      await prisma.adminVerification.updateMany({
+        where: { adminId: admin.id, used: false, expiresAt: { gt: new Date() } },
+        data: { attempts: { increment: 1 } },
+      });
+      await prisma.adminVerification.updateMany({
+        where: { adminId: admin.id, used: false, attempts: { gte: MAX_PASSCODE_ATTEMPTS } },
+        data: { used: true },
+      });
+
       return {
         success: false,
+        hotelId: admin.hotelId,
         message: "Invalid or expired passcode",
       };
     }
@@ -163,6 +235,7 @@ export async function verifyAdminPasscode(
       success: true,
       adminId: admin.id,
       hotelId: admin.hotelId,
+      role: admin.role,
       message: "Passcode verified successfully",
     };
   } catch (error) {
@@ -174,53 +247,197 @@ export async function verifyAdminPasscode(
   }
 }
 
+// ============================================
+// Guest Verification
+// ============================================
+
+/**
+ * Normalizes a guest email for lookups, storage and throttle keys
+ */
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
 /**
- * Finds or creates a guest by email
- * Used for guest login/registration
+ * Hashes a magic link token for storage and lookup
  */
-export async function findOrCreateGuest(
+function hashLinkToken(token: string): string {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+/**
+ * Creates a one-time code and magic link proving ownership of an email
+ * and sends both to it; name is used if the guest doesn't exist yet
+ * Expects a normalized email; expires in 15 minutes by default
+ */
+export async function createGuestVerification(
   email: string,
-  name: string
-): Promise<{ success: boolean; guestId?: number; message: string }> {
+  name: string | null,
+  expirationMinutes: number = 15
+): Promise<GuestVerificationResult> {
   try {
-    // Try to find existing guest
-    let guest = await prisma.guest.findUnique({
-      where: { email },
+    const passcode = generatePasscode();
+    const linkToken = crypto.randomBytes(32).toString("base64url");
+    const expiresAt = new Date();
+    expiresAt.setMinutes(expiresAt.getMinutes() + expirationMinutes);
+
+    // Only the newest code stays valid, so guesses can't spread across codes
+    await prisma.guestVerification.updateMany({
+      where: { email, used: false },
+      data: { used: true },
     });
 
-    // If not found, create new guest
-    if (!guest) {
-      guest = await prisma.guest.create({
-        data: {
-          email,
-          name,
-        },
+    const verification = await prisma.guestVerification.create({
+      data: {
+        email,
+        name,
+        passcode,
+        linkTokenHash: hashLinkToken(linkToken),
+        expiresAt,
+      },
+    });
+
+    const link = guestAppUrl(`/auth/verify?token=${linkToken}`);
+    const delivered = await sendNotification("email", {
+      to: email,
+      subject: "Your ZapMenu sign-in code",
+      text: `Your ZapMenu sign-in code is ${passcode}, or sign in with this link: ${link}\nBoth expire in ${expirationMinutes} minutes.`,
+    });
+
+    if (!delivered) {
+      // Invalidate a code the guest never received
+      await prisma.guestVerification.update({
+        where: { id: verification.id },
+        data: { used: true },
       });
+
       return {
-        success: true,
-        guestId: guest.id,
-        message: "Guest created successfully",
+        success: false,
+        message: "Failed to deliver verification code by email",
       };
     }
 
-    // Update name if provided and different
-    if (name && guest.name !== name) {
-      guest = await prisma.guest.update({
-        where: { id: guest.id },
-        data: { name },
-      });
+    return {
+      success: true,
+      ...(AUTH_DEV_MODE && { passcode, linkToken }),
+      expiresAt,
+      message: "Verification code sent",
+    };
+  } catch (error) {
+    console.error("Error creating guest verification:", error);
+    return {
+      success: false,
+      message: "Failed to create verification code",
+    };
+  }
+}
+
+/**
+ * Verifies a guest's emailed code or magic link and signs them in
+ * Expects a normalized email with the code
+ * The guest is created on first verification; an existing guest's name
+ * is never changed by signing in
+ */
+export async function verifyGuest(proof: GuestProof): Promise<VerifyGuestResult> {
+  try {
+    const where =
+      "linkToken" in proof
+        ? { linkTokenHash: hashLinkToken(proof.linkToken) }
+        : { email: proof.email, passcode: proof.passcode };
+
+    const verification = await prisma.guestVerification.findFirst({
+      where: { ...where, used: false, expiresAt: { gt: new Date() } },
+      orderBy: { createdAt: "desc" },
+    });
+
+    if (!verification) {
+      if ("email" in proof) {
+        // Count the failed guess against the email's outstanding codes
+        await prisma.guestVerification.updateMany({
+          where: { email: proof.email, used: false, expiresAt: { gt: new Date() } },
+          data: { attempts: { increment: 1 } },
+        });
+        await prisma.guestVerification.updateMany({
+          where: { email: proof.email, used: false, attempts: { gte: MAX_PASSCODE_ATTEMPTS } },
+          data: { used: true },
+        });
+      }
+
+      return {
+        success: false,
+        message: "Invalid or expired code",
+      };
+    }
+
+    // Claim the code; only one concurrent verification can win
+    const claimed = await prisma.guestVerification.updateMany({
+      where: { id: verification.id, used: false },
+      data: { used: true },
+    });
+
+    if (claimed.count === 0) {
+      return {
+        success: false,
+        message: "Invalid or expired code",
+      };
     }
 
+    const guest = await prisma.guest.upsert({
+      where: { email: verification.email },
+      create: {
+        email: verification.email,
+        name: verification.name || verification.email.split("@")[0]!,
+        emailVerifiedAt: new Date(),
+      },
+      update: { emailVerifiedAt: new Date() },
+    });
+
+    // Clean up old verification records
+    await prisma.guestVerification.deleteMany({
+      where: {
+        used: true,
+        expiresAt: { lt: new Date(Date.now() - 24 * 60 * 60 * 1000) },
+      },
+    });
+
     return {
       success: true,
       guestId: guest.id,
-      message: "Guest found",
+      email: verification.email,
+      message: "Email verified successfully",
     };
   } catch (error) {
-    console.error("Error finding/creating guest:", error);
+    console.error("Error verifying guest:", error);
     return {
       success: false,
-      message: "Failed to find or create guest",
+      message: "Failed to verify code",
+    };
+  }
+}
+
+/**
+ * Creates an anonymous walk-in guest scoped to one table
+ * The guest can only order at that table and has no email to sign back in with
+ */
+export async function createAnonymousGuest(
+  tableId: number,
+  name?: string
+): Promise<{ success: boolean; guestId?: number; message: string }> {
+  try {
+    const guest = await prisma.guest.create({
+      data: { name: name || "Guest", tableId },
+    });
+
+    return {
+      success: true,
+      guestId: guest.id,
+      message: "Anonymous guest created",
+    };
+  } catch (error) {
+    console.error("Error creating anonymous guest:", error);
+    return {
+      success: false,
+      message: "Failed to create anonymous guest",
     };
   }
 }
@@ -311,7 +528,7 @@ export async function verifyAdminHotelAccess(
 }
 
 /**
- * Checks if a guest has placed an order at a specific hotel
+ * Checks if a guest has a profile at a specific hotel, i.e. has ordered there
  * Used for guest authorization when accessing hotel-specific resources
  */
 export async function verifyGuestHotelAccess(
@@ -319,15 +536,12 @@ export async function verifyGuestHotelAccess(
   hotelId: number
 ): Promise<boolean> {
   try {
-    const order = await prisma.order.findFirst({
-      where: {
-        guestId,
-        hotelId,
-      },
+    const profile = await prisma.guestProfile.findUnique({
+      where: { guestId_hotelId: { guestId, hotelId } },
       select: { id: true },
     });
 
-    return !!order;
+    return !!profile;
   } catch (error) {
     console.error("Error verifying guest hotel access:", error);
     return false;
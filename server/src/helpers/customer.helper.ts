@@ -0,0 +1,710 @@
+import { prisma } from "../../lib/prisma.js";
+import type { Prisma } from "../../generated/prisma/client.js";
+import { publishOrderEvent } from "./events.helper.js";
+import { recordGuestVisit } from "./guest.helper.js";
+import { checkLowStock, notifyLowStock, type LowStockAlert } from "./inventory.helper.js";
+import {
+  addMoney,
+  multiplyMoney,
+  parseMoney,
+  subtractMoney,
+  toDecimal,
+  toMoney,
+  zeroMoney,
+} from "./money.helper.js";
+import {
+  applyPromotion,
+  recordRedemption,
+  PromotionRejectedError,
+  type PromotionLine,
+} from "./promotion.helper.js";
+import { addRecipeUsage, deductIngredients } from "./recipe.helper.js";
+import { getLocalTime, isItemOrderableNow } from "./schedule.helper.js";
+import {
+  computeOrderTotals,
+  formatOrder,
+  formatOrderTotals,
+  toOrderTotalsData,
+  type TaxableLine,
+} from "./tax.helper.js";
+import type { TenantResult } from "./tenant.helper.js";
+
+// ============================================
+// Types & Interfaces
+// ============================================
+
+export interface CartLine {
+  menuItemId: number;
+  quantity: number;
+  optionIds?: number[];
+}
+
+export interface CartLineError {
+  index: number;
+  menuItemId: number;
+  code: "INVALID" | "CONFLICT"; // CONFLICT when stock or availability is what stands in the way
+  error: string;
+}
+
+type LineProblem = Pick<CartLineError, "code" | "error">;
+
+export interface CheckoutOptions {
+  currency?: string; // Must be the hotel's currency when given
+  tip?: string | number;
+  code?: string; // Promo code; without one the best automatic promotion applies
+}
+
+export interface PlaceOrderResult {
+  success: boolean;
+  orderId?: number;
+  lineErrors?: CartLineError[];
+  notFound?: boolean;
+  invalidTable?: boolean;
+  invalidCurrency?: boolean;
+  invalidTip?: boolean;
+  invalidPromotion?: boolean;
+  message: string;
+}
+
+/**
+ * Thrown inside the order transaction when a conditional stock decrement
+ * loses a race, so the whole transaction rolls back
+ */
+class StockConflictError extends Error {
+  constructor(public readonly lineError: CartLineError) {
+    super(lineError.error);
+    this.name = "StockConflictError";
+  }
+}
+
+// Recipe lines with the ingredient stock needed to check them
+const RECIPE_WITH_STOCK = {
+  select: {
+    ingredientId: true,
+    quantity: true,
+    ingredient: { select: { name: true, stock: true } },
+  },
+} as const;
+
+type RecipeWithStock = {
+  ingredientId: number;
+  quantity: Prisma.Decimal;
+  ingredient: { name: string; stock: Prisma.Decimal };
+}[];
+
+// ============================================
+// Ordering
+// ============================================
+
+/**
+ * Checks a line's chosen options against its item's modifier groups:
+ * every option must belong to the item, each group's min/max selection
+ * rules must hold, and tracked option stock must cover the demand
+ * Records the line's option demand on success
+ * Returns the problem, or null if the options are valid
+ */
+function checkLineOptions(
+  item: {
+    price: Prisma.Decimal;
+    modifierGroups: {
+      id: number;
+      name: string;
+      minSelect: number;
+      maxSelect: number;
+      options: { id: number; name: string; priceDelta: Prisma.Decimal; stock: number | null }[];
+    }[];
+  },
+  line: CartLine,
+  optionDemand: Map<number, number>
+): LineProblem | null {
+  const optionIds = line.optionIds ?? [];
+
+  if (!optionIds.every(Number.isInteger)) {
+    return { code: "INVALID", error: "Option IDs must be integers" };
+  }
+  if (new Set(optionIds).size !== optionIds.length) {
+    return { code: "INVALID", error: "Each option can only be chosen once" };
+  }
+
+  const chosen = new Set(optionIds);
+  let unitPrice = item.price;
+  let matched = 0;
+
+  for (const group of item.modifierGroups) {
+    const picked = group.options.filter((option) => chosen.has(option.id));
+    matched += picked.length;
+
+    if (picked.length < group.minSelect) {
+      return {
+        code: "INVALID",
+        error: `Choose at least ${group.minSelect} option(s) for ${group.name}`,
+      };
+    }
+    if (picked.length > group.maxSelect) {
+      return {
+        code: "INVALID",
+        error: `Choose at most ${group.maxSelect} option(s) for ${group.name}`,
+      };
+    }
+
+    for (const option of picked) {
+      const requested = (optionDemand.get(option.id) ?? 0) + line.quantity;
+      if (option.stock !== null && requested > option.stock) {
+        return { code: "CONFLICT", error: `Insufficient stock for ${option.name}` };
+      }
+      unitPrice = unitPrice.plus(option.priceDelta);
+    }
+  }
+
+  if (matched !== optionIds.length) {
+    return { code: "INVALID", error: "Option not available for this menu item" };
+  }
+  if (unitPrice.isNegative()) {
+    return { code: "INVALID", error: "Chosen options bring the price below zero" };
+  }
+
+  for (const optionId of optionIds) {
+    optionDemand.set(optionId, (optionDemand.get(optionId) ?? 0) + line.quantity);
+  }
+
+  return null;
+}
+
+/**
+ * Checks that ingredient stock covers a line's recipes (the item's and its
+ * chosen options'), on top of what earlier lines already need
+ * Records the line's ingredient demand on success
+ * Returns an error message, or null if there is enough of everything
+ */
+function checkLineIngredients(
+  recipes: RecipeWithStock[],
+  line: CartLine,
+  ingredientDemand: Map<number, Prisma.Decimal>
+): string | null {
+  const usage = new Map<number, Prisma.Decimal>();
+  const ingredients = new Map<number, { name: string; stock: Prisma.Decimal }>();
+
+  for (const recipe of recipes) {
+    addRecipeUsage(usage, recipe, line.quantity);
+    recipe.forEach((recipeLine) => ingredients.set(recipeLine.ingredientId, recipeLine.ingredient));
+  }
+
+  for (const [ingredientId, quantity] of usage) {
+    const ingredient = ingredients.get(ingredientId)!;
+    const requested = quantity.plus(ingredientDemand.get(ingredientId) ?? 0);
+    if (requested.gt(ingredient.stock)) {
+      return `Out of ${ingredient.name}`;
+    }
+  }
+
+  addRecipeUsage(ingredientDemand, [...usage].map(([ingredientId, quantity]) => ({ ingredientId, quantity })));
+  return null;
+}
+
+/**
+ * Validates every cart line against the hotel's menu, including its
+ * availability schedules in the hotel's time zone
+ * Returns one error per failing line; an empty array means the cart is valid
+ */
+async function validateCart(
+  hotel: { id: number; timezone: string },
+  lines: CartLine[]
+): Promise<CartLineError[]> {
+  const hotelId = hotel.id;
+  const errors: CartLineError[] = [];
+  const now = new Date();
+  const local = getLocalTime(now, hotel.timezone);
+
+  const ids = [...new Set(lines.map((line) => line.menuItemId).filter(Number.isInteger))];
+  const items = await prisma.menuItem.findMany({
+    where: { id: { in: ids } },
+    select: {
+      id: true,
+      hotelId: true,
+      stock: true,
+      price: true,
+      unavailableUntil: true,
+      schedules: true,
+      category: { select: { schedules: true } },
+      recipe: RECIPE_WITH_STOCK,
+      modifierGroups: { include: { options: { include: { recipe: RECIPE_WITH_STOCK } } } },
+    },
+  });
+  const itemsById = new Map(items.map((item) => [item.id, item]));
+
+  // Track demand per item, option and ingredient so repeated lines share their stock
+  const demand = new Map<number, number>();
+  const optionDemand = new Map<number, number>();
+  const ingredientDemand = new Map<number, Prisma.Decimal>();
+
+  lines.forEach((line, index) => {
+    if (!Number.isInteger(line.menuItemId)) {
+      errors.push({ index, menuItemId: line.menuItemId, code: "INVALID", error: "Valid menu item ID required" });
+      return;
+    }
+
+    if (!Number.isInteger(line.quantity) || line.quantity <= 0) {
+      errors.push({ index, menuItemId: line.menuItemId, code: "INVALID", error: "Quantity must be a positive integer" });
+      return;
+    }
+
+    const item = itemsById.get(line.menuItemId);
+    if (!item || item.hotelId !== hotelId) {
+      errors.push({ index, menuItemId: line.menuItemId, code: "INVALID", error: "Menu item not found in this hotel" });
+      return;
+    }
+
+    if (!isItemOrderableNow(item, item.category.schedules, local, now)) {
+      errors.push({ index, menuItemId: line.menuItemId, code: "CONFLICT", error: "Menu item is not available right now" });
+      return;
+    }
+
+    const optionError = checkLineOptions(item, line, optionDemand);
+    if (optionError) {
+      errors.push({ index, menuItemId: line.menuItemId, ...optionError });
+      return;
+    }
+
+    const requested = (demand.get(item.id) ?? 0) + line.quantity;
+    if (requested > item.stock) {
+      errors.push({ index, menuItemId: line.menuItemId, code: "CONFLICT", error: "Insufficient stock" });
+      return;
+    }
+
+    const chosen = new Set(line.optionIds ?? []);
+    const optionRecipes = item.modifierGroups.flatMap((group) =>
+      group.options.filter((option) => chosen.has(option.id)).map((option) => option.recipe)
+    );
+    const ingredientError = checkLineIngredients([item.recipe, ...optionRecipes], line, ingredientDemand);
+    if (ingredientError) {
+      errors.push({ index, menuItemId: line.menuItemId, code: "CONFLICT", error: ingredientError });
+      return;
+    }
+
+    demand.set(item.id, requested);
+  });
+
+  return errors;
+}
+
+/**
+ * Places an order for a guest at one of a hotel's tables
+ * Stock is reserved and the order written in one transaction, so nothing
+ * is written if any line fails
+ */
+export async function placeOrder(
+  guestId: number,
+  hotelId: number,
+  tableId: number,
+  lines: CartLine[],
+  checkout: CheckoutOptions = {}
+): Promise<PlaceOrderResult> {
+  try {
+    const hotel = await prisma.hotel.findUnique({
+      where: { id: hotelId },
+      select: {
+        id: true,
+        timezone: true,
+        currency: true,
+        taxName: true,
+        taxRate: true,
+        taxInclusive: true,
+        serviceChargeRate: true,
+      },
+    });
+
+    if (!hotel) {
+      return {
+        success: false,
+        notFound: true,
+        message: "Hotel not found",
+      };
+    }
+
+    // Orders are priced in the hotel's currency; a guest naming another is
+    // turned away rather than charged in it
+    if (checkout.currency !== undefined && checkout.currency !== hotel.currency) {
+      return {
+        success: false,
+        invalidCurrency: true,
+        message: `This hotel only accepts orders in ${hotel.currency}`,
+      };
+    }
+
+    const tip =
+      checkout.tip === undefined
+        ? zeroMoney(hotel.currency)
+        : parseMoney(checkout.tip, hotel.currency);
+    if (!tip || tip.minor < 0n) {
+      return {
+        success: false,
+        invalidTip: true,
+        message: `Tip must be a non-negative ${hotel.currency} amount`,
+      };
+    }
+
+    const table = await prisma.table.findFirst({
+      where: { id: tableId, hotelId, active: true },
+      select: { id: true, label: true },
+    });
+
+    if (!table) {
+      return {
+        success: false,
+        invalidTable: true,
+        message: "Table not found in this hotel",
+      };
+    }
+
+    const lineErrors = await validateCart(hotel, lines);
+    if (lineErrors.length > 0) {
+      return {
+        success: false,
+        lineErrors,
+        message: "Some order lines could not be fulfilled",
+      };
+    }
+
+    const { order, alerts } = await prisma.$transaction(async (tx) => {
+      const orderItems: Prisma.OrderItemUncheckedCreateWithoutOrderInput[] = [];
+      const promotionLines: PromotionLine[] = [];
+      const taxRates: Prisma.Decimal[] = [];
+      const stockMovements: Prisma.StockMovementUncheckedCreateWithoutOrderInput[] = [];
+      const alerts: (LowStockAlert | null)[] = [];
+
+      for (const [index, line] of lines.entries()) {
+        // Conditional decrement guards against concurrent orders draining stock
+        const reserved = await tx.menuItem.updateMany({
+          where: { id: line.menuItemId, hotelId, stock: { gte: line.quantity } },
+          data: { stock: { decrement: line.quantity } },
+        });
+
+        if (reserved.count === 0) {
+          throw new StockConflictError({
+            index,
+            menuItemId: line.menuItemId,
+            code: "CONFLICT",
+            error: "Insufficient stock",
+          });
+        }
+
+        // Recorded in the stock ledger with the order
+        stockMovements.push({ hotelId, menuItemId: line.menuItemId, delta: -line.quantity, reason: "ORDER" });
+        alerts.push(await checkLowStock(tx, { hotelId, menuItemId: line.menuItemId, delta: -line.quantity }));
+
+        const item = await tx.menuItem.findUniqueOrThrow({
+          where: { id: line.menuItemId },
+          select: {
+            price: true,
+            recipe: true,
+            category: { select: { id: true, taxRate: true } },
+          },
+        });
+
+        const optionIds = line.optionIds ?? [];
+        const options = await tx.modifierOption.findMany({
+          where: { id: { in: optionIds }, group: { menuItemId: line.menuItemId } },
+          include: { group: { select: { name: true } }, recipe: true },
+        });
+
+        if (options.length !== optionIds.length) {
+          throw new StockConflictError({
+            index,
+            menuItemId: line.menuItemId,
+            code: "CONFLICT",
+            error: "Option not available for this menu item",
+          });
+        }
+
+        for (const option of options) {
+          if (option.stock === null) continue;
+
+          const reservedOption = await tx.modifierOption.updateMany({
+            where: { id: option.id, stock: { gte: line.quantity } },
+            data: { stock: { decrement: line.quantity } },
+          });
+
+          if (reservedOption.count === 0) {
+            throw new StockConflictError({
+              index,
+              menuItemId: line.menuItemId,
+              code: "CONFLICT",
+              error: `Insufficient stock for ${option.name}`,
+            });
+          }
+        }
+
+        // Ingredients used per unit of this line, item and options together
+        const usage = addRecipeUsage(new Map(), item.recipe);
+        options.forEach((option) => addRecipeUsage(usage, option.recipe));
+
+        const shortIngredientId = await deductIngredients(tx, hotelId, usage, line.quantity);
+        if (shortIngredientId !== null) {
+          const ingredient = await tx.ingredient.findUniqueOrThrow({
+            where: { id: shortIngredientId },
+            select: { name: true },
+          });
+          throw new StockConflictError({
+            index,
+            menuItemId: line.menuItemId,
+            code: "CONFLICT",
+            error: `Out of ${ingredient.name}`,
+          });
+        }
+
+        const unitPrice = options.reduce(
+          (total, option) => addMoney(total, toMoney(option.priceDelta, hotel.currency)),
+          toMoney(item.price, hotel.currency)
+        );
+        promotionLines.push({
+          menuItemId: line.menuItemId,
+          categoryId: item.category.id,
+          unitPrice,
+          quantity: line.quantity,
+        });
+        taxRates.push(item.category.taxRate ?? hotel.taxRate);
+
+        // Prices and option names are snapshotted so menu edits don't change the order
+        orderItems.push({
+          menuItemId: line.menuItemId,
+          quantity: line.quantity,
+          price: toDecimal(unitPrice),
+          options: {
+            create: options.map((option) => ({
+              optionId: option.id,
+              groupName: option.group.name,
+              name: option.name,
+              priceDelta: option.priceDelta,
+            })),
+          },
+          ingredients: {
+            create: [...usage].map(([ingredientId, quantity]) => ({ ingredientId, quantity })),
+          },
+        });
+      }
+
+      await recordGuestVisit(tx, guestId, hotel);
+
+      // The promo code's discount, or the best automatic promotion's, comes
+      // off the lines before tax
+      const applied = await applyPromotion(tx, hotel, guestId, checkout.code, promotionLines);
+      const taxableLines: TaxableLine[] = promotionLines.map((line, index) => ({
+        amount: multiplyMoney(line.unitPrice, line.quantity),
+        discount: applied?.discounts[index] ?? zeroMoney(hotel.currency),
+        taxRate: taxRates[index]!,
+      }));
+
+      // Taxes, the service charge and the tip are snapshotted with the total
+      const order = await tx.order.create({
+        data: {
+          guestId,
+          hotelId,
+          tableId,
+          currency: hotel.currency,
+          ...toOrderTotalsData(computeOrderTotals(taxableLines, hotel, tip)),
+          orderItems: { create: orderItems },
+          statusHistory: { create: { toStatus: "PENDING" } },
+          stockMovements: { create: stockMovements },
+          ...(applied && {
+            discounts: {
+              create: {
+                promotionId: applied.promotion.id,
+                name: applied.promotion.name,
+                code: applied.promotion.code,
+                amount: toDecimal(applied.total),
+              },
+            },
+          }),
+        },
+      });
+
+      if (applied) {
+        await recordRedemption(tx, applied, order.id, guestId);
+      }
+
+      return { order, alerts };
+    });
+
+    await notifyLowStock(alerts);
+
+    await publishOrderEvent({
+      hotelId,
+      orderId: order.id,
+      guestId,
+      type: "order.created",
+      status: order.status,
+      data: { tableId, tableLabel: table.label, items: lines },
+    });
+
+    return {
+      success: true,
+      orderId: order.id,
+      message: "Order placed successfully",
+    };
+  } catch (error) {
+    if (error instanceof StockConflictError) {
+      return {
+        success: false,
+        lineErrors: [error.lineError],
+        message: "Some order lines could not be fulfilled",
+      };
+    }
+    if (error instanceof PromotionRejectedError) {
+      return {
+        success: false,
+        invalidPromotion: true,
+        message: error.message,
+      };
+    }
+
+    console.error("Error placing order:", error);
+    return {
+      success: false,
+      message: "Failed to place order",
+    };
+  }
+}
+
+/**
+ * Lists a guest's orders, optionally limited to one hotel, with amounts
+ * formatted in each order's currency
+ */
+export async function getGuestOrders(guestId: number, hotelId?: number) {
+  try {
+    const orders = await prisma.order.findMany({
+      where: {
+        guestId,
+        ...(hotelId !== undefined && { hotelId }),
+      },
+      include: {
+        table: { select: { id: true, label: true, zone: true } },
+        orderItems: { include: { menuItem: { select: { name: true } }, options: true } },
+        taxes: true,
+        discounts: true,
+      },
+      orderBy: { createdAt: "desc" },
+    });
+
+    return orders.map((order) => formatOrder(order));
+  } catch (error) {
+    console.error("Error getting guest orders:", error);
+    return [];
+  }
+}
+
+/**
+ * Gets one of a guest's orders by ID, with amounts formatted
+ * Returns null if the order belongs to another guest
+ */
+export async function getGuestOrder(guestId: number, orderId: number) {
+  try {
+    const order = await prisma.order.findFirst({
+      where: { id: orderId, guestId },
+      include: {
+        table: { select: { id: true, label: true, zone: true } },
+        orderItems: { include: { menuItem: { select: { name: true } }, options: true } },
+        taxes: true,
+        discounts: true,
+      },
+    });
+
+    return order && formatOrder(order);
+  } catch (error) {
+    console.error("Error getting guest order:", error);
+    return null;
+  }
+}
+
+/**
+ * Sets the tip on one of a guest's orders and adjusts its total
+ * Only possible until payment starts, so the charged amount always
+ * matches the order
+ */
+export async function setOrderTip(
+  guestId: number,
+  orderId: number,
+  amount: string | number
+): Promise<TenantResult<ReturnType<typeof formatOrderTotals>>> {
+  try {
+    const order = await prisma.order.findFirst({
+      where: { id: orderId, guestId },
+      include: { payment: { select: { status: true } } },
+    });
+
+    if (!order) {
+      return {
+        success: false,
+        code: "NOT_FOUND",
+        message: "Order not found",
+      };
+    }
+
+    if (order.status === "CANCELLED") {
+      return {
+        success: false,
+        code: "INVALID",
+        message: "Cannot tip on a cancelled order",
+      };
+    }
+
+    if (order.payment && order.payment.status !== "FAILED") {
+      return {
+        success: false,
+        code: "CONFLICT",
+        message: "Tip cannot change once payment has started",
+      };
+    }
+
+    const tip = parseMoney(amount, order.currency);
+    if (!tip || tip.minor < 0n) {
+      return {
+        success: false,
+        code: "INVALID",
+        message: `Tip must be a non-negative ${order.currency} amount`,
+      };
+    }
+
+    const withoutTip = subtractMoney(
+      toMoney(order.total, order.currency),
+      toMoney(order.tip, order.currency)
+    );
+    const total = addMoney(withoutTip, tip);
+
+    // Only applies while no payment has started and nobody else changed the
+    // tip, so a payment never charges a total the tip changed under it
+    const changed = await prisma.order.updateMany({
+      where: {
+        id: orderId,
+        status: { not: "CANCELLED" },
+        tip: order.tip,
+        OR: [{ payment: { is: null } }, { payment: { is: { status: "FAILED" } } }],
+      },
+      data: { tip: toDecimal(tip), total: toDecimal(total) },
+    });
+
+    if (changed.count === 0) {
+      return {
+        success: false,
+        code: "CONFLICT",
+        message: "Tip cannot change once payment has started",
+      };
+    }
+
+    const updated = await prisma.order.findUniqueOrThrow({
+      where: { id: orderId },
+      include: { taxes: true, discounts: true },
+    });
+
+    return {
+      success: true,
+      data: formatOrderTotals(updated),
+      message: "Tip updated successfully",
+    };
+  } catch (error) {
+    console.error("Error setting order tip:", error);
+    return {
+      success: false,
+      message: "Failed to update tip",
+    };
+  }
+}
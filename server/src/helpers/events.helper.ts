@@ -0,0 +1,158 @@
+import { EventEmitter } from "node:events";
+import { prisma } from "../../lib/prisma.js";
+import type { OrderStatus } from "../../generated/prisma/client.js";
+
+// ============================================
+// Types & Interfaces
+// ============================================
+
+export type OrderEventType = "order.created" | "order.status_changed";
+
+export interface OrderEventInput {
+  hotelId: number;
+  orderId: number;
+  guestId: number;
+  type: OrderEventType;
+  status: OrderStatus;
+  data?: Record<string, unknown>;
+}
+
+export interface OrderFeedEvent {
+  id: number;
+  hotelId: number;
+  orderId: number;
+  guestId: number;
+  type: OrderEventType;
+  status: OrderStatus;
+  data: Record<string, unknown>;
+  createdAt: Date;
+}
+
+/**
+ * Restricts a feed to one hotel (kitchen/admin) or one guest
+ */
+export type OrderFeedScope = { hotelId: number } | { guestId: number };
+
+// Events older than this are pruned and can no longer be replayed
+const EVENT_RETENTION_MS = 24 * 60 * 60 * 1000;
+
+// Each hotel's old events are pruned at most this often
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+
+// When each hotel's events were last pruned by this process
+const lastPrunedAt = new Map<number, number>();
+
+// In-process bus fanning out persisted events to open streams
+const bus = new EventEmitter();
+bus.setMaxListeners(0);
+
+// ============================================
+// Publishing
+// ============================================
+
+function toFeedEvent(row: {
+  id: number;
+  hotelId: number;
+  orderId: number;
+  guestId: number;
+  type: string;
+  status: OrderStatus;
+  data: string;
+  createdAt: Date;
+}): OrderFeedEvent {
+  return {
+    ...row,
+    type: row.type as OrderEventType,
+    data: JSON.parse(row.data) as Record<string, unknown>,
+  };
+}
+
+/**
+ * Persists an order event and pushes it to connected subscribers
+ * Never throws: a failed publish must not fail the order operation itself
+ */
+export async function publishOrderEvent(input: OrderEventInput): Promise<void> {
+  try {
+    const row = await prisma.orderEvent.create({
+      data: {
+        hotelId: input.hotelId,
+        orderId: input.orderId,
+        guestId: input.guestId,
+        type: input.type,
+        status: input.status,
+        data: JSON.stringify(input.data ?? {}),
+      },
+    });
+
+    bus.emit("order-event", toFeedEvent(row));
+
+    await pruneOrderEvents(input.hotelId);
+  } catch (error) {
+    console.error("Error publishing order event:", error);
+  }
+}
+
+/**
+ * Deletes a hotel's events past the replay window, at most once per
+ * interval so publishing stays cheap
+ */
+async function pruneOrderEvents(hotelId: number): Promise<void> {
+  const now = Date.now();
+  if (now - (lastPrunedAt.get(hotelId) ?? 0) < PRUNE_INTERVAL_MS) return;
+  lastPrunedAt.set(hotelId, now);
+
+  await prisma.orderEvent.deleteMany({
+    where: { hotelId, createdAt: { lt: new Date(now - EVENT_RETENTION_MS) } },
+  });
+}
+
+// ============================================
+// Subscribing
+// ============================================
+
+function matchesScope(event: OrderFeedEvent, scope: OrderFeedScope): boolean {
+  return "hotelId" in scope
+    ? event.hotelId === scope.hotelId
+    : event.guestId === scope.guestId;
+}
+
+/**
+ * Subscribes to live order events within a scope
+ * Returns an unsubscribe function
+ */
+export function subscribeToOrderEvents(
+  scope: OrderFeedScope,
+  listener: (event: OrderFeedEvent) => void
+): () => void {
+  const handler = (event: OrderFeedEvent) => {
+    if (matchesScope(event, scope)) {
+      listener(event);
+    }
+  };
+
+  bus.on("order-event", handler);
+  return () => {
+    bus.off("order-event", handler);
+  };
+}
+
+/**
+ * Gets the events within a scope published after the given event id
+ * Used to replay what a reconnecting client missed
+ */
+export async function getOrderEventsSince(
+  scope: OrderFeedScope,
+  lastEventId: number
+): Promise<OrderFeedEvent[]> {
+  try {
+    const rows = await prisma.orderEvent.findMany({
+      where: { ...scope, id: { gt: lastEventId } },
+      orderBy: { id: "asc" },
+    });
+
+    return rows.map(toFeedEvent);
+  } catch (error) {
+    console.error("Error getting missed order events:", error);
+    return [];
+  }
+}
@@ -0,0 +1,165 @@
+import { prisma } from "../../lib/prisma.js";
+import { getLocalTime } from "./schedule.helper.js";
+import { formatOrder } from "./tax.helper.js";
+import type { TenantResult } from "./tenant.helper.js";
+
+// ============================================
+// Types & Interfaces
+// ============================================
+
+export interface GuestProfileUpdate {
+  notes?: string | null;
+  allergies?: string | null;
+}
+
+export interface GuestSearch {
+  query?: string; // Matches name or email
+  limit?: number;
+}
+
+const MAX_SEARCH_RESULTS = 50;
+
+// Everything staff may see about a guest's global identity
+const GUEST_IDENTITY = {
+  id: true,
+  name: true,
+  email: true,
+  emailVerifiedAt: true,
+} as const;
+
+// ============================================
+// Visits
+// ============================================
+
+/**
+ * Records an order as a visit on the guest's profile at a hotel, creating
+ * the profile on the guest's first order there
+ * Several orders on the same hotel-local day count as one visit
+ */
+export async function recordGuestVisit(
+  tx: Pick<typeof prisma, "guestProfile">,
+  guestId: number,
+  hotel: { id: number; timezone: string },
+  at: Date = new Date()
+): Promise<void> {
+  const profile = await tx.guestProfile.findUnique({
+    where: { guestId_hotelId: { guestId, hotelId: hotel.id } },
+    select: { lastVisitAt: true },
+  });
+
+  const today = getLocalTime(at, hotel.timezone).date;
+  const isNewVisit =
+    !profile?.lastVisitAt || getLocalTime(profile.lastVisitAt, hotel.timezone).date !== today;
+
+  await tx.guestProfile.upsert({
+    where: { guestId_hotelId: { guestId, hotelId: hotel.id } },
+    create: { guestId, hotelId: hotel.id, visitCount: 1, lastVisitAt: at },
+    update: {
+      lastVisitAt: at,
+      ...(isNewVisit && { visitCount: { increment: 1 } }),
+    },
+  });
+}
+
+// ============================================
+// Guest Profiles
+// ============================================
+
+/**
+ * Searches the guests who have a profile at a hotel, most recent visit first
+ */
+export async function searchGuestProfiles(hotelId: number, search: GuestSearch = {}) {
+  try {
+    const query = search.query?.trim();
+
+    return await prisma.guestProfile.findMany({
+      where: {
+        hotelId,
+        ...(query && {
+          guest: {
+            OR: [{ name: { contains: query } }, { email: { contains: query } }],
+          },
+        }),
+      },
+      include: { guest: { select: GUEST_IDENTITY } },
+      orderBy: [{ lastVisitAt: "desc" }, { id: "desc" }],
+      take: Math.min(search.limit ?? MAX_SEARCH_RESULTS, MAX_SEARCH_RESULTS),
+    });
+  } catch (error) {
+    console.error("Error searching guest profiles:", error);
+    return [];
+  }
+}
+
+/**
+ * Gets a guest's profile and order history at one hotel
+ * Orders the guest placed at other hotels are never included
+ * Returns null if the guest has no profile at the hotel
+ */
+export async function getGuestProfile(hotelId: number, guestId: number) {
+  try {
+    const profile = await prisma.guestProfile.findUnique({
+      where: { guestId_hotelId: { guestId, hotelId } },
+      include: { guest: { select: GUEST_IDENTITY } },
+    });
+
+    if (!profile) {
+      return null;
+    }
+
+    const orders = await prisma.order.findMany({
+      where: { guestId, hotelId },
+      include: {
+        table: { select: { id: true, label: true, zone: true } },
+        orderItems: { include: { menuItem: { select: { name: true } }, options: true } },
+        taxes: true,
+        discounts: true,
+      },
+      orderBy: { createdAt: "desc" },
+    });
+
+    return { ...profile, orders: orders.map((order) => formatOrder(order)) };
+  } catch (error) {
+    console.error("Error getting guest profile:", error);
+    return null;
+  }
+}
+
+/**
+ * Updates the hotel's notes and allergies for a guest
+ */
+export async function updateGuestProfile(
+  hotelId: number,
+  guestId: number,
+  input: GuestProfileUpdate
+): Promise<TenantResult<{ id: number }>> {
+  try {
+    const updated = await prisma.guestProfile.updateMany({
+      where: { guestId, hotelId },
+      data: {
+        ...(input.notes !== undefined && { notes: input.notes }),
+        ...(input.allergies !== undefined && { allergies: input.allergies }),
+      },
+    });
+
+    if (updated.count === 0) {
+      return {
+        success: false,
+        code: "NOT_FOUND",
+        message: "Guest not found",
+      };
+    }
+
+    return {
+      success: true,
+      data: { id: guestId },
+      message: "Guest profile updated successfully",
+    };
+  } catch (error) {
+    console.error("Error updating guest profile:", error);
+    return {
+      success: false,
+      message: "Failed to update guest profile",
+    };
+  }
+}
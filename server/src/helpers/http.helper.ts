@@ -0,0 +1,43 @@
+import type { OrderErrorCode } from "./order.helper.js";
+import type { PaymentErrorCode } from "./payment.helper.js";
+import type { ProvisioningErrorCode } from "./provisioning.helper.js";
+import type { StaffErrorCode } from "./staff.helper.js";
+import type { TenantErrorCode } from "./tenant.helper.js";
+
+// ============================================
+// Types & Interfaces
+// ============================================
+
+/**
+ * Any error code a helper returns with a failed result
+ */
+export type HelperErrorCode =
+  | TenantErrorCode
+  | OrderErrorCode
+  | PaymentErrorCode
+  | ProvisioningErrorCode
+  | StaffErrorCode;
+
+// ============================================
+// Status Codes
+// ============================================
+
+/**
+ * Maps a helper error code to an HTTP status; results without a code
+ * failed unexpectedly
+ */
+export function statusForCode(code: HelperErrorCode | undefined): number {
+  switch (code) {
+    case "NOT_FOUND":
+      return 404;
+    case "INVALID":
+      return 400;
+    case "UNAUTHORIZED":
+      return 401;
+    case "CONFLICT":
+    case "INVALID_TRANSITION":
+      return 409;
+    default:
+      return 500;
+  }
+}
@@ -0,0 +1,408 @@
+import { prisma } from "../../lib/prisma.js";
+import type { StockReason } from "../../generated/prisma/client.js";
+import { sendNotification } from "./notification.helper.js";
+import { hasPermission } from "./permission.helper.js";
+import type { TenantResult } from "./tenant.helper.js";
+
+// ============================================
+// Types & Interfaces
+// ============================================
+
+export interface StockMovementInput {
+  hotelId: number;
+  menuItemId: number;
+  delta: number;
+  reason: StockReason;
+  orderId?: number | null;
+  refundId?: number | null;
+  adminId?: number | null;
+  note?: string | null;
+}
+
+/**
+ * Raised when a movement takes an item's stock to or below its threshold
+ */
+export interface LowStockAlert {
+  hotelId: number;
+  menuItemId: number;
+  name: string;
+  stock: number;
+  threshold: number;
+}
+
+export interface DeliveryLine {
+  menuItemId: number;
+  quantity: number;
+}
+
+export interface StockDiscrepancy {
+  menuItemId: number;
+  name: string;
+  stock: number;
+  ledgerStock: number;
+}
+
+type StockTx = Pick<typeof prisma, "menuItem" | "stockMovement">;
+
+const MAX_MOVEMENTS = 200;
+
+/**
+ * Thrown inside a stock transaction to roll it back with a client error
+ */
+class StockRejectedError extends Error {
+  constructor(
+    readonly code: "NOT_FOUND" | "INVALID" | "CONFLICT",
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+// ============================================
+// Ledger
+// ============================================
+
+/**
+ * Checks whether a stock change just applied to a menu item crossed its
+ * low-stock threshold; only the crossing movement raises an alert, not
+ * every one below the threshold
+ */
+export async function checkLowStock(
+  tx: Pick<typeof prisma, "menuItem">,
+  movement: Pick<StockMovementInput, "hotelId" | "menuItemId" | "delta">
+): Promise<LowStockAlert | null> {
+  const item = await tx.menuItem.findUniqueOrThrow({
+    where: { id: movement.menuItemId },
+    select: { name: true, stock: true, lowStockThreshold: true },
+  });
+
+  if (item.lowStockThreshold === null) {
+    return null;
+  }
+
+  const before = item.stock - movement.delta;
+  if (before <= item.lowStockThreshold || item.stock > item.lowStockThreshold) {
+    return null;
+  }
+
+  return {
+    hotelId: movement.hotelId,
+    menuItemId: movement.menuItemId,
+    name: item.name,
+    stock: item.stock,
+    threshold: item.lowStockThreshold,
+  };
+}
+
+/**
+ * Appends a movement to the stock ledger
+ * The caller applies the same delta to MenuItem.stock in the same
+ * transaction, before calling this, so the ledger and stock reconcile
+ * Returns an alert if the movement crossed the item's low-stock threshold
+ */
+export async function recordStockMovement(
+  tx: StockTx,
+  movement: StockMovementInput
+): Promise<LowStockAlert | null> {
+  await tx.stockMovement.create({
+    data: {
+      hotelId: movement.hotelId,
+      menuItemId: movement.menuItemId,
+      delta: movement.delta,
+      reason: movement.reason,
+      orderId: movement.orderId ?? null,
+      refundId: movement.refundId ?? null,
+      adminId: movement.adminId ?? null,
+      note: movement.note ?? null,
+    },
+  });
+
+  return checkLowStock(tx, movement);
+}
+
+/**
+ * Applies a stock change to a menu item and records it in the ledger
+ * Refuses to take stock below zero
+ */
+async function applyStockMovement(
+  tx: StockTx,
+  movement: StockMovementInput
+): Promise<LowStockAlert | null> {
+  const updated = await tx.menuItem.updateMany({
+    where: {
+      id: movement.menuItemId,
+      hotelId: movement.hotelId,
+      ...(movement.delta < 0 && { stock: { gte: -movement.delta } }),
+    },
+    data: { stock: { increment: movement.delta } },
+  });
+
+  if (updated.count === 0) {
+    throw new StockRejectedError("CONFLICT", `Not enough stock on menu item ${movement.menuItemId}`);
+  }
+
+  return recordStockMovement(tx, movement);
+}
+
+/**
+ * Sets a menu item's stock to a counted level, recording the difference
+ * as an adjustment
+ * Used when stock is edited directly on the menu item
+ */
+export async function setStockLevel(
+  tx: StockTx,
+  movement: Omit<StockMovementInput, "delta" | "reason">,
+  stock: number
+): Promise<LowStockAlert | null> {
+  const item = await tx.menuItem.findUniqueOrThrow({
+    where: { id: movement.menuItemId },
+    select: { stock: true },
+  });
+
+  if (item.stock === stock) {
+    return null;
+  }
+
+  await tx.menuItem.update({
+    where: { id: movement.menuItemId },
+    data: { stock },
+  });
+
+  return recordStockMovement(tx, { ...movement, delta: stock - item.stock, reason: "ADJUSTMENT" });
+}
+
+// ============================================
+// Low-Stock Alerts
+// ============================================
+
+/**
+ * Emails low-stock alerts to the hotel's admins who manage inventory
+ * Call after the transaction that raised the alerts has committed
+ */
+export async function notifyLowStock(alerts: (LowStockAlert | null)[]): Promise<void> {
+  const raised = alerts.filter((alert): alert is LowStockAlert => alert !== null);
+  if (raised.length === 0) {
+    return;
+  }
+
+  try {
+    for (const hotelId of new Set(raised.map((alert) => alert.hotelId))) {
+      const admins = await prisma.admin.findMany({
+        where: { hotelId },
+        select: { email: true, role: true },
+      });
+      const lines = raised
+        .filter((alert) => alert.hotelId === hotelId)
+        .map((alert) => `- ${alert.name}: ${alert.stock} left (alert at ${alert.threshold})`);
+
+      for (const admin of admins.filter((admin) => hasPermission(admin.role, "inventory:manage"))) {
+        await sendNotification("email", {
+          to: admin.email,
+          subject: "Low stock on your ZapMenu menu",
+          text: `These items are running low:\n${lines.join("\n")}`,
+        });
+      }
+    }
+  } catch (error) {
+    console.error("Error sending low-stock alerts:", error);
+  }
+}
+
+// ============================================
+// Adjustments & Deliveries
+// ============================================
+
+/**
+ * Manually adjusts a menu item's stock by a signed quantity, e.g. for
+ * waste or a stock count
+ */
+export async function adjustStock(
+  hotelId: number,
+  adminId: number,
+  input: { menuItemId: number; delta: number; note?: string | null }
+): Promise<TenantResult<{ stock: number }>> {
+  try {
+    const item = await prisma.menuItem.findFirst({
+      where: { id: input.menuItemId, hotelId },
+      select: { id: true },
+    });
+
+    if (!item) {
+      return {
+        success: false,
+        code: "NOT_FOUND",
+        message: "Menu item not found",
+      };
+    }
+
+    const { alert, stock } = await prisma.$transaction(async (tx) => {
+      const alert = await applyStockMovement(tx, {
+        hotelId,
+        menuItemId: input.menuItemId,
+        delta: input.delta,
+        reason: "ADJUSTMENT",
+        adminId,
+        note: input.note ?? null,
+      });
+      const { stock } = await tx.menuItem.findUniqueOrThrow({
+        where: { id: input.menuItemId },
+        select: { stock: true },
+      });
+      return { alert, stock };
+    });
+
+    await notifyLowStock([alert]);
+
+    return {
+      success: true,
+      data: { stock },
+      message: "Stock adjusted successfully",
+    };
+  } catch (error) {
+    if (error instanceof StockRejectedError) {
+      return {
+        success: false,
+        code: error.code,
+        message: "Adjustment would take stock below zero",
+      };
+    }
+
+    console.error("Error adjusting stock:", error);
+    return {
+      success: false,
+      message: "Failed to adjust stock",
+    };
+  }
+}
+
+/**
+ * Books a delivery restocking several menu items at once
+ * All lines are applied in one transaction; nothing is booked if any
+ * item doesn't belong to the hotel
+ */
+export async function receiveDelivery(
+  hotelId: number,
+  adminId: number,
+  lines: DeliveryLine[],
+  note: string | null = null
+): Promise<TenantResult<{ items: { menuItemId: number; stock: number }[] }>> {
+  try {
+    if (lines.length === 0) {
+      return {
+        success: false,
+        code: "INVALID",
+        message: "At least one delivery line is required",
+      };
+    }
+
+    const items = await prisma.$transaction(async (tx) => {
+      const known = await tx.menuItem.findMany({
+        where: { id: { in: lines.map((line) => line.menuItemId) }, hotelId },
+        select: { id: true },
+      });
+      const knownIds = new Set(known.map((item) => item.id));
+
+      const missing = lines.find((line) => !knownIds.has(line.menuItemId));
+      if (missing) {
+        throw new StockRejectedError("INVALID", `Menu item ${missing.menuItemId} not found in this hotel`);
+      }
+
+      for (const line of lines) {
+        await applyStockMovement(tx, {
+          hotelId,
+          menuItemId: line.menuItemId,
+          delta: line.quantity,
+          reason: "DELIVERY",
+          adminId,
+          note,
+        });
+      }
+
+      return tx.menuItem.findMany({
+        where: { id: { in: [...knownIds] } },
+        select: { id: true, stock: true },
+        orderBy: { id: "asc" },
+      });
+    });
+
+    return {
+      success: true,
+      data: { items: items.map((item) => ({ menuItemId: item.id, stock: item.stock })) },
+      message: "Delivery booked successfully",
+    };
+  } catch (error) {
+    if (error instanceof StockRejectedError) {
+      return {
+        success: false,
+        code: error.code,
+        message: error.message,
+      };
+    }
+
+    console.error("Error booking delivery:", error);
+    return {
+      success: false,
+      message: "Failed to book delivery",
+    };
+  }
+}
+
+// ============================================
+// Reporting
+// ============================================
+
+/**
+ * Lists a hotel's stock movements, newest first, optionally for one item
+ */
+export async function listStockMovements(
+  hotelId: number,
+  filter: { menuItemId?: number; limit?: number } = {}
+) {
+  try {
+    return await prisma.stockMovement.findMany({
+      where: {
+        hotelId,
+        ...(filter.menuItemId !== undefined && { menuItemId: filter.menuItemId }),
+      },
+      include: {
+        menuItem: { select: { name: true } },
+        admin: { select: { id: true, name: true } },
+      },
+      orderBy: { id: "desc" },
+      take: Math.min(filter.limit ?? MAX_MOVEMENTS, MAX_MOVEMENTS),
+    });
+  } catch (error) {
+    console.error("Error listing stock movements:", error);
+    return [];
+  }
+}
+
+/**
+ * Compares each menu item's stock with the sum of its ledger movements
+ * Returns the items that disagree; an empty list means the two reconcile
+ */
+export async function reconcileStock(hotelId: number): Promise<StockDiscrepancy[]> {
+  const [items, totals] = await Promise.all([
+    prisma.menuItem.findMany({
+      where: { hotelId },
+      select: { id: true, name: true, stock: true },
+      orderBy: { id: "asc" },
+    }),
+    prisma.stockMovement.groupBy({
+      by: ["menuItemId"],
+      where: { hotelId },
+      _sum: { delta: true },
+    }),
+  ]);
+
+  const ledger = new Map(totals.map((total) => [total.menuItemId, total._sum.delta ?? 0]));
+
+  return items
+    .map((item) => ({
+      menuItemId: item.id,
+      name: item.name,
+      stock: item.stock,
+      ledgerStock: ledger.get(item.id) ?? 0,
+    }))
+    .filter((item) => item.stock !== item.ledgerStock);
+}
@@ -3,7 +3,8 @@ import type { AdminAuthPayload, GuestAuthPayload, AuthPayload } from "./auth.hel
 
 // Get JWT secret from environment variable
 const JWT_SECRET = process.env.JWT_SECRET || "your-secret-key-change-in-production";
-const JWT_EXPIRES_IN = process.env.JWT_EXPIRES_IN || "7d"; // Default 7 days
+// Access tokens are short-lived; sessions are extended with refresh tokens
+const JWT_EXPIRES_IN = process.env.JWT_EXPIRES_IN || "15m"; // Default 15 minutes
 
 /**
  * Generates a JWT token for an admin
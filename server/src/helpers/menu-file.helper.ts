@@ -0,0 +1,737 @@
+import { prisma } from "../../lib/prisma.js";
+import {
+  recordStockMovement,
+  setStockLevel,
+  notifyLowStock,
+  type LowStockAlert,
+} from "./inventory.helper.js";
+import { formatMoney, parseMoney, toMoney } from "./money.helper.js";
+import type { TenantResult } from "./tenant.helper.js";
+
+// ============================================
+// Types & Interfaces
+// ============================================
+
+export type MenuFileFormat = "csv" | "json";
+
+export interface MenuFileCategory {
+  key: string;
+  name: string;
+}
+
+export interface MenuFileItem {
+  key: string;
+  category: string; // Key of the item's category
+  name: string;
+  description: string | null;
+  price: string;
+  stock?: number; // Left unchanged on update when absent
+}
+
+/**
+ * A hotel's menu as exchanged in CSV or JSON files
+ * Rows are matched to existing categories and items on their keys
+ */
+export interface MenuFile {
+  currency?: string; // Code of every price; CSV files are read in the hotel's currency
+  categories: MenuFileCategory[];
+  items: MenuFileItem[];
+}
+
+/**
+ * A validation problem; row is "line N" for CSV and e.g. "items[2]" for JSON
+ */
+export interface MenuImportIssue {
+  row: string;
+  message: string;
+}
+
+interface PlannedChanges {
+  create: string[];
+  update: string[];
+  delete: string[];
+}
+
+/**
+ * Keys of the categories and items an import creates, updates and deletes
+ */
+export interface MenuImportPlan {
+  categories: PlannedChanges;
+  items: PlannedChanges;
+}
+
+export interface MenuImportReport {
+  dryRun: boolean;
+  applied: boolean;
+  errors: MenuImportIssue[];
+  plan: MenuImportPlan;
+}
+
+export interface MenuImportOptions {
+  dryRun?: boolean;
+  prune?: boolean; // Delete categories and items missing from the file
+  adminId?: number | null;
+}
+
+type Row<T> = T & { row: string };
+
+const CSV_COLUMNS = [
+  "category_key",
+  "category_name",
+  "item_key",
+  "item_name",
+  "description",
+  "price",
+  "stock",
+] as const;
+
+const KEY_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._-]{0,63}$/;
+
+// ============================================
+// CSV
+// ============================================
+
+/**
+ * Splits CSV text into records, following RFC 4180 quoting
+ * Each record carries the line it starts on
+ */
+function parseCsv(text: string): { line: number; cells: string[] }[] | string {
+  const records: { line: number; cells: string[] }[] = [];
+  let cells: string[] = [];
+  let cell = "";
+  let quoted = false;
+  let line = 1;
+  let recordLine = 1;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]!;
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === "\n") line++;
+        cell += char;
+      }
+      continue;
+    }
+
+    if (char === '"' && cell === "") {
+      quoted = true;
+    } else if (char === ",") {
+      cells.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      cells.push(cell);
+      if (cells.some((value) => value !== "")) {
+        records.push({ line: recordLine, cells });
+      }
+      cells = [];
+      cell = "";
+      line++;
+      recordLine = line;
+    } else {
+      cell += char;
+    }
+  }
+
+  if (quoted) {
+    return `Unterminated quoted field starting on line ${recordLine}`;
+  }
+
+  cells.push(cell);
+  if (cells.some((value) => value !== "")) {
+    records.push({ line: recordLine, cells });
+  }
+
+  return records;
+}
+
+function csvCell(value: string): string {
+  return /[",\r\n]|^\s|\s$/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Writes a menu as CSV, one row per item; empty categories get a row of
+ * their own with the item columns left blank
+ */
+function formatCsv(menu: MenuFile): string {
+  const rows: string[][] = [[...CSV_COLUMNS]];
+
+  for (const category of menu.categories) {
+    const items = menu.items.filter((item) => item.category === category.key);
+
+    if (items.length === 0) {
+      rows.push([category.key, category.name, "", "", "", "", ""]);
+    }
+
+    for (const item of items) {
+      rows.push([
+        category.key,
+        category.name,
+        item.key,
+        item.name,
+        item.description ?? "",
+        item.price,
+        item.stock !== undefined ? String(item.stock) : "",
+      ]);
+    }
+  }
+
+  return rows.map((row) => row.map(csvCell).join(",")).join("\n") + "\n";
+}
+
+// ============================================
+// Parsing & Validation
+// ============================================
+
+function isValidPrice(value: unknown, currency: string): value is string | number {
+  const price = parseMoney(value, currency);
+  return price !== null && price.minor >= 0n;
+}
+
+/**
+ * Checks a key and, if it's new, records it in the set of seen keys
+ * Returns an error message, or null if the key is valid
+ */
+function checkKey(key: unknown, seen: Set<string>, kind: string): string | null {
+  if (typeof key !== "string" || !KEY_PATTERN.test(key)) {
+    return `${kind} key must be 1-64 letters, digits, dots, dashes or underscores`;
+  }
+  if (seen.has(key)) {
+    return `Duplicate ${kind.toLowerCase()} key "${key}"`;
+  }
+  seen.add(key);
+  return null;
+}
+
+/**
+ * Validates an item's fields, shared by the CSV and JSON readers
+ */
+function checkItem(
+  item: { name: unknown; description: unknown; price: unknown; stock: unknown },
+  row: string,
+  currency: string,
+  issues: MenuImportIssue[]
+): boolean {
+  const before = issues.length;
+
+  if (typeof item.name !== "string" || !item.name.trim()) {
+    issues.push({ row, message: "Item name is required" });
+  }
+  if (item.description != null && typeof item.description !== "string") {
+    issues.push({ row, message: "Description must be text" });
+  }
+  if (!isValidPrice(item.price, currency)) {
+    issues.push({ row, message: `Price must be a non-negative ${currency} amount` });
+  }
+  if (item.stock != null && !(Number.isInteger(item.stock) && (item.stock as number) >= 0)) {
+    issues.push({ row, message: "Stock must be a non-negative integer" });
+  }
+
+  return issues.length === before;
+}
+
+function readCsv(text: string, currency: string, issues: MenuImportIssue[]) {
+  const categories: Row<MenuFileCategory>[] = [];
+  const items: Row<MenuFileItem>[] = [];
+
+  const records = parseCsv(text);
+  if (typeof records === "string") {
+    issues.push({ row: "file", message: records });
+    return { categories, items };
+  }
+
+  const [header, ...rows] = records;
+  const columns = header?.cells.map((cell) => cell.trim().toLowerCase()) ?? [];
+  const missing = CSV_COLUMNS.filter((column) => !columns.includes(column));
+  if (missing.length > 0) {
+    issues.push({ row: "line 1", message: `Missing column(s): ${missing.join(", ")}` });
+    return { categories, items };
+  }
+
+  const categoryKeys = new Set<string>();
+  const itemKeys = new Set<string>();
+
+  for (const record of rows) {
+    const row = `line ${record.line}`;
+    const value = (column: (typeof CSV_COLUMNS)[number]) =>
+      (record.cells[columns.indexOf(column)] ?? "").trim();
+
+    const categoryKey = value("category_key");
+    const categoryName = value("category_name");
+    const known = categories.find((category) => category.key === categoryKey);
+
+    let categoryError: string | null = null;
+    if (!known) {
+      categoryError = !categoryName
+        ? "Category name is required"
+        : checkKey(categoryKey, categoryKeys, "Category");
+      if (!categoryError) {
+        categories.push({ row, key: categoryKey, name: categoryName });
+      }
+    } else if (known.name !== categoryName) {
+      categoryError = `Category "${categoryKey}" is named differently on ${known.row}`;
+    }
+
+    if (categoryError) {
+      issues.push({ row, message: categoryError });
+      continue;
+    }
+
+    // A row without item columns only declares its category
+    if (!value("item_key") && !value("item_name") && !value("price")) {
+      continue;
+    }
+
+    const stock = value("stock");
+    const item = {
+      name: value("item_name"),
+      description: value("description") || null,
+      price: value("price"),
+      stock: stock === "" ? null : /^\d+$/.test(stock) ? parseInt(stock, 10) : stock,
+    };
+
+    const keyError = checkKey(value("item_key"), itemKeys, "Item");
+    if (keyError) {
+      issues.push({ row, message: keyError });
+      continue;
+    }
+    if (checkItem(item, row, currency, issues)) {
+      items.push({
+        row,
+        key: value("item_key"),
+        category: categoryKey,
+        name: item.name,
+        description: item.description,
+        price: item.price,
+        ...(typeof item.stock === "number" && { stock: item.stock }),
+      });
+    }
+  }
+
+  return { categories, items };
+}
+
+function readJson(data: unknown, currency: string, issues: MenuImportIssue[]) {
+  const categories: Row<MenuFileCategory>[] = [];
+  const items: Row<MenuFileItem>[] = [];
+
+  if (typeof data === "string") {
+    try {
+      data = JSON.parse(data);
+    } catch {
+      issues.push({ row: "file", message: "File is not valid JSON" });
+      return { categories, items };
+    }
+  }
+
+  const menu = data as { currency?: unknown; categories?: unknown; items?: unknown } | null;
+  if (!menu || !Array.isArray(menu.categories) || !Array.isArray(menu.items)) {
+    issues.push({ row: "file", message: "Expected an object with categories and items arrays" });
+    return { categories, items };
+  }
+  if (menu.currency !== undefined && menu.currency !== currency) {
+    issues.push({
+      row: "file",
+      message: `Prices are in ${String(menu.currency)} but the hotel uses ${currency}`,
+    });
+    return { categories, items };
+  }
+
+  const categoryKeys = new Set<string>();
+  menu.categories.forEach((entry: Record<string, unknown> | null, index) => {
+    const row = `categories[${index}]`;
+    const keyError = checkKey(entry?.key, categoryKeys, "Category");
+
+    if (keyError) {
+      issues.push({ row, message: keyError });
+    } else if (typeof entry!.name !== "string" || !entry!.name.trim()) {
+      issues.push({ row, message: "Category name is required" });
+    } else {
+      categories.push({ row, key: entry!.key as string, name: entry!.name.trim() });
+    }
+  });
+
+  const itemKeys = new Set<string>();
+  menu.items.forEach((entry: Record<string, unknown> | null, index) => {
+    const row = `items[${index}]`;
+    const keyError = checkKey(entry?.key, itemKeys, "Item");
+
+    if (keyError) {
+      issues.push({ row, message: keyError });
+      return;
+    }
+    if (typeof entry!.category !== "string") {
+      issues.push({ row, message: "Category key is required" });
+      return;
+    }
+
+    const item = {
+      name: entry!.name,
+      description: entry!.description ?? null,
+      price: entry!.price,
+      stock: entry!.stock ?? null,
+    };
+    if (checkItem(item, row, currency, issues)) {
+      items.push({
+        row,
+        key: entry!.key as string,
+        category: entry!.category,
+        name: (item.name as string).trim(),
+        description: (item.description as string | null)?.trim() || null,
+        price: String(item.price).trim(),
+        ...(item.stock !== null && { stock: item.stock as number }),
+      });
+    }
+  });
+
+  return { categories, items };
+}
+
+// ============================================
+// Import
+// ============================================
+
+/**
+ * Imports a menu from a CSV or JSON file, matching categories and items on
+ * their keys; rows without a key yet are matched on name the first time
+ * Nothing is written if any row is invalid, or on a dry run; either way the
+ * report lists the validation errors and the planned changes
+ */
+export async function importMenu(
+  hotelId: number,
+  format: MenuFileFormat,
+  data: unknown,
+  options: MenuImportOptions = {}
+): Promise<TenantResult<MenuImportReport>> {
+  try {
+    const hotel = await prisma.hotel.findUnique({
+      where: { id: hotelId },
+      select: { id: true, currency: true },
+    });
+
+    if (!hotel) {
+      return {
+        success: false,
+        code: "NOT_FOUND",
+        message: "Hotel not found",
+      };
+    }
+
+    const errors: MenuImportIssue[] = [];
+    const file =
+      format === "csv"
+        ? readCsv(String(data), hotel.currency, errors)
+        : readJson(data, hotel.currency, errors);
+    const categoryKeys = new Set(file.categories.map((category) => category.key));
+
+    for (const item of file.items) {
+      if (!categoryKeys.has(item.category)) {
+        errors.push({ row: item.row, message: `Unknown category "${item.category}"` });
+      }
+    }
+
+    const [categories, items] = await Promise.all([
+      prisma.menuCategory.findMany({
+        where: { hotelId },
+        select: { id: true, name: true, externalKey: true },
+        orderBy: { id: "asc" },
+      }),
+      prisma.menuItem.findMany({
+        where: { hotelId },
+        select: {
+          id: true,
+          name: true,
+          description: true,
+          price: true,
+          stock: true,
+          categoryId: true,
+          externalKey: true,
+          _count: { select: { orderItems: true } },
+        },
+        orderBy: { id: "asc" },
+      }),
+    ]);
+
+    // Pair each file row with the existing row it replaces, if any
+    const matchedCategories = new Map<string, (typeof categories)[number]>();
+    for (const category of file.categories) {
+      const match =
+        categories.find((existing) => existing.externalKey === category.key) ??
+        categories.find(
+          (existing) =>
+            existing.externalKey === null &&
+            existing.name === category.name &&
+            ![...matchedCategories.values()].includes(existing)
+        );
+      if (match) matchedCategories.set(category.key, match);
+    }
+
+    const matchedItems = new Map<string, (typeof items)[number]>();
+    for (const item of file.items) {
+      const match =
+        items.find((existing) => existing.externalKey === item.key) ??
+        items.find(
+          (existing) =>
+            existing.externalKey === null &&
+            existing.name === item.name &&
+            ![...matchedItems.values()].includes(existing)
+        );
+      if (match) matchedItems.set(item.key, match);
+    }
+
+    const plan: MenuImportPlan = {
+      categories: { create: [], update: [], delete: [] },
+      items: { create: [], update: [], delete: [] },
+    };
+
+    for (const category of file.categories) {
+      const existing = matchedCategories.get(category.key);
+      if (!existing) {
+        plan.categories.create.push(category.key);
+      } else if (existing.externalKey !== category.key || existing.name !== category.name) {
+        plan.categories.update.push(category.key);
+      }
+    }
+
+    for (const item of file.items) {
+      const existing = matchedItems.get(item.key);
+      if (!existing) {
+        plan.items.create.push(item.key);
+      } else if (
+        existing.externalKey !== item.key ||
+        existing.name !== item.name ||
+        existing.description !== item.description ||
+        !existing.price.equals(item.price) ||
+        existing.categoryId !== matchedCategories.get(item.category)?.id ||
+        (item.stock !== undefined && existing.stock !== item.stock)
+      ) {
+        plan.items.update.push(item.key);
+      }
+    }
+
+    const keptCategories = new Set(matchedCategories.values());
+    const keptItems = new Set(matchedItems.values());
+    const removedCategories = options.prune
+      ? categories.filter((category) => !keptCategories.has(category))
+      : [];
+    const removedItems = options.prune ? items.filter((item) => !keptItems.has(item)) : [];
+
+    for (const category of removedCategories) {
+      plan.categories.delete.push(category.externalKey ?? category.name);
+    }
+    for (const item of removedItems) {
+      plan.items.delete.push(item.externalKey ?? item.name);
+      if (item._count.orderItems > 0) {
+        errors.push({
+          row: `menu item "${item.name}"`,
+          message: "Item is referenced by orders and cannot be deleted; keep it in the file",
+        });
+      }
+    }
+
+    const report = { dryRun: !!options.dryRun, applied: false, errors, plan };
+
+    if (errors.length > 0) {
+      return {
+        success: false,
+        code: "INVALID",
+        data: report,
+        message: `Menu file has ${errors.length} error(s); nothing was imported`,
+      };
+    }
+
+    if (options.dryRun) {
+      return {
+        success: true,
+        data: report,
+        message: "Dry run complete; nothing was imported",
+      };
+    }
+
+    const adminId = options.adminId ?? null;
+    const alerts = await prisma.$transaction(async (tx) => {
+      const alerts: (LowStockAlert | null)[] = [];
+      const categoryIds = new Map<string, number>();
+
+      for (const category of file.categories) {
+        const existing = matchedCategories.get(category.key);
+        const saved = existing
+          ? await tx.menuCategory.update({
+              where: { id: existing.id },
+              data: { name: category.name, externalKey: category.key },
+            })
+          : await tx.menuCategory.create({
+              data: { hotelId, name: category.name, externalKey: category.key },
+            });
+        categoryIds.set(category.key, saved.id);
+      }
+
+      for (const item of file.items) {
+        const existing = matchedItems.get(item.key);
+        const fields = {
+          name: item.name,
+          description: item.description,
+          price: item.price,
+          categoryId: categoryIds.get(item.category)!,
+          externalKey: item.key,
+        };
+
+        if (existing) {
+          await tx.menuItem.update({ where: { id: existing.id }, data: fields });
+          if (item.stock !== undefined) {
+            alerts.push(
+              await setStockLevel(
+                tx,
+                { hotelId, menuItemId: existing.id, adminId, note: "Menu import" },
+                item.stock
+              )
+            );
+          }
+          continue;
+        }
+
+        const created = await tx.menuItem.create({
+          data: { ...fields, hotelId, stock: item.stock ?? 0 },
+        });
+        if (created.stock !== 0) {
+          await recordStockMovement(tx, {
+            hotelId,
+            menuItemId: created.id,
+            delta: created.stock,
+            reason: "ADJUSTMENT",
+            adminId,
+            note: "Opening stock",
+          });
+        }
+      }
+
+      await tx.menuItem.deleteMany({ where: { id: { in: removedItems.map((item) => item.id) } } });
+      await tx.menuCategory.deleteMany({
+        where: { id: { in: removedCategories.map((category) => category.id) } },
+      });
+
+      // Moves the public menu's Last-Modified forward
+      await tx.hotel.update({ where: { id: hotelId }, data: { updatedAt: new Date() } });
+
+      return alerts;
+    });
+
+    await notifyLowStock(alerts);
+
+    return {
+      success: true,
+      data: { ...report, applied: true },
+      message: "Menu imported successfully",
+    };
+  } catch (error) {
+    console.error("Error importing menu:", error);
+    return {
+      success: false,
+      message: "Failed to import menu",
+    };
+  }
+}
+
+// ============================================
+// Export
+// ============================================
+
+/**
+ * Derives a key from a name that isn't among the hotel's taken keys
+ */
+function uniqueKey(name: string, fallback: string, taken: Set<string>): string {
+  const base =
+    name
+      .normalize("NFKD")
+      .replace(/[\u0300-\u036f]/g, "")
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-+|-+$/g, "")
+      .slice(0, 56) || fallback;
+
+  let key = base;
+  for (let n = 2; taken.has(key); n++) {
+    key = `${base}-${n}`;
+  }
+  taken.add(key);
+  return key;
+}
+
+/**
+ * Exports a hotel's menu in the import format
+ * Categories and items without a key are given one derived from their
+ * name, and keep it, so a later import of the file updates them in place
+ */
+export async function exportMenu(hotelId: number): Promise<MenuFile | null> {
+  try {
+    return await prisma.$transaction(async (tx) => {
+      const hotel = await tx.hotel.findUnique({
+        where: { id: hotelId },
+        select: {
+          currency: true,
+          categories: { orderBy: { id: "asc" } },
+          menuItems: { orderBy: { id: "asc" } },
+        },
+      });
+
+      if (!hotel) {
+        return null;
+      }
+
+      const categoryKeys = new Set(hotel.categories.flatMap((category) => category.externalKey ?? []));
+      const itemKeys = new Set(hotel.menuItems.flatMap((item) => item.externalKey ?? []));
+
+      for (const category of hotel.categories.filter((category) => category.externalKey === null)) {
+        category.externalKey = uniqueKey(category.name, "category", categoryKeys);
+        await tx.menuCategory.update({
+          where: { id: category.id },
+          data: { externalKey: category.externalKey },
+        });
+      }
+
+      for (const item of hotel.menuItems.filter((item) => item.externalKey === null)) {
+        item.externalKey = uniqueKey(item.name, "item", itemKeys);
+        await tx.menuItem.update({
+          where: { id: item.id },
+          data: { externalKey: item.externalKey },
+        });
+      }
+
+      const categoryKeyById = new Map(
+        hotel.categories.map((category) => [category.id, category.externalKey!])
+      );
+
+      return {
+        currency: hotel.currency,
+        categories: hotel.categories.map((category) => ({
+          key: category.externalKey!,
+          name: category.name,
+        })),
+        items: hotel.menuItems.map((item) => ({
+          key: item.externalKey!,
+          category: categoryKeyById.get(item.categoryId)!,
+          name: item.name,
+          description: item.description,
+          price: formatMoney(toMoney(item.price, hotel.currency)),
+          stock: item.stock,
+        })),
+      };
+    });
+  } catch (error) {
+    console.error("Error exporting menu:", error);
+    return null;
+  }
+}
+
+/**
+ * Serializes an exported menu as CSV or pretty-printed JSON
+ */
+export function formatMenuFile(menu: MenuFile, format: MenuFileFormat): string {
+  return format === "csv" ? formatCsv(menu) : JSON.stringify(menu, null, 2) + "\n";
+}
@@ -0,0 +1,226 @@
+import crypto from "node:crypto";
+import { prisma } from "../../lib/prisma.js";
+import { formatMoney, toMoney } from "./money.helper.js";
+import { isRecipeAvailable } from "./recipe.helper.js";
+import { getLocalTime, isItemOrderableNow, isWithinSchedules } from "./schedule.helper.js";
+import { formatRate } from "./tax.helper.js";
+import { matchLocale } from "./translation.helper.js";
+
+// ============================================
+// Types & Interfaces
+// ============================================
+
+export interface PublicModifierOption {
+  id: number;
+  name: string;
+  priceDelta: string;
+  available: boolean;
+}
+
+export interface PublicModifierGroup {
+  id: number;
+  name: string;
+  minSelect: number;
+  maxSelect: number;
+  options: PublicModifierOption[];
+}
+
+export interface PublicMenuItem {
+  id: number;
+  name: string;
+  description: string | null;
+  price: string;
+  available: boolean;
+  modifierGroups: PublicModifierGroup[];
+}
+
+export interface PublicMenuCategory {
+  id: number;
+  name: string;
+  available: boolean;
+  items: PublicMenuItem[];
+}
+
+export interface PublicMenu {
+  hotel: { id: number; name: string };
+  locale: string;
+  currency: string; // Code every price and price delta is in
+  taxInclusive: boolean; // Whether prices already include tax
+  serviceChargeRate: string; // Percent added to every order
+  categories: PublicMenuCategory[];
+}
+
+export interface PublicMenuResult {
+  menu: PublicMenu;
+  etag: string;
+  lastModified: Date | null; // null while availability depends on the clock
+}
+
+// ============================================
+// Public Menu
+// ============================================
+
+/**
+ * Loads a hotel's menu for unauthenticated guests in their preferred
+ * locale, with the ETag and Last-Modified used for caching
+ * Returns null if the hotel doesn't exist
+ */
+export async function getPublicMenu(
+  hotelId: number,
+  requestedLocales: string[] = []
+): Promise<PublicMenuResult | null> {
+  const hotel = await prisma.hotel.findUnique({
+    where: { id: hotelId },
+    include: {
+      categories: {
+        orderBy: { id: "asc" },
+        include: {
+          schedules: true,
+          translations: true,
+          menuItems: {
+            orderBy: { id: "asc" },
+            include: {
+              schedules: true,
+              translations: true,
+              recipe: { include: { ingredient: true } },
+              modifierGroups: {
+                orderBy: { id: "asc" },
+                include: {
+                  options: {
+                    orderBy: { id: "asc" },
+                    include: { recipe: { include: { ingredient: true } } },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+  });
+
+  if (!hotel) {
+    return null;
+  }
+
+  // The ETag fingerprints every row's id and updatedAt plus the computed
+  // availability flags, so edits, deletions and schedule windows opening
+  // all change it
+  const now = new Date();
+  const local = getLocalTime(now, hotel.timezone);
+  const hash = crypto.createHash("sha256");
+  let lastModified = hotel.updatedAt;
+  let timeDependent = false;
+
+  const track = (kind: string, row: { id: number; updatedAt: Date }) => {
+    hash.update(`${kind}:${row.id}:${row.updatedAt.getTime()};`);
+    if (row.updatedAt > lastModified) {
+      lastModified = row.updatedAt;
+    }
+  };
+
+  const flag = (kind: string, id: number, available: boolean) => {
+    hash.update(`${kind}-available:${id}:${available};`);
+    return available;
+  };
+
+  track("hotel", hotel);
+
+  // A hotel offers every locale it has translated anything into; guests get
+  // the first one they ask for, or the hotel's default
+  const locales = [
+    hotel.defaultLocale,
+    ...hotel.categories.flatMap((category) =>
+      [category, ...category.menuItems].flatMap((row) =>
+        row.translations.map((translation) => translation.locale)
+      )
+    ),
+  ];
+  const locale = matchLocale(requestedLocales, locales, hotel.defaultLocale);
+  hash.update(`locale:${locale};`);
+
+  // Each name and description falls back to the base text on its own
+  const translated = <T extends { locale: string; id: number; updatedAt: Date }>(
+    kind: string,
+    translations: T[]
+  ) => {
+    const translation = translations.find((translation) => translation.locale === locale);
+    if (translation) track(`${kind}-translation`, translation);
+    return translation;
+  };
+
+  const categories = hotel.categories.map((category) => {
+    track("category", category);
+    category.schedules.forEach((schedule) => track("schedule", schedule));
+    timeDependent ||= category.schedules.length > 0;
+    const categoryText = translated("category", category.translations);
+
+    return {
+      id: category.id,
+      name: categoryText?.name ?? category.name,
+      available: flag("category", category.id, isWithinSchedules(category.schedules, local)),
+      items: category.menuItems.map((item) => {
+        track("item", item);
+        item.schedules.forEach((schedule) => track("schedule", schedule));
+        item.recipe.forEach((line) => track("ingredient", line.ingredient));
+        timeDependent ||= item.schedules.length > 0 || item.unavailableUntil !== null;
+        const itemText = translated("item", item.translations);
+
+        return {
+          id: item.id,
+          name: itemText?.name ?? item.name,
+          description: itemText?.description ?? item.description,
+          price: formatMoney(toMoney(item.price, hotel.currency)),
+          // Stock counts are reduced to a flag, which also honours schedules
+          // in the hotel's time zone and 86'd items
+          available: flag(
+            "item",
+            item.id,
+            item.stock > 0 &&
+              isRecipeAvailable(item.recipe) &&
+              isItemOrderableNow(item, category.schedules, local, now)
+          ),
+          modifierGroups: item.modifierGroups.map((group) => {
+            track("group", group);
+
+            return {
+              id: group.id,
+              name: group.name,
+              minSelect: group.minSelect,
+              maxSelect: group.maxSelect,
+              options: group.options.map((option) => {
+                track("option", option);
+                option.recipe.forEach((line) => track("ingredient", line.ingredient));
+
+                return {
+                  id: option.id,
+                  name: option.name,
+                  priceDelta: formatMoney(toMoney(option.priceDelta, hotel.currency)),
+                  available: flag(
+                    "option",
+                    option.id,
+                    (option.stock === null || option.stock > 0) && isRecipeAvailable(option.recipe)
+                  ),
+                };
+              }),
+            };
+          }),
+        };
+      }),
+    };
+  });
+
+  return {
+    menu: {
+      hotel: { id: hotel.id, name: hotel.name },
+      locale,
+      currency: hotel.currency,
+      taxInclusive: hotel.taxInclusive,
+      serviceChargeRate: formatRate(hotel.serviceChargeRate),
+      categories,
+    },
+    etag: `"${hash.digest("base64url")}"`,
+    // Row timestamps can't say when a schedule window opened
+    lastModified: timeDependent ? null : lastModified,
+  };
+}
@@ -0,0 +1,162 @@
+import { Prisma } from "../../generated/prisma/client.js";
+
+// ============================================
+// Types & Interfaces
+// ============================================
+
+/**
+ * An amount in a currency's minor units (cents for USD, yen for JPY)
+ * All money arithmetic goes through these so rounding happens once, when
+ * a decimal is converted, and never while adding up
+ */
+export interface Money {
+  minor: bigint;
+  currency: string;
+}
+
+/**
+ * Thrown when amounts in different currencies are combined
+ */
+export class CurrencyMismatchError extends Error {
+  constructor(
+    readonly expected: string,
+    readonly received: string
+  ) {
+    super(`Cannot combine ${received} with ${expected}`);
+    this.name = "CurrencyMismatchError";
+  }
+}
+
+// ============================================
+// Currencies
+// ============================================
+
+const SUPPORTED_CURRENCIES = new Set(Intl.supportedValuesOf("currency"));
+
+/**
+ * Type guard for ISO 4217 currency codes, e.g. "USD"
+ */
+export function isCurrencyCode(value: unknown): value is string {
+  return typeof value === "string" && /^[A-Z]{3}$/.test(value) && SUPPORTED_CURRENCIES.has(value);
+}
+
+/**
+ * Number of decimal places in a currency's minor unit: 2 for USD, 0 for JPY
+ */
+export function currencyDigits(currency: string): number {
+  return (
+    new Intl.NumberFormat("en", { style: "currency", currency }).resolvedOptions()
+      .maximumFractionDigits ?? 2
+  );
+}
+
+// ============================================
+// Conversion
+// ============================================
+
+/**
+ * Converts a decimal amount to minor units, rounding half away from zero
+ * to the currency's precision
+ */
+export function toMoney(amount: Prisma.Decimal | number | string, currency: string): Money {
+  const minor = new Prisma.Decimal(amount)
+    .times(new Prisma.Decimal(10).pow(currencyDigits(currency)))
+    .toDecimalPlaces(0, Prisma.Decimal.ROUND_HALF_UP);
+
+  return { minor: BigInt(minor.toFixed(0)), currency };
+}
+
+/**
+ * Strictly parses a client-supplied amount ("12.50" or 12.5)
+ * Returns null unless it's a finite number with no more decimals than the
+ * currency allows
+ */
+export function parseMoney(amount: unknown, currency: string): Money | null {
+  if (typeof amount !== "number" && typeof amount !== "string") return null;
+
+  const text = String(amount).trim();
+  if (!/^-?\d+(\.\d+)?$/.test(text)) return null;
+
+  const value = new Prisma.Decimal(text);
+  if (value.decimalPlaces() > currencyDigits(currency)) return null;
+
+  return toMoney(value, currency);
+}
+
+/**
+ * Converts minor units back to a decimal for storage
+ */
+export function toDecimal(money: Money): Prisma.Decimal {
+  return new Prisma.Decimal(money.minor.toString()).dividedBy(
+    new Prisma.Decimal(10).pow(currencyDigits(money.currency))
+  );
+}
+
+/**
+ * Formats an amount as a plain decimal string with the currency's
+ * precision, e.g. "12.50" or "1200"; API responses pair it with the code
+ */
+export function formatMoney(money: Money): string {
+  return toDecimal(money).toFixed(currencyDigits(money.currency));
+}
+
+// ============================================
+// Arithmetic
+// ============================================
+
+function assertSameCurrency(a: Money, b: Money) {
+  if (a.currency !== b.currency) {
+    throw new CurrencyMismatchError(a.currency, b.currency);
+  }
+}
+
+export function zeroMoney(currency: string): Money {
+  return { minor: 0n, currency };
+}
+
+export function addMoney(a: Money, b: Money): Money {
+  assertSameCurrency(a, b);
+  return { minor: a.minor + b.minor, currency: a.currency };
+}
+
+export function subtractMoney(a: Money, b: Money): Money {
+  assertSameCurrency(a, b);
+  return { minor: a.minor - b.minor, currency: a.currency };
+}
+
+/**
+ * Multiplies an amount by a whole quantity
+ */
+export function multiplyMoney(money: Money, quantity: number): Money {
+  return { minor: money.minor * BigInt(quantity), currency: money.currency };
+}
+
+/**
+ * Adds up amounts, all of which must be in the given currency
+ */
+export function sumMoney(amounts: Money[], currency: string): Money {
+  return amounts.reduce(addMoney, zeroMoney(currency));
+}
+
+/**
+ * Orders two amounts in the same currency: negative, zero or positive
+ */
+export function compareMoney(a: Money, b: Money): number {
+  assertSameCurrency(a, b);
+  return a.minor < b.minor ? -1 : a.minor > b.minor ? 1 : 0;
+}
+
+/**
+ * Divides an amount into an average, rounding half away from zero
+ */
+export function divideMoney(money: Money, divisor: number): Money {
+  return toMoney(toDecimal(money).dividedBy(divisor), money.currency);
+}
+
+/**
+ * Takes a percentage of an amount, e.g. 10 for 10%, rounding half away
+ * from zero
+ */
+export function percentOf(money: Money, percent: Prisma.Decimal | number | string): Money {
+  return toMoney(toDecimal(money).times(percent).dividedBy(100), money.currency);
+}
@@ -0,0 +1,207 @@
+import fs from "node:fs/promises";
+import nodemailer from "nodemailer";
+
+// ============================================
+// Types & Interfaces
+// ============================================
+
+export type NotificationChannel = "email" | "sms";
+
+export interface NotificationMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+/**
+ * Delivers a message over one channel (SMTP, SMS gateway, console...)
+ */
+export interface NotificationTransport {
+  name: string;
+  send(message: NotificationMessage): Promise<void>;
+}
+
+// ============================================
+// Transports
+// ============================================
+
+/**
+ * Sends email through an SMTP server
+ */
+export class SmtpTransport implements NotificationTransport {
+  readonly name = "smtp";
+  private transporter: nodemailer.Transporter;
+
+  constructor(
+    options: { host: string; port: number; secure: boolean; user?: string; pass?: string },
+    private readonly from: string
+  ) {
+    this.transporter = nodemailer.createTransport({
+      host: options.host,
+      port: options.port,
+      secure: options.secure,
+      ...(options.user && { auth: { user: options.user, pass: options.pass } }),
+    });
+  }
+
+  async send(message: NotificationMessage): Promise<void> {
+    await this.transporter.sendMail({
+      from: this.from,
+      to: message.to,
+      subject: message.subject,
+      text: message.text,
+    });
+  }
+}
+
+/**
+ * Sends SMS through an HTTP gateway
+ * POSTs { from, to, message } as JSON with a bearer API key
+ */
+export class SmsTransport implements NotificationTransport {
+  readonly name = "sms";
+
+  constructor(
+    private readonly apiUrl: string,
+    private readonly apiKey: string,
+    private readonly from: string
+  ) {}
+
+  async send(message: NotificationMessage): Promise<void> {
+    const response = await fetch(this.apiUrl, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${this.apiKey}`,
+      },
+      body: JSON.stringify({ from: this.from, to: message.to, message: message.text }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`SMS gateway responded with ${response.status}`);
+    }
+  }
+}
+
+/**
+ * Local development transport, only used with NOTIFICATION_TRANSPORT=console
+ * Logs messages to the console, or appends them to a file when a path is given
+ */
+export class ConsoleTransport implements NotificationTransport {
+  readonly name = "console";
+
+  constructor(private readonly filePath?: string) {}
+
+  async send(message: NotificationMessage): Promise<void> {
+    const line = `[${new Date().toISOString()}] to=${message.to} subject="${message.subject}" ${message.text}`;
+
+    if (this.filePath) {
+      await fs.appendFile(this.filePath, line + "\n");
+    } else {
+      console.log(`[notification] ${line}`);
+    }
+  }
+}
+
+/**
+ * Stands in for a channel with nothing configured, so every send fails
+ * rather than passcodes and sign-in links going nowhere (or to the logs)
+ */
+export class UnconfiguredTransport implements NotificationTransport {
+  readonly name = "unconfigured";
+
+  constructor(private readonly hint: string) {}
+
+  async send(): Promise<void> {
+    throw new Error(`No transport configured: ${this.hint}`);
+  }
+}
+
+// ============================================
+// Transport Configuration
+// ============================================
+
+// Development only: every channel logs instead of delivering
+const USE_CONSOLE_TRANSPORT = process.env.NOTIFICATION_TRANSPORT === "console";
+
+/**
+ * Picks the email transport: console when opted into, SMTP when SMTP_HOST
+ * is set
+ */
+function createEmailTransport(): NotificationTransport {
+  if (USE_CONSOLE_TRANSPORT) {
+    return new ConsoleTransport(process.env.NOTIFICATION_LOG_FILE);
+  }
+  if (!process.env.SMTP_HOST) {
+    return new UnconfiguredTransport("set SMTP_HOST to send email");
+  }
+
+  const port = parseInt(process.env.SMTP_PORT || "587", 10);
+  return new SmtpTransport(
+    {
+      host: process.env.SMTP_HOST,
+      port,
+      secure: port === 465,
+      ...(process.env.SMTP_USER && { user: process.env.SMTP_USER }),
+      ...(process.env.SMTP_PASS && { pass: process.env.SMTP_PASS }),
+    },
+    process.env.SMTP_FROM || "ZapMenu <no-reply@zapmenu.local>"
+  );
+}
+
+/**
+ * Picks the SMS transport: console when opted into, HTTP gateway when
+ * SMS_API_URL is set
+ */
+function createSmsTransport(): NotificationTransport {
+  if (USE_CONSOLE_TRANSPORT) {
+    return new ConsoleTransport(process.env.NOTIFICATION_LOG_FILE);
+  }
+  if (!process.env.SMS_API_URL) {
+    return new UnconfiguredTransport("set SMS_API_URL to send SMS");
+  }
+
+  return new SmsTransport(
+    process.env.SMS_API_URL,
+    process.env.SMS_API_KEY || "",
+    process.env.SMS_FROM || "ZapMenu"
+  );
+}
+
+const transports: Record<NotificationChannel, NotificationTransport> = {
+  email: createEmailTransport(),
+  sms: createSmsTransport(),
+};
+
+/**
+ * Replaces the transport used for a channel, e.g. with another provider
+ */
+export function setNotificationTransport(
+  channel: NotificationChannel,
+  transport: NotificationTransport
+): void {
+  transports[channel] = transport;
+}
+
+// ============================================
+// Sending
+// ============================================
+
+/**
+ * Sends a message over a channel
+ * Returns false instead of throwing when delivery fails
+ */
+export async function sendNotification(
+  channel: NotificationChannel,
+  message: NotificationMessage
+): Promise<boolean> {
+  const transport = transports[channel];
+
+  try {
+    await transport.send(message);
+    return true;
+  } catch (error) {
+    console.error(`Error sending ${channel} notification via ${transport.name}:`, error);
+    return false;
+  }
+}
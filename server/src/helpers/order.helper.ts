@@ -0,0 +1,294 @@
+import { prisma } from "../../lib/prisma.js";
+import type { OrderStatus } from "../../generated/prisma/client.js";
+import { publishOrderEvent } from "./events.helper.js";
+import { recordStockMovement } from "./inventory.helper.js";
+import { releaseRedemption } from "./promotion.helper.js";
+import { restockOrderItemIngredients } from "./recipe.helper.js";
+import { formatOrder } from "./tax.helper.js";
+
+// ============================================
+// Types & Interfaces
+// ============================================
+
+export type OrderErrorCode = "NOT_FOUND" | "INVALID_TRANSITION" | "CONFLICT";
+
+export interface OrderTransitionResult {
+  success: boolean;
+  orderId?: number;
+  fromStatus?: OrderStatus;
+  toStatus?: OrderStatus;
+  code?: OrderErrorCode;
+  message: string;
+}
+
+class TransitionConflictError extends Error {
+  constructor() {
+    super("Order status changed concurrently");
+    this.name = "TransitionConflictError";
+  }
+}
+
+/**
+ * Thrown inside the transition transaction when a paid order is cancelled
+ */
+class PaidOrderCancellationError extends Error {
+  constructor() {
+    super("Refund the order's payment before cancelling it");
+    this.name = "PaidOrderCancellationError";
+  }
+}
+
+// ============================================
+// Order Status State Machine
+// ============================================
+
+/**
+ * Allowed order status transitions
+ * COMPLETED and CANCELLED are terminal
+ */
+export const ORDER_TRANSITIONS: Record<OrderStatus, readonly OrderStatus[]> = {
+  PENDING: ["PREPARING", "CANCELLED"],
+  PREPARING: ["SERVED", "CANCELLED"],
+  SERVED: ["COMPLETED"],
+  COMPLETED: [],
+  CANCELLED: [],
+};
+
+/**
+ * Type guard for order status values coming from requests
+ */
+export function isOrderStatus(value: unknown): value is OrderStatus {
+  return typeof value === "string" && Object.hasOwn(ORDER_TRANSITIONS, value);
+}
+
+/**
+ * Checks whether an order may move from one status to another
+ */
+export function canTransition(from: OrderStatus, to: OrderStatus): boolean {
+  return ORDER_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Puts stock back on the tracked modifier options chosen for an order line
+ * Options deleted since the order, or without tracked stock, are skipped
+ */
+export async function restockOrderItemOptions(
+  tx: Pick<typeof prisma, "orderItemOption" | "modifierOption">,
+  orderItemId: number,
+  quantity: number
+): Promise<void> {
+  const chosen = await tx.orderItemOption.findMany({
+    where: { orderItemId, optionId: { not: null } },
+    select: { optionId: true },
+  });
+
+  await tx.modifierOption.updateMany({
+    where: { id: { in: chosen.map((option) => option.optionId!) }, stock: { not: null } },
+    data: { stock: { increment: quantity } },
+  });
+}
+
+/**
+ * Moves a hotel's order to a new status
+ * Rejects illegal transitions, restocks menu items, their tracked options
+ * and the ingredients they used on cancellation, gives back any promotion
+ * redemption and records the change with the acting admin in the status
+ * history
+ * An order with a COMPLETED or PARTIALLY_REFUNDED payment can't be
+ * cancelled until it has been refunded in full
+ */
+export async function transitionOrderStatus(
+  hotelId: number,
+  orderId: number,
+  toStatus: OrderStatus,
+  adminId: number | null
+): Promise<OrderTransitionResult> {
+  try {
+    const order = await prisma.order.findFirst({
+      where: { id: orderId, hotelId },
+      select: {
+        id: true,
+        status: true,
+        guestId: true,
+        table: { select: { id: true, label: true } },
+      },
+    });
+
+    if (!order) {
+      return {
+        success: false,
+        code: "NOT_FOUND",
+        message: "Order not found",
+      };
+    }
+
+    if (!canTransition(order.status, toStatus)) {
+      return {
+        success: false,
+        code: "INVALID_TRANSITION",
+        message: `Cannot move order from ${order.status} to ${toStatus}`,
+      };
+    }
+
+    await prisma.$transaction(async (tx) => {
+      // Guard on the current status so concurrent transitions can't both apply
+      const updated = await tx.order.updateMany({
+        where: { id: orderId, status: order.status },
+        data: { status: toStatus },
+      });
+
+      if (updated.count === 0) {
+        throw new TransitionConflictError();
+      }
+
+      if (toStatus === "CANCELLED") {
+        const payment = await tx.payment.findUnique({
+          where: { orderId },
+          select: { status: true },
+        });
+        if (payment?.status === "COMPLETED" || payment?.status === "PARTIALLY_REFUNDED") {
+          throw new PaidOrderCancellationError();
+        }
+
+        // Put reserved stock back on the menu, less what refunds already restocked
+        const orderItems = await tx.orderItem.findMany({
+          where: { orderId },
+          select: { id: true, menuItemId: true, quantity: true, restockedQuantity: true },
+        });
+
+        for (const item of orderItems) {
+          const restock = item.quantity - item.restockedQuantity;
+          if (restock <= 0) continue;
+
+          await tx.orderItem.update({
+            where: { id: item.id },
+            data: { restockedQuantity: item.quantity },
+          });
+          await tx.menuItem.update({
+            where: { id: item.menuItemId },
+            data: { stock: { increment: restock } },
+          });
+          await recordStockMovement(tx, {
+            hotelId,
+            menuItemId: item.menuItemId,
+            delta: restock,
+            reason: "CANCELLATION",
+            orderId,
+            adminId,
+          });
+          await restockOrderItemOptions(tx, item.id, restock);
+          await restockOrderItemIngredients(tx, item.id, restock);
+        }
+
+        await releaseRedemption(tx, orderId);
+      }
+
+      await tx.orderStatusHistory.create({
+        data: {
+          orderId,
+          fromStatus: order.status,
+          toStatus,
+          adminId,
+        },
+      });
+    });
+
+    await publishOrderEvent({
+      hotelId,
+      orderId,
+      guestId: order.guestId,
+      type: "order.status_changed",
+      status: toStatus,
+      data: { fromStatus: order.status, tableId: order.table.id, tableLabel: order.table.label },
+    });
+
+    return {
+      success: true,
+      orderId,
+      fromStatus: order.status,
+      toStatus,
+      message: `Order moved to ${toStatus}`,
+    };
+  } catch (error) {
+    if (error instanceof TransitionConflictError) {
+      return {
+        success: false,
+        code: "CONFLICT",
+        message: "Order status was changed by someone else; reload and try again",
+      };
+    }
+    if (error instanceof PaidOrderCancellationError) {
+      return {
+        success: false,
+        code: "CONFLICT",
+        message: error.message,
+      };
+    }
+
+    console.error("Error transitioning order status:", error);
+    return {
+      success: false,
+      message: "Failed to update order status",
+    };
+  }
+}
+
+// ============================================
+// Order Queries
+// ============================================
+
+/**
+ * Lists a hotel's orders, optionally filtered by status, with amounts
+ * formatted in each order's currency
+ */
+export async function listHotelOrders(hotelId: number, status?: OrderStatus) {
+  try {
+    const orders = await prisma.order.findMany({
+      where: {
+        hotelId,
+        ...(status !== undefined && { status }),
+      },
+      include: {
+        guest: { select: { id: true, name: true } },
+        table: { select: { id: true, label: true, zone: true } },
+        orderItems: { include: { menuItem: { select: { name: true } }, options: true } },
+        taxes: true,
+        discounts: true,
+      },
+      orderBy: { createdAt: "desc" },
+    });
+
+    return orders.map((order) => formatOrder(order));
+  } catch (error) {
+    console.error("Error listing hotel orders:", error);
+    return [];
+  }
+}
+
+/**
+ * Gets the status history of a hotel's order, oldest first
+ * Returns null if the order doesn't belong to the hotel
+ */
+export async function getOrderStatusHistory(hotelId: number, orderId: number) {
+  try {
+    const order = await prisma.order.findFirst({
+      where: { id: orderId, hotelId },
+      select: { id: true, status: true, table: { select: { id: true, label: true } } },
+    });
+
+    if (!order) {
+      return null;
+    }
+
+    const history = await prisma.orderStatusHistory.findMany({
+      where: { orderId },
+      include: { admin: { select: { id: true, name: true } } },
+      orderBy: { createdAt: "asc" },
+    });
+
+    return { order, history };
+  } catch (error) {
+    console.error("Error getting order status history:", error);
+    return null;
+  }
+}
@@ -0,0 +1,162 @@
+import crypto from "node:crypto";
+import type { PaymentMethod } from "../../generated/prisma/client.js";
+
+// ============================================
+// Types & Interfaces
+// ============================================
+
+export interface CreateProviderPaymentInput {
+  paymentId: number;
+  orderId: number;
+  amount: string;
+  currency: string;
+  method: PaymentMethod;
+}
+
+export interface CreateProviderPaymentResult {
+  reference: string;
+  checkoutUrl?: string;
+}
+
+export interface RefundProviderPaymentInput {
+  reference: string;
+  refundId: number;
+  amount: string;
+  currency: string;
+}
+
+export interface PaymentWebhookEvent {
+  reference: string;
+  status: "COMPLETED" | "FAILED";
+}
+
+/**
+ * Contract every payment gateway integration implements
+ */
+export interface PaymentProvider {
+  name: string;
+  /** Registers the payment with the gateway and returns its reference */
+  createPayment(input: CreateProviderPaymentInput): Promise<CreateProviderPaymentResult>;
+  /** Returns money for a completed payment and returns the refund reference */
+  refundPayment(input: RefundProviderPaymentInput): Promise<{ reference: string }>;
+  /** Checks the webhook signature against the raw request body */
+  verifyWebhookSignature(rawBody: string, signature: string | undefined): boolean;
+  /** Parses a verified webhook body; returns null if it isn't a payment outcome */
+  parseWebhook(rawBody: string): PaymentWebhookEvent | null;
+}
+
+// ============================================
+// Signing
+// ============================================
+
+/**
+ * Computes the hex HMAC-SHA256 signature of a webhook body
+ */
+export function signWebhookBody(rawBody: string, secret: string): string {
+  return crypto.createHmac("sha256", secret).update(rawBody).digest("hex");
+}
+
+/**
+ * Compares a received signature with the expected one in constant time
+ */
+function signaturesMatch(expected: string, received: string): boolean {
+  const a = Buffer.from(expected);
+  const b = Buffer.from(received);
+  return a.length === b.length && crypto.timingSafeEqual(a, b);
+}
+
+// ============================================
+// Mock Provider
+// ============================================
+
+/**
+ * Deterministic in-process provider for development and tests
+ * References are "mock_<paymentId>_<attempt>"; webhooks are signed with
+ * PAYMENT_WEBHOOK_SECRET and can be built with buildWebhook()
+ */
+export class MockPaymentProvider implements PaymentProvider {
+  readonly name = "mock";
+  private attempts = new Map<number, number>();
+
+  constructor(private readonly secret: string) {}
+
+  async createPayment(input: CreateProviderPaymentInput): Promise<CreateProviderPaymentResult> {
+    const attempt = (this.attempts.get(input.paymentId) ?? 0) + 1;
+    this.attempts.set(input.paymentId, attempt);
+
+    const reference = `mock_${input.paymentId}_${attempt}`;
+    return {
+      reference,
+      checkoutUrl: `https://payments.mock.local/checkout/${reference}`,
+    };
+  }
+
+  async refundPayment(input: RefundProviderPaymentInput): Promise<{ reference: string }> {
+    return { reference: `${input.reference}_refund_${input.refundId}` };
+  }
+
+  verifyWebhookSignature(rawBody: string, signature: string | undefined): boolean {
+    if (!signature) return false;
+    return signaturesMatch(signWebhookBody(rawBody, this.secret), signature);
+  }
+
+  parseWebhook(rawBody: string): PaymentWebhookEvent | null {
+    try {
+      const body = JSON.parse(rawBody);
+      if (
+        typeof body?.reference !== "string" ||
+        (body.status !== "COMPLETED" && body.status !== "FAILED")
+      ) {
+        return null;
+      }
+      return { reference: body.reference, status: body.status };
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Builds a signed webhook delivery as the gateway would send it
+   */
+  buildWebhook(event: PaymentWebhookEvent): { body: string; signature: string } {
+    const body = JSON.stringify(event);
+    return { body, signature: signWebhookBody(body, this.secret) };
+  }
+}
+
+// ============================================
+// Provider Registry
+// ============================================
+
+const PAYMENT_WEBHOOK_SECRET =
+  process.env.PAYMENT_WEBHOOK_SECRET || "your-webhook-secret-change-in-production";
+const PAYMENT_PROVIDER = process.env.PAYMENT_PROVIDER || "mock";
+
+const providers = new Map<string, PaymentProvider>([
+  ["mock", new MockPaymentProvider(PAYMENT_WEBHOOK_SECRET)],
+]);
+
+/**
+ * Registers a payment provider under its name, replacing any existing one
+ */
+export function registerPaymentProvider(provider: PaymentProvider): void {
+  providers.set(provider.name, provider);
+}
+
+/**
+ * Gets a registered provider by name
+ */
+export function getPaymentProvider(name: string): PaymentProvider | null {
+  return providers.get(name) ?? null;
+}
+
+/**
+ * Gets the provider configured through PAYMENT_PROVIDER (defaults to mock)
+ */
+export function getDefaultPaymentProvider(): PaymentProvider {
+  const provider = providers.get(PAYMENT_PROVIDER);
+  if (!provider) {
+    throw new Error(`Payment provider "${PAYMENT_PROVIDER}" is not registered`);
+  }
+  return provider;
+}
@@ -0,0 +1,731 @@
+import { prisma } from "../../lib/prisma.js";
+import { PaymentMethod, Prisma, type PaymentStatus } from "../../generated/prisma/client.js";
+import {
+  getDefaultPaymentProvider,
+  getPaymentProvider,
+  type PaymentWebhookEvent,
+} from "./payment-provider.helper.js";
+import { restockOrderItemOptions } from "./order.helper.js";
+import { recordStockMovement } from "./inventory.helper.js";
+import { restockOrderItemIngredients } from "./recipe.helper.js";
+import {
+  addMoney,
+  compareMoney,
+  formatMoney,
+  parseMoney,
+  subtractMoney,
+  sumMoney,
+  toDecimal,
+  toMoney,
+} from "./money.helper.js";
+
+// ============================================
+// Types & Interfaces
+// ============================================
+
+export type PaymentErrorCode = "NOT_FOUND" | "INVALID" | "CONFLICT" | "UNAUTHORIZED";
+
+export interface PaymentSummary {
+  id: number;
+  orderId: number;
+  amount: string;
+  currency: string;
+  method: PaymentMethod;
+  status: PaymentStatus;
+  reference: string | null;
+}
+
+export interface StartPaymentResult {
+  success: boolean;
+  payment?: PaymentSummary;
+  checkoutUrl?: string;
+  code?: PaymentErrorCode;
+  message: string;
+}
+
+export interface RefundLineInput {
+  orderItemId: number;
+  quantity: number;
+}
+
+export interface RefundInput {
+  amount: string;
+  /** Must match the payment's currency when given */
+  currency?: string;
+  reason: string;
+  items?: RefundLineInput[];
+  restock?: boolean;
+}
+
+export interface RefundResult {
+  success: boolean;
+  refundId?: number;
+  refundedTotal?: string;
+  currency?: string;
+  paymentStatus?: PaymentStatus;
+  code?: PaymentErrorCode;
+  message: string;
+}
+
+/**
+ * Thrown inside the refund transaction to reject the refund and roll back
+ */
+class RefundRejectedError extends Error {
+  constructor(
+    public readonly code: PaymentErrorCode,
+    message: string
+  ) {
+    super(message);
+    this.name = "RefundRejectedError";
+  }
+}
+
+export interface WebhookResult {
+  success: boolean;
+  paymentId?: number;
+  status?: PaymentStatus;
+  duplicate?: boolean;
+  code?: PaymentErrorCode;
+  message: string;
+}
+
+// ============================================
+// Amounts
+// ============================================
+
+/**
+ * Type guard for payment method values coming from requests
+ */
+export function isPaymentMethod(value: unknown): value is PaymentMethod {
+  return Object.values<unknown>(PaymentMethod).includes(value);
+}
+
+function toPaymentSummary(payment: {
+  id: number;
+  orderId: number;
+  amount: Prisma.Decimal;
+  currency: string;
+  method: PaymentMethod;
+  status: PaymentStatus;
+  reference: string | null;
+}): PaymentSummary {
+  return {
+    id: payment.id,
+    orderId: payment.orderId,
+    amount: formatMoney(toMoney(payment.amount, payment.currency)),
+    currency: payment.currency,
+    method: payment.method,
+    status: payment.status,
+    reference: payment.reference,
+  };
+}
+
+// ============================================
+// Payment Lifecycle
+// ============================================
+
+// A PENDING payment still without a provider reference after this long was
+// abandoned mid-start (e.g. the process died) and may be started again
+const PAYMENT_START_TIMEOUT_MS = 60 * 1000;
+
+/**
+ * Resets a FAILED or abandoned payment to PENDING for a new provider
+ * attempt, moving its old reference to a PaymentAttempt
+ * Returns null if a concurrent retry got there first, or the payment is
+ * still being started
+ */
+async function retryPayment(
+  existing: { id: number; provider: string | null; reference: string | null },
+  data: Pick<Prisma.PaymentUncheckedUpdateInput, "amount" | "currency" | "method" | "provider">
+) {
+  return prisma.$transaction(async (tx) => {
+    const reset = await tx.payment.updateMany({
+      where: {
+        id: existing.id,
+        OR: [
+          { status: "FAILED" },
+          {
+            status: "PENDING",
+            reference: null,
+            updatedAt: { lt: new Date(Date.now() - PAYMENT_START_TIMEOUT_MS) },
+          },
+        ],
+      },
+      data: { ...data, status: "PENDING", reference: null },
+    });
+    if (reset.count === 0) return null;
+
+    if (existing.reference) {
+      await tx.paymentAttempt.create({
+        data: {
+          paymentId: existing.id,
+          provider: existing.provider,
+          reference: existing.reference,
+          status: "FAILED",
+        },
+      });
+    }
+
+    return tx.payment.findUniqueOrThrow({ where: { id: existing.id } });
+  });
+}
+
+/**
+ * Starts payment for one of a guest's orders through the configured provider
+ * The amount is always the order's snapshotted total, never the client's
+ * A PENDING payment is returned as-is; a FAILED or abandoned one is
+ * retried, keeping its earlier provider reference as a PaymentAttempt
+ */
+export async function startOrderPayment(
+  guestId: number,
+  orderId: number,
+  method: PaymentMethod
+): Promise<StartPaymentResult> {
+  try {
+    const order = await prisma.order.findFirst({
+      where: { id: orderId, guestId },
+      include: { payment: true },
+    });
+
+    if (!order) {
+      return {
+        success: false,
+        code: "NOT_FOUND",
+        message: "Order not found",
+      };
+    }
+
+    if (order.status === "CANCELLED") {
+      return {
+        success: false,
+        code: "INVALID",
+        message: "Cannot pay for a cancelled order",
+      };
+    }
+
+    const existing = order.payment;
+    if (existing && existing.status === "PENDING" && existing.reference) {
+      return {
+        success: true,
+        payment: toPaymentSummary(existing),
+        message: "Payment already in progress",
+      };
+    }
+
+    if (existing && existing.status !== "FAILED" && existing.status !== "PENDING") {
+      return {
+        success: false,
+        code: "CONFLICT",
+        message: "Order has already been paid",
+      };
+    }
+
+    const total = toMoney(order.total, order.currency);
+    const amount = toDecimal(total);
+    const provider = getDefaultPaymentProvider();
+
+    // A retried payment takes the order's currency like a new one
+    const payment = existing
+      ? await retryPayment(existing, {
+          amount,
+          currency: order.currency,
+          method,
+          provider: provider.name,
+        })
+      : await prisma.payment
+          .create({
+            data: {
+              orderId,
+              hotelId: order.hotelId,
+              amount,
+              currency: order.currency,
+              method,
+              provider: provider.name,
+            },
+          })
+          .catch((error) => {
+            // Another request created the order's payment first
+            if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+              return null;
+            }
+            throw error;
+          });
+
+    if (!payment) {
+      return {
+        success: false,
+        code: "CONFLICT",
+        message: "Payment already in progress",
+      };
+    }
+
+    let providerPayment;
+    try {
+      providerPayment = await provider.createPayment({
+        paymentId: payment.id,
+        orderId,
+        amount: formatMoney(total),
+        currency: total.currency,
+        method,
+      });
+    } catch (error) {
+      console.error("Payment provider error:", error);
+      await prisma.payment.update({
+        where: { id: payment.id },
+        data: { status: "FAILED" },
+      });
+      return {
+        success: false,
+        message: "Payment provider rejected the payment",
+      };
+    }
+
+    const started = await prisma.payment.update({
+      where: { id: payment.id },
+      data: { reference: providerPayment.reference },
+    });
+
+    return {
+      success: true,
+      payment: toPaymentSummary(started),
+      ...(providerPayment.checkoutUrl && { checkoutUrl: providerPayment.checkoutUrl }),
+      message: "Payment started",
+    };
+  } catch (error) {
+    console.error("Error starting payment:", error);
+    return {
+      success: false,
+      message: "Failed to start payment",
+    };
+  }
+}
+
+/**
+ * Records a webhook for an attempt a retry replaced; the payment itself
+ * follows its current attempt only
+ * A superseded attempt that reports success took money the retry may take
+ * again, so it is logged for staff to reconcile
+ */
+async function recordAttemptWebhook(
+  providerName: string,
+  event: PaymentWebhookEvent
+): Promise<WebhookResult> {
+  const attempt = await prisma.paymentAttempt.findUnique({
+    where: { reference: event.reference },
+  });
+
+  if (!attempt || attempt.provider !== providerName) {
+    return {
+      success: false,
+      code: "NOT_FOUND",
+      message: "Payment not found for reference",
+    };
+  }
+
+  if (attempt.status === event.status) {
+    return {
+      success: true,
+      paymentId: attempt.paymentId,
+      status: attempt.status,
+      duplicate: true,
+      message: "Webhook already processed",
+    };
+  }
+
+  await prisma.paymentAttempt.update({
+    where: { id: attempt.id },
+    data: { status: event.status },
+  });
+
+  if (event.status === "COMPLETED") {
+    console.error(
+      `Superseded attempt ${attempt.reference} of payment ${attempt.paymentId} completed; reconcile it`
+    );
+  }
+
+  return {
+    success: true,
+    paymentId: attempt.paymentId,
+    status: event.status,
+    message: `Superseded payment attempt marked ${event.status}`,
+  };
+}
+
+/**
+ * Applies a signed provider webhook to the matching payment
+ * Deliveries are idempotent on the payment reference: only a PENDING
+ * payment is moved, repeats are acknowledged without changes
+ */
+export async function handlePaymentWebhook(
+  providerName: string,
+  rawBody: string,
+  signature: string | undefined
+): Promise<WebhookResult> {
+  try {
+    const provider = getPaymentProvider(providerName);
+    if (!provider) {
+      return {
+        success: false,
+        code: "NOT_FOUND",
+        message: "Unknown payment provider",
+      };
+    }
+
+    if (!provider.verifyWebhookSignature(rawBody, signature)) {
+      return {
+        success: false,
+        code: "UNAUTHORIZED",
+        message: "Invalid webhook signature",
+      };
+    }
+
+    const event = provider.parseWebhook(rawBody);
+    if (!event) {
+      return {
+        success: false,
+        code: "INVALID",
+        message: "Unrecognised webhook payload",
+      };
+    }
+
+    const payment = await prisma.payment.findUnique({
+      where: { reference: event.reference },
+      select: { id: true, status: true, provider: true },
+    });
+
+    if (!payment) {
+      return recordAttemptWebhook(provider.name, event);
+    }
+
+    if (payment.provider !== provider.name) {
+      return {
+        success: false,
+        code: "NOT_FOUND",
+        message: "Payment not found for reference",
+      };
+    }
+
+    const updated = await prisma.payment.updateMany({
+      where: { id: payment.id, reference: event.reference, status: "PENDING" },
+      data: { status: event.status },
+    });
+
+    if (updated.count === 0) {
+      return {
+        success: true,
+        paymentId: payment.id,
+        status: payment.status,
+        duplicate: true,
+        message: "Webhook already processed",
+      };
+    }
+
+    return {
+      success: true,
+      paymentId: payment.id,
+      status: event.status,
+      message: `Payment marked ${event.status}`,
+    };
+  } catch (error) {
+    console.error("Error handling payment webhook:", error);
+    return {
+      success: false,
+      message: "Failed to process webhook",
+    };
+  }
+}
+
+/**
+ * Gets the payment for one of a guest's orders
+ */
+export async function getGuestOrderPayment(guestId: number, orderId: number) {
+  try {
+    const payment = await prisma.payment.findFirst({
+      where: { orderId, order: { guestId } },
+    });
+
+    return payment ? toPaymentSummary(payment) : null;
+  } catch (error) {
+    console.error("Error getting order payment:", error);
+    return null;
+  }
+}
+
+// ============================================
+// Refunds
+// ============================================
+
+/**
+ * Records a full or partial refund against a hotel's payment
+ * The refund is in the payment's currency, to that currency's precision.
+ * Total refunds can never exceed Payment.amount; refunded order lines
+ * can optionally be put back into MenuItem.stock
+ */
+export async function refundPayment(
+  hotelId: number,
+  paymentId: number,
+  adminId: number,
+  input: RefundInput
+): Promise<RefundResult> {
+  try {
+    // Commit the refund as PENDING first so it counts against the payment
+    // while the gateway is called, and is never lost if the call succeeds
+    const pending = await prisma.$transaction(async (tx) => {
+      const payment = await tx.payment.findFirst({
+        where: { id: paymentId, hotelId },
+        include: {
+          refunds: { where: { status: { not: "FAILED" } }, select: { amount: true } },
+          order: {
+            include: {
+              orderItems: {
+                include: {
+                  refundItems: {
+                    where: { refund: { status: { not: "FAILED" } } },
+                    select: { quantity: true },
+                  },
+                },
+              },
+            },
+          },
+        },
+      });
+
+      if (!payment) {
+        throw new RefundRejectedError("NOT_FOUND", "Payment not found");
+      }
+
+      if (payment.status !== "COMPLETED" && payment.status !== "PARTIALLY_REFUNDED") {
+        throw new RefundRejectedError("CONFLICT", `Cannot refund a ${payment.status} payment`);
+      }
+
+      const { currency } = payment;
+      if (input.currency !== undefined && input.currency !== currency) {
+        throw new RefundRejectedError("INVALID", `Refunds for this payment must be in ${currency}`);
+      }
+
+      const amount = parseMoney(input.amount, currency);
+      if (!amount || amount.minor <= 0n) {
+        throw new RefundRejectedError(
+          "INVALID",
+          `Refund amount must be a positive ${currency} amount`
+        );
+      }
+
+      const paid = toMoney(payment.amount, currency);
+      const alreadyRefunded = sumMoney(
+        payment.refunds.map((refund) => toMoney(refund.amount, currency)),
+        currency
+      );
+
+      if (compareMoney(addMoney(alreadyRefunded, amount), paid) > 0) {
+        const remaining = formatMoney(subtractMoney(paid, alreadyRefunded));
+        throw new RefundRejectedError(
+          "INVALID",
+          `Refund exceeds remaining amount of ${remaining} ${currency}`
+        );
+      }
+
+      const lines = input.items ?? [];
+      if (input.restock && lines.length === 0) {
+        throw new RefundRejectedError("INVALID", "Order items are required to restock");
+      }
+
+      const orderItemsById = new Map(payment.order.orderItems.map((item) => [item.id, item]));
+      for (const line of lines) {
+        const orderItem = orderItemsById.get(line.orderItemId);
+        if (!orderItem) {
+          throw new RefundRejectedError(
+            "INVALID",
+            `Order item ${line.orderItemId} is not part of this order`
+          );
+        }
+
+        const refundedQuantity = orderItem.refundItems.reduce((sum, item) => sum + item.quantity, 0);
+        if (!Number.isInteger(line.quantity) || line.quantity <= 0) {
+          throw new RefundRejectedError("INVALID", "Refunded quantities must be positive integers");
+        }
+        if (refundedQuantity + line.quantity > orderItem.quantity) {
+          throw new RefundRejectedError(
+            "INVALID",
+            `Order item ${line.orderItemId} has only ${orderItem.quantity - refundedQuantity} unit(s) left to refund`
+          );
+        }
+      }
+
+      const refund = await tx.refund.create({
+        data: {
+          paymentId,
+          amount: toDecimal(amount),
+          reason: input.reason,
+          adminId,
+          restocked: !!input.restock,
+          items: { create: lines },
+        },
+      });
+
+      return { refund, payment, amount };
+    });
+
+    const { refund, payment, amount } = pending;
+
+    // The gateway call happens outside any transaction; the refund id lets
+    // the gateway recognise a repeated request
+    let reference: string | null = null;
+    const provider = payment.provider ? getPaymentProvider(payment.provider) : null;
+    if (provider && payment.reference) {
+      try {
+        const providerRefund = await provider.refundPayment({
+          reference: payment.reference,
+          refundId: refund.id,
+          amount: formatMoney(amount),
+          currency: amount.currency,
+        });
+        reference = providerRefund.reference;
+      } catch (error) {
+        console.error("Payment provider refund error:", error);
+        await prisma.refund.update({
+          where: { id: refund.id },
+          data: { status: "FAILED" },
+        });
+        return {
+          success: false,
+          refundId: refund.id,
+          message: "Payment provider rejected the refund",
+        };
+      }
+    }
+
+    const result = await completeRefund(hotelId, refund.id, adminId, reference);
+
+    return {
+      success: true,
+      refundId: refund.id,
+      refundedTotal: formatMoney(result.refundedTotal),
+      currency: result.refundedTotal.currency,
+      paymentStatus: result.paymentStatus,
+      message: "Refund recorded successfully",
+    };
+  } catch (error) {
+    if (error instanceof RefundRejectedError) {
+      return {
+        success: false,
+        code: error.code,
+        message: error.message,
+      };
+    }
+
+    console.error("Error refunding payment:", error);
+    return {
+      success: false,
+      message: "Failed to refund payment",
+    };
+  }
+}
+
+/**
+ * Marks a PENDING refund the gateway accepted as COMPLETED, restocks its
+ * lines if asked and moves the payment to REFUNDED or PARTIALLY_REFUNDED
+ * Units already put back, e.g. by cancelling the order, aren't restocked again
+ */
+async function completeRefund(
+  hotelId: number,
+  refundId: number,
+  adminId: number,
+  reference: string | null
+) {
+  return prisma.$transaction(async (tx) => {
+    const refund = await tx.refund.update({
+      where: { id: refundId },
+      data: { status: "COMPLETED", reference },
+      include: {
+        items: {
+          include: {
+            orderItem: { select: { menuItemId: true, quantity: true, restockedQuantity: true } },
+          },
+        },
+        payment: {
+          include: { refunds: { where: { status: "COMPLETED" }, select: { amount: true } } },
+        },
+      },
+    });
+
+    if (refund.restocked) {
+      for (const line of refund.items) {
+        const { menuItemId, quantity, restockedQuantity } = line.orderItem;
+        const restock = Math.min(line.quantity, quantity - restockedQuantity);
+        if (restock <= 0) continue;
+
+        await tx.orderItem.update({
+          where: { id: line.orderItemId },
+          data: { restockedQuantity: { increment: restock } },
+        });
+        await tx.menuItem.update({
+          where: { id: menuItemId },
+          data: { stock: { increment: restock } },
+        });
+        await recordStockMovement(tx, {
+          hotelId,
+          menuItemId,
+          delta: restock,
+          reason: "REFUND",
+          refundId,
+          adminId,
+        });
+        await restockOrderItemOptions(tx, line.orderItemId, restock);
+        await restockOrderItemIngredients(tx, line.orderItemId, restock);
+      }
+    }
+
+    const { payment } = refund;
+    const paid = toMoney(payment.amount, payment.currency);
+    const refundedTotal = sumMoney(
+      payment.refunds.map((completed) => toMoney(completed.amount, payment.currency)),
+      payment.currency
+    );
+    const paymentStatus: PaymentStatus =
+      compareMoney(refundedTotal, paid) === 0 ? "REFUNDED" : "PARTIALLY_REFUNDED";
+
+    await tx.payment.update({
+      where: { id: payment.id },
+      data: { status: paymentStatus },
+    });
+
+    return { refundedTotal, paymentStatus };
+  });
+}
+
+/**
+ * Gets a hotel's payment with its refunds
+ */
+export async function getPaymentRefunds(hotelId: number, paymentId: number) {
+  try {
+    const payment = await prisma.payment.findFirst({
+      where: { id: paymentId, hotelId },
+      include: {
+        refunds: {
+          include: {
+            items: true,
+            admin: { select: { id: true, name: true } },
+          },
+          orderBy: { createdAt: "asc" },
+        },
+      },
+    });
+
+    if (!payment) {
+      return null;
+    }
+
+    return {
+      payment: toPaymentSummary(payment),
+      refunds: payment.refunds.map((refund) => ({
+        ...refund,
+        amount: formatMoney(toMoney(refund.amount, payment.currency)),
+        currency: payment.currency,
+      })),
+    };
+  } catch (error) {
+    console.error("Error getting payment refunds:", error);
+    return null;
+  }
+}
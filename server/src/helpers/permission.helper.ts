@@ -0,0 +1,88 @@
+import type { AdminRole } from "../../generated/prisma/client.js";
+
+// ============================================
+// Types & Interfaces
+// ============================================
+
+export type Permission =
+  | "menu:read"
+  | "menu:write"
+  | "menu:availability"
+  | "orders:read"
+  | "orders:advance"
+  | "payments:read"
+  | "payments:refund"
+  | "tables:manage"
+  | "inventory:manage"
+  | "guests:read"
+  | "guests:write"
+  | "reports:read"
+  | "promotions:manage"
+  | "staff:manage"
+  | "security:read";
+
+// ============================================
+// Role Permissions
+// ============================================
+
+/**
+ * What each staff role may do within its hotel
+ */
+export const ROLE_PERMISSIONS: Record<AdminRole, readonly Permission[]> = {
+  OWNER: [
+    "menu:read",
+    "menu:write",
+    "menu:availability",
+    "orders:read",
+    "orders:advance",
+    "payments:read",
+    "payments:refund",
+    "tables:manage",
+    "inventory:manage",
+    "guests:read",
+    "guests:write",
+    "reports:read",
+    "promotions:manage",
+    "staff:manage",
+    "security:read",
+  ],
+  MANAGER: [
+    "menu:read",
+    "menu:write",
+    "menu:availability",
+    "orders:read",
+    "orders:advance",
+    "payments:read",
+    "payments:refund",
+    "tables:manage",
+    "inventory:manage",
+    "guests:read",
+    "guests:write",
+    "reports:read",
+    "promotions:manage",
+    "security:read",
+  ],
+  KITCHEN: [
+    "menu:read",
+    "menu:availability",
+    "orders:read",
+    "orders:advance",
+    "inventory:manage",
+    "guests:read",
+  ],
+  CASHIER: ["menu:read", "orders:read", "payments:read", "payments:refund", "guests:read"],
+};
+
+/**
+ * Type guard for role values coming from requests
+ */
+export function isAdminRole(value: unknown): value is AdminRole {
+  return typeof value === "string" && Object.hasOwn(ROLE_PERMISSIONS, value);
+}
+
+/**
+ * Checks whether a role grants a permission
+ */
+export function hasPermission(role: AdminRole, permission: Permission): boolean {
+  return ROLE_PERMISSIONS[role].includes(permission);
+}
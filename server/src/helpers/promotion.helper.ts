@@ -0,0 +1,654 @@
+import { prisma } from "../../lib/prisma.js";
+import { Prisma, type Promotion, type PromotionType } from "../../generated/prisma/client.js";
+import {
+  compareMoney,
+  formatMoney,
+  multiplyMoney,
+  parseMoney,
+  percentOf,
+  sumMoney,
+  toDecimal,
+  toMoney,
+  zeroMoney,
+  type Money,
+} from "./money.helper.js";
+import {
+  getLocalTime,
+  isScheduleActive,
+  isValidDate,
+  isValidTime,
+  type LocalTime,
+} from "./schedule.helper.js";
+import { formatRate, isValidRate } from "./tax.helper.js";
+import type { TenantResult } from "./tenant.helper.js";
+
+// ============================================
+// Types & Interfaces
+// ============================================
+
+export interface PromotionInput {
+  name: string;
+  code?: string | null; // Null makes the promotion apply automatically
+  type: PromotionType;
+  value?: string | number | null;
+  buyQuantity?: number | null;
+  getQuantity?: number | null;
+  categoryId?: number | null;
+  menuItemId?: number | null;
+  daysOfWeek?: number[] | null;
+  startTime?: string | null;
+  endTime?: string | null;
+  startDate?: string | null;
+  endDate?: string | null;
+  maxRedemptions?: number | null;
+  maxPerGuest?: number | null;
+  active?: boolean;
+}
+
+export type PromotionUpdate = Partial<PromotionInput>;
+
+/**
+ * An order line as promotions see it: what was ordered and its unit price
+ * including options
+ */
+export interface PromotionLine {
+  menuItemId: number;
+  categoryId: number;
+  unitPrice: Money;
+  quantity: number;
+}
+
+/**
+ * A promotion reserved for an order, with the discount on each of its lines
+ */
+export interface AppliedPromotion {
+  promotion: Pick<Promotion, "id" | "name" | "code">;
+  discounts: Money[];
+  total: Money;
+  guestUse: number;
+}
+
+/**
+ * Thrown inside the order transaction when a guest's promo code can't be
+ * used, so the order rolls back and the guest sees why
+ */
+export class PromotionRejectedError extends Error {
+  constructor(reason: string) {
+    super(reason);
+    this.name = "PromotionRejectedError";
+  }
+}
+
+type PromotionTx = Pick<typeof prisma, "promotion" | "promotionRedemption">;
+
+const CODE_PATTERN = /^[A-Z0-9][A-Z0-9_-]{2,31}$/;
+
+// ============================================
+// Evaluation
+// ============================================
+
+/**
+ * Canonicalizes a promo code as guests may type it, e.g. " summer-10 "
+ */
+export function normalizePromoCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+/**
+ * Checks a promotion's dates and daily window at a local time
+ */
+export function isPromotionOpen(promotion: Promotion, local: LocalTime): boolean {
+  if (promotion.startDate && local.date < promotion.startDate) return false;
+  if (promotion.endDate && local.date > promotion.endDate) return false;
+  if (!promotion.daysOfWeek || !promotion.startTime || !promotion.endTime) return true;
+
+  return isScheduleActive(
+    {
+      daysOfWeek: promotion.daysOfWeek,
+      startTime: promotion.startTime,
+      endTime: promotion.endTime,
+      startDate: null,
+      endDate: null,
+    },
+    local
+  );
+}
+
+function isEligible(promotion: Promotion, line: PromotionLine): boolean {
+  if (promotion.menuItemId !== null) return line.menuItemId === promotion.menuItemId;
+  if (promotion.categoryId !== null) return line.categoryId === promotion.categoryId;
+  return true;
+}
+
+/**
+ * Works out a promotion's discount on each order line; lines it doesn't
+ * cover get zero
+ * A fixed amount is capped at the eligible lines' total and split across
+ * them in proportion, leftover minor units going to the first lines with
+ * room. Buy X get Y makes the cheapest Y of every X + Y eligible units free
+ */
+export function computePromotionDiscounts(
+  promotion: Promotion,
+  lines: PromotionLine[],
+  currency: string
+): Money[] {
+  const discounts = lines.map(() => zeroMoney(currency));
+  const eligible = [...lines.keys()].filter((index) => isEligible(promotion, lines[index]!));
+  const amountOf = (index: number) =>
+    multiplyMoney(lines[index]!.unitPrice, lines[index]!.quantity);
+
+  switch (promotion.type) {
+    case "PERCENTAGE":
+      for (const index of eligible) {
+        discounts[index] = percentOf(amountOf(index), promotion.value ?? 0);
+      }
+      break;
+
+    case "FIXED_AMOUNT": {
+      const eligibleTotal = sumMoney(eligible.map(amountOf), currency);
+      if (eligibleTotal.minor === 0n) break;
+
+      const fixed = toMoney(promotion.value ?? 0, currency);
+      const target = compareMoney(fixed, eligibleTotal) < 0 ? fixed.minor : eligibleTotal.minor;
+
+      let allocated = 0n;
+      for (const index of eligible) {
+        const share = (amountOf(index).minor * target) / eligibleTotal.minor;
+        discounts[index] = { minor: share, currency };
+        allocated += share;
+      }
+      for (const index of eligible) {
+        if (allocated === target) break;
+        if (discounts[index]!.minor < amountOf(index).minor) {
+          discounts[index] = { minor: discounts[index]!.minor + 1n, currency };
+          allocated += 1n;
+        }
+      }
+      break;
+    }
+
+    case "BUY_X_GET_Y": {
+      const buy = promotion.buyQuantity ?? 0;
+      const get = promotion.getQuantity ?? 0;
+      const units = eligible.reduce((total, index) => total + lines[index]!.quantity, 0);
+      if (buy + get === 0) break;
+
+      let free = Math.floor(units / (buy + get)) * get;
+      const cheapestFirst = [...eligible].sort((a, b) =>
+        compareMoney(lines[a]!.unitPrice, lines[b]!.unitPrice)
+      );
+      for (const index of cheapestFirst) {
+        if (free === 0) break;
+        const taken = Math.min(free, lines[index]!.quantity);
+        discounts[index] = multiplyMoney(lines[index]!.unitPrice, taken);
+        free -= taken;
+      }
+      break;
+    }
+  }
+
+  return discounts;
+}
+
+/**
+ * Takes one of a promotion's redemptions for a guest
+ * The conditional increment keeps concurrent checkouts from exceeding the
+ * global limit; the guest's next use number is unique per promotion, so
+ * two checkouts racing for the same use can't both commit
+ * Returns the use number, or the reason the promotion can't be used
+ */
+async function reserveRedemption(
+  tx: PromotionTx,
+  promotion: Promotion,
+  guestId: number
+): Promise<{ guestUse: number } | string> {
+  const uses = await tx.promotionRedemption.aggregate({
+    where: { promotionId: promotion.id, guestId },
+    _count: true,
+    _max: { guestUse: true },
+  });
+
+  if (promotion.maxPerGuest !== null && uses._count >= promotion.maxPerGuest) {
+    return "You have already used this promo code the maximum number of times";
+  }
+
+  const reserved = await tx.promotion.updateMany({
+    where: {
+      id: promotion.id,
+      active: true,
+      ...(promotion.maxRedemptions !== null && {
+        redemptionCount: { lt: promotion.maxRedemptions },
+      }),
+    },
+    data: { redemptionCount: { increment: 1 } },
+  });
+
+  if (reserved.count === 0) {
+    return "This promo code has reached its redemption limit";
+  }
+
+  return { guestUse: (uses._max.guestUse ?? 0) + 1 };
+}
+
+/**
+ * Picks and reserves the promotion for an order being placed
+ * A guest's code is the only promotion considered and throws a
+ * PromotionRejectedError with the reason when it can't be used. Without a
+ * code, the automatic promotion giving the largest discount applies, if
+ * any can still be redeemed
+ */
+export async function applyPromotion(
+  tx: PromotionTx,
+  hotel: { id: number; timezone: string; currency: string },
+  guestId: number,
+  code: string | undefined,
+  lines: PromotionLine[],
+  now = new Date()
+): Promise<AppliedPromotion | null> {
+  const local = getLocalTime(now, hotel.timezone);
+
+  const withDiscounts = (promotion: Promotion) => {
+    const discounts = computePromotionDiscounts(promotion, lines, hotel.currency);
+    return { promotion, discounts, total: sumMoney(discounts, hotel.currency) };
+  };
+
+  if (code !== undefined) {
+    const promotion = await tx.promotion.findUnique({
+      where: { hotelId_code: { hotelId: hotel.id, code: normalizePromoCode(code) } },
+    });
+
+    if (!promotion) {
+      throw new PromotionRejectedError("Promo code not recognised");
+    }
+    if (!promotion.active) {
+      throw new PromotionRejectedError("This promo code is no longer active");
+    }
+    if (!isPromotionOpen(promotion, local)) {
+      throw new PromotionRejectedError("This promo code is not valid at this time");
+    }
+
+    const candidate = withDiscounts(promotion);
+    if (candidate.total.minor === 0n) {
+      throw new PromotionRejectedError("This promo code does not apply to any item in this order");
+    }
+
+    const reservation = await reserveRedemption(tx, promotion, guestId);
+    if (typeof reservation === "string") {
+      throw new PromotionRejectedError(reservation);
+    }
+
+    return { ...candidate, guestUse: reservation.guestUse };
+  }
+
+  const automatic = await tx.promotion.findMany({
+    where: { hotelId: hotel.id, code: null, active: true },
+  });
+
+  const candidates = automatic
+    .filter((promotion) => isPromotionOpen(promotion, local))
+    .map(withDiscounts)
+    .filter((candidate) => candidate.total.minor > 0n)
+    .sort((a, b) => compareMoney(b.total, a.total));
+
+  for (const candidate of candidates) {
+    const reservation = await reserveRedemption(tx, candidate.promotion, guestId);
+    if (typeof reservation === "string") continue;
+
+    return { ...candidate, guestUse: reservation.guestUse };
+  }
+
+  return null;
+}
+
+/**
+ * Records an applied promotion against the order it was placed with
+ */
+export async function recordRedemption(
+  tx: PromotionTx,
+  applied: AppliedPromotion,
+  orderId: number,
+  guestId: number
+): Promise<void> {
+  try {
+    await tx.promotionRedemption.create({
+      data: {
+        promotionId: applied.promotion.id,
+        orderId,
+        guestId,
+        guestUse: applied.guestUse,
+      },
+    });
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+      throw new PromotionRejectedError(
+        "This promo code was just used on another of your orders; please try again"
+      );
+    }
+    throw error;
+  }
+}
+
+/**
+ * Gives a cancelled order's promotion redemption back to the guest and to
+ * the promotion's global limit; the order keeps its discount snapshot
+ */
+export async function releaseRedemption(tx: PromotionTx, orderId: number): Promise<void> {
+  const redemption = await tx.promotionRedemption.findUnique({ where: { orderId } });
+  if (!redemption) return;
+
+  await tx.promotionRedemption.delete({ where: { id: redemption.id } });
+  await tx.promotion.update({
+    where: { id: redemption.promotionId },
+    data: { redemptionCount: { decrement: 1 } },
+  });
+}
+
+// ============================================
+// Promotion Management
+// ============================================
+
+function toPromotionResponse(promotion: Promotion, currency: string) {
+  return {
+    id: promotion.id,
+    name: promotion.name,
+    code: promotion.code,
+    type: promotion.type,
+    value:
+      promotion.value === null
+        ? null
+        : promotion.type === "PERCENTAGE"
+          ? formatRate(promotion.value)
+          : formatMoney(toMoney(promotion.value, currency)),
+    buyQuantity: promotion.buyQuantity,
+    getQuantity: promotion.getQuantity,
+    categoryId: promotion.categoryId,
+    menuItemId: promotion.menuItemId,
+    daysOfWeek: promotion.daysOfWeek?.split(",").map(Number) ?? null,
+    startTime: promotion.startTime,
+    endTime: promotion.endTime,
+    startDate: promotion.startDate,
+    endDate: promotion.endDate,
+    maxRedemptions: promotion.maxRedemptions,
+    maxPerGuest: promotion.maxPerGuest,
+    redemptionCount: promotion.redemptionCount,
+    active: promotion.active,
+  };
+}
+
+export type PromotionResponse = ReturnType<typeof toPromotionResponse>;
+
+function toPromotionInput(promotion: Promotion): PromotionInput {
+  return {
+    ...promotion,
+    value: promotion.value?.toString() ?? null,
+    daysOfWeek: promotion.daysOfWeek?.split(",").map(Number) ?? null,
+  };
+}
+
+const isPositiveCount = (value: number | null | undefined) =>
+  value == null || (Number.isInteger(value) && value > 0);
+
+/**
+ * Validates a complete promotion and converts it to columns
+ * Values the type doesn't use are cleared. Returns the reason when it's
+ * invalid
+ */
+async function checkPromotion(hotel: { id: number; currency: string }, input: PromotionInput) {
+  const code = input.code == null ? null : normalizePromoCode(input.code);
+  if (code !== null && !CODE_PATTERN.test(code)) {
+    return "Codes are 3-32 letters, digits, dashes or underscores";
+  }
+
+  let value: Prisma.Decimal | null = null;
+  if (input.type === "PERCENTAGE") {
+    if (!isValidRate(input.value) || new Prisma.Decimal(input.value).isZero()) {
+      return "Percentage must be above 0 and at most 100";
+    }
+    value = new Prisma.Decimal(input.value);
+  } else if (input.type === "FIXED_AMOUNT") {
+    const amount = parseMoney(input.value, hotel.currency);
+    if (!amount || amount.minor <= 0n) {
+      return `Amount must be a positive ${hotel.currency} amount`;
+    }
+    value = toDecimal(amount);
+  }
+
+  const isBuyXGetY = input.type === "BUY_X_GET_Y";
+  if (isBuyXGetY && !(input.buyQuantity && input.getQuantity)) {
+    return "Buy X get Y promotions need buy and get quantities";
+  }
+  if (!isPositiveCount(input.buyQuantity) || !isPositiveCount(input.getQuantity)) {
+    return "Buy and get quantities must be positive whole numbers";
+  }
+
+  if (input.categoryId != null && input.menuItemId != null) {
+    return "A promotion applies to a category or a menu item, not both";
+  }
+  if (input.categoryId != null) {
+    const category = await prisma.menuCategory.findFirst({
+      where: { id: input.categoryId, hotelId: hotel.id },
+      select: { id: true },
+    });
+    if (!category) return "Category not found in this hotel";
+  }
+  if (input.menuItemId != null) {
+    const item = await prisma.menuItem.findFirst({
+      where: { id: input.menuItemId, hotelId: hotel.id },
+      select: { id: true },
+    });
+    if (!item) return "Menu item not found in this hotel";
+  }
+
+  const window = [input.daysOfWeek, input.startTime, input.endTime];
+  if (window.some((part) => part != null) && window.some((part) => part == null)) {
+    return "A daily window needs days, a start time and an end time";
+  }
+  if (
+    input.daysOfWeek != null &&
+    (input.daysOfWeek.length === 0 ||
+      !input.daysOfWeek.every((day) => Number.isInteger(day) && day >= 1 && day <= 7))
+  ) {
+    return "daysOfWeek must list ISO weekdays 1-7";
+  }
+  if (
+    (input.startTime != null && !isValidTime(input.startTime)) ||
+    (input.endTime != null && !isValidTime(input.endTime, true))
+  ) {
+    return "Times must be formatted HH:MM";
+  }
+  if (input.startTime != null && input.startTime === input.endTime) {
+    return "Start and end time must differ";
+  }
+  if (
+    (input.startDate != null && !isValidDate(input.startDate)) ||
+    (input.endDate != null && !isValidDate(input.endDate))
+  ) {
+    return "Dates must be formatted YYYY-MM-DD";
+  }
+  if (input.startDate && input.endDate && input.startDate > input.endDate) {
+    return "Start date cannot be after end date";
+  }
+
+  if (!isPositiveCount(input.maxRedemptions) || !isPositiveCount(input.maxPerGuest)) {
+    return "Redemption limits must be positive whole numbers";
+  }
+
+  return {
+    name: input.name,
+    code,
+    type: input.type,
+    value,
+    buyQuantity: isBuyXGetY ? input.buyQuantity! : null,
+    getQuantity: isBuyXGetY ? input.getQuantity! : null,
+    categoryId: input.categoryId ?? null,
+    menuItemId: input.menuItemId ?? null,
+    daysOfWeek: input.daysOfWeek
+      ? [...new Set(input.daysOfWeek)].sort((a, b) => a - b).join(",")
+      : null,
+    startTime: input.startTime ?? null,
+    endTime: input.endTime ?? null,
+    startDate: input.startDate ?? null,
+    endDate: input.endDate ?? null,
+    maxRedemptions: input.maxRedemptions ?? null,
+    maxPerGuest: input.maxPerGuest ?? null,
+    active: input.active ?? true,
+  };
+}
+
+/**
+ * Checks that no other promotion at the hotel uses a code
+ */
+async function isCodeTaken(hotelId: number, code: string | null, exceptId?: number) {
+  if (code === null) return false;
+
+  const clash = await prisma.promotion.findFirst({
+    where: { hotelId, code, ...(exceptId !== undefined && { id: { not: exceptId } }) },
+    select: { id: true },
+  });
+  return clash !== null;
+}
+
+/**
+ * Lists a hotel's promotions with how often each is currently redeemed
+ */
+export async function listPromotions(hotelId: number): Promise<PromotionResponse[]> {
+  try {
+    const hotel = await prisma.hotel.findUniqueOrThrow({
+      where: { id: hotelId },
+      select: { currency: true, promotions: { orderBy: { id: "asc" } } },
+    });
+
+    return hotel.promotions.map((promotion) => toPromotionResponse(promotion, hotel.currency));
+  } catch (error) {
+    console.error("Error listing promotions:", error);
+    return [];
+  }
+}
+
+/**
+ * Creates a promotion; codes are unique per hotel
+ */
+export async function createPromotion(
+  hotelId: number,
+  input: PromotionInput
+): Promise<TenantResult<PromotionResponse>> {
+  try {
+    const hotel = await prisma.hotel.findUniqueOrThrow({
+      where: { id: hotelId },
+      select: { id: true, currency: true },
+    });
+
+    const data = await checkPromotion(hotel, input);
+    if (typeof data === "string") {
+      return { success: false, code: "INVALID", message: data };
+    }
+
+    if (await isCodeTaken(hotelId, data.code)) {
+      return {
+        success: false,
+        code: "CONFLICT",
+        message: "A promotion with this code already exists",
+      };
+    }
+
+    const promotion = await prisma.promotion.create({ data: { hotelId, ...data } });
+
+    return {
+      success: true,
+      data: toPromotionResponse(promotion, hotel.currency),
+      message: "Promotion created successfully",
+    };
+  } catch (error) {
+    console.error("Error creating promotion:", error);
+    return {
+      success: false,
+      message: "Failed to create promotion",
+    };
+  }
+}
+
+/**
+ * Updates a promotion; the changes are checked together with its current
+ * settings and orders already placed keep their discounts
+ */
+export async function updatePromotion(
+  hotelId: number,
+  promotionId: number,
+  input: PromotionUpdate
+): Promise<TenantResult<PromotionResponse>> {
+  try {
+    const existing = await prisma.promotion.findFirst({
+      where: { id: promotionId, hotelId },
+      include: { hotel: { select: { id: true, currency: true } } },
+    });
+
+    if (!existing) {
+      return {
+        success: false,
+        code: "NOT_FOUND",
+        message: "Promotion not found",
+      };
+    }
+
+    const data = await checkPromotion(existing.hotel, { ...toPromotionInput(existing), ...input });
+    if (typeof data === "string") {
+      return { success: false, code: "INVALID", message: data };
+    }
+
+    if (await isCodeTaken(hotelId, data.code, promotionId)) {
+      return {
+        success: false,
+        code: "CONFLICT",
+        message: "A promotion with this code already exists",
+      };
+    }
+
+    const promotion = await prisma.promotion.update({ where: { id: promotionId }, data });
+
+    return {
+      success: true,
+      data: toPromotionResponse(promotion, existing.hotel.currency),
+      message: "Promotion updated successfully",
+    };
+  } catch (error) {
+    console.error("Error updating promotion:", error);
+    return {
+      success: false,
+      message: "Failed to update promotion",
+    };
+  }
+}
+
+/**
+ * Deletes a promotion; orders placed with it keep their discount snapshot
+ */
+export async function deletePromotion(
+  hotelId: number,
+  promotionId: number
+): Promise<TenantResult<{ id: number }>> {
+  try {
+    const deleted = await prisma.promotion.deleteMany({
+      where: { id: promotionId, hotelId },
+    });
+
+    if (deleted.count === 0) {
+      return {
+        success: false,
+        code: "NOT_FOUND",
+        message: "Promotion not found",
+      };
+    }
+
+    return {
+      success: true,
+      data: { id: promotionId },
+      message: "Promotion deleted successfully",
+    };
+  } catch (error) {
+    console.error("Error deleting promotion:", error);
+    return {
+      success: false,
+      message: "Failed to delete promotion",
+    };
+  }
+}
@@ -0,0 +1,187 @@
+import { prisma } from "../../lib/prisma.js";
+
+// ============================================
+// Types & Interfaces
+// ============================================
+
+export type ProvisioningErrorCode = "NOT_FOUND" | "CONFLICT";
+
+export interface ProvisionHotelInput {
+  hotel: { name: string };
+  owner: { name: string; email: string; phone: string };
+  categories?: string[];
+}
+
+export interface ProvisionHotelResult {
+  success: boolean;
+  hotelId?: number;
+  ownerId?: number;
+  categoryIds?: number[];
+  code?: ProvisioningErrorCode;
+  message: string;
+}
+
+export interface OffboardHotelResult {
+  success: boolean;
+  export?: HotelExport;
+  code?: ProvisioningErrorCode;
+  message: string;
+}
+
+export type HotelExport = NonNullable<Awaited<ReturnType<typeof buildHotelExport>>>;
+
+// ============================================
+// Provisioning
+// ============================================
+
+/**
+ * Creates a hotel, its owner admin and optional starter categories in one transaction
+ */
+export async function provisionHotel(input: ProvisionHotelInput): Promise<ProvisionHotelResult> {
+  try {
+    const existing = await prisma.admin.findUnique({
+      where: { email: input.owner.email },
+      select: { id: true },
+    });
+
+    if (existing) {
+      return {
+        success: false,
+        code: "CONFLICT",
+        message: "An admin with this email already exists",
+      };
+    }
+
+    const hotel = await prisma.hotel.create({
+      data: {
+        name: input.hotel.name,
+        admins: {
+          create: { ...input.owner, role: "OWNER" },
+        },
+        categories: {
+          create: (input.categories ?? []).map((name) => ({ name })),
+        },
+      },
+      include: {
+        admins: { select: { id: true } },
+        categories: { select: { id: true } },
+      },
+    });
+
+    return {
+      success: true,
+      hotelId: hotel.id,
+      ownerId: hotel.admins[0]!.id,
+      categoryIds: hotel.categories.map((category) => category.id),
+      message: "Hotel provisioned successfully",
+    };
+  } catch (error) {
+    console.error("Error provisioning hotel:", error);
+    return {
+      success: false,
+      message: "Failed to provision hotel",
+    };
+  }
+}
+
+// ============================================
+// Export & Offboarding
+// ============================================
+
+/**
+ * Collects everything stored for a hotel
+ * Returns null if the hotel doesn't exist
+ */
+async function buildHotelExport(hotelId: number) {
+  const hotel = await prisma.hotel.findUnique({
+    where: { id: hotelId },
+    include: {
+      admins: {
+        select: { id: true, name: true, email: true, phone: true, role: true, createdAt: true },
+      },
+      categories: {
+        include: {
+          schedules: true,
+          translations: true,
+          menuItems: {
+            include: {
+              schedules: true,
+              translations: true,
+              modifierGroups: { include: { options: true } },
+            },
+          },
+        },
+      },
+      orders: {
+        include: {
+          guest: { select: { id: true, name: true, email: true } },
+          orderItems: { include: { options: true } },
+          taxes: true,
+          discounts: true,
+          statusHistory: true,
+        },
+      },
+      tables: true,
+      guestProfiles: true,
+      stockMovements: true,
+      ingredients: true,
+      recipeLines: true,
+      promotions: { include: { redemptions: true } },
+      payments: { include: { refunds: { include: { items: true } }, attempts: true } },
+    },
+  });
+
+  if (!hotel) {
+    return null;
+  }
+
+  return { exportedAt: new Date(), ...hotel };
+}
+
+/**
+ * Exports a hotel's data as a JSON-serialisable object
+ */
+export async function exportHotelData(hotelId: number): Promise<HotelExport | null> {
+  try {
+    return await buildHotelExport(hotelId);
+  } catch (error) {
+    console.error("Error exporting hotel data:", error);
+    return null;
+  }
+}
+
+/**
+ * Exports a hotel's data and then deletes the hotel
+ * Everything scoped to the hotel is removed by the schema's cascade rules;
+ * orders go first so order lines never block their menu items' deletion
+ */
+export async function offboardHotel(hotelId: number): Promise<OffboardHotelResult> {
+  try {
+    const data = await buildHotelExport(hotelId);
+
+    if (!data) {
+      return {
+        success: false,
+        code: "NOT_FOUND",
+        message: "Hotel not found",
+      };
+    }
+
+    await prisma.$transaction([
+      prisma.order.deleteMany({ where: { hotelId } }),
+      prisma.hotel.delete({ where: { id: hotelId } }),
+    ]);
+
+    return {
+      success: true,
+      export: data,
+      message: "Hotel exported and deleted",
+    };
+  } catch (error) {
+    console.error("Error offboarding hotel:", error);
+    return {
+      success: false,
+      message: "Failed to offboard hotel",
+    };
+  }
+}
@@ -0,0 +1,387 @@
+import { prisma } from "../../lib/prisma.js";
+import { Prisma } from "../../generated/prisma/client.js";
+import type { TenantResult } from "./tenant.helper.js";
+
+// ============================================
+// Types & Interfaces
+// ============================================
+
+export interface IngredientInput {
+  name: string;
+  unit: string;
+  stock?: string | number;
+}
+
+export type IngredientUpdate = Partial<IngredientInput>;
+
+export interface RecipeLineInput {
+  ingredientId: number;
+  quantity: string | number;
+}
+
+/**
+ * What a recipe belongs to: a menu item or a modifier option
+ */
+export type RecipeTarget = { menuItemId: number } | { optionId: number };
+
+/**
+ * Ingredient quantities used per unit of an item or option
+ */
+export type Recipe = { ingredientId: number; quantity: Prisma.Decimal }[];
+
+// ============================================
+// Ingredient Usage
+// ============================================
+
+/**
+ * Adds a recipe's ingredient usage, times a quantity, to a running total
+ */
+export function addRecipeUsage(
+  usage: Map<number, Prisma.Decimal>,
+  recipe: Recipe,
+  times: number = 1
+): Map<number, Prisma.Decimal> {
+  for (const line of recipe) {
+    const used = usage.get(line.ingredientId) ?? new Prisma.Decimal(0);
+    usage.set(line.ingredientId, used.plus(line.quantity.times(times)));
+  }
+  return usage;
+}
+
+/**
+ * Checks that every ingredient of a recipe has enough stock for one unit
+ * An empty recipe is always available
+ */
+export function isRecipeAvailable(
+  recipe: { quantity: Prisma.Decimal; ingredient: { stock: Prisma.Decimal } }[]
+): boolean {
+  return recipe.every((line) => line.ingredient.stock.gte(line.quantity));
+}
+
+/**
+ * Deducts per-unit ingredient usage, times a quantity, from stock with
+ * conditional decrements so concurrent orders can't drain an ingredient
+ * below zero
+ * Returns the ID of the first ingredient without enough stock, or null;
+ * the caller should roll back its transaction on a shortage
+ */
+export async function deductIngredients(
+  tx: Pick<typeof prisma, "ingredient">,
+  hotelId: number,
+  usage: Map<number, Prisma.Decimal>,
+  times: number
+): Promise<number | null> {
+  for (const [ingredientId, perUnit] of usage) {
+    const quantity = perUnit.times(times);
+    const deducted = await tx.ingredient.updateMany({
+      where: { id: ingredientId, hotelId, stock: { gte: quantity } },
+      data: { stock: { decrement: quantity } },
+    });
+
+    if (deducted.count === 0) {
+      return ingredientId;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Puts the ingredients deducted for an order line back in stock
+ * Uses the usage recorded at order time, not the current recipe
+ */
+export async function restockOrderItemIngredients(
+  tx: Pick<typeof prisma, "orderItemIngredient" | "ingredient">,
+  orderItemId: number,
+  quantity: number
+): Promise<void> {
+  const used = await tx.orderItemIngredient.findMany({
+    where: { orderItemId },
+    select: { ingredientId: true, quantity: true },
+  });
+
+  for (const line of used) {
+    await tx.ingredient.update({
+      where: { id: line.ingredientId },
+      data: { stock: { increment: line.quantity.times(quantity) } },
+    });
+  }
+}
+
+// ============================================
+// Ingredients
+// ============================================
+
+/**
+ * Lists a hotel's ingredients by name
+ */
+export async function listIngredients(hotelId: number) {
+  try {
+    return await prisma.ingredient.findMany({
+      where: { hotelId },
+      orderBy: { name: "asc" },
+    });
+  } catch (error) {
+    console.error("Error listing ingredients:", error);
+    return [];
+  }
+}
+
+/**
+ * Creates an ingredient for a hotel; names are unique per hotel
+ */
+export async function createIngredient(
+  hotelId: number,
+  input: IngredientInput
+): Promise<TenantResult<{ id: number }>> {
+  try {
+    const existing = await prisma.ingredient.findUnique({
+      where: { hotelId_name: { hotelId, name: input.name } },
+      select: { id: true },
+    });
+
+    if (existing) {
+      return {
+        success: false,
+        code: "CONFLICT",
+        message: "An ingredient with this name already exists",
+      };
+    }
+
+    const ingredient = await prisma.ingredient.create({
+      data: {
+        hotelId,
+        name: input.name,
+        unit: input.unit,
+        stock: input.stock ?? 0,
+      },
+    });
+
+    return {
+      success: true,
+      data: { id: ingredient.id },
+      message: "Ingredient created successfully",
+    };
+  } catch (error) {
+    console.error("Error creating ingredient:", error);
+    return {
+      success: false,
+      message: "Failed to create ingredient",
+    };
+  }
+}
+
+/**
+ * Updates an ingredient's name, unit or stock level
+ */
+export async function updateIngredient(
+  hotelId: number,
+  ingredientId: number,
+  input: IngredientUpdate
+): Promise<TenantResult<{ id: number }>> {
+  try {
+    const existing = await prisma.ingredient.findFirst({
+      where: { id: ingredientId, hotelId },
+      select: { id: true },
+    });
+
+    if (!existing) {
+      return {
+        success: false,
+        code: "NOT_FOUND",
+        message: "Ingredient not found",
+      };
+    }
+
+    if (input.name !== undefined) {
+      const clash = await prisma.ingredient.findFirst({
+        where: { hotelId, name: input.name, id: { not: ingredientId } },
+        select: { id: true },
+      });
+
+      if (clash) {
+        return {
+          success: false,
+          code: "CONFLICT",
+          message: "An ingredient with this name already exists",
+        };
+      }
+    }
+
+    await prisma.ingredient.update({
+      where: { id: ingredientId },
+      data: {
+        ...(input.name !== undefined && { name: input.name }),
+        ...(input.unit !== undefined && { unit: input.unit }),
+        ...(input.stock !== undefined && { stock: input.stock }),
+      },
+    });
+
+    return {
+      success: true,
+      data: { id: ingredientId },
+      message: "Ingredient updated successfully",
+    };
+  } catch (error) {
+    console.error("Error updating ingredient:", error);
+    return {
+      success: false,
+      message: "Failed to update ingredient",
+    };
+  }
+}
+
+/**
+ * Deletes an ingredient that no recipe uses
+ */
+export async function deleteIngredient(
+  hotelId: number,
+  ingredientId: number
+): Promise<TenantResult<{ id: number }>> {
+  try {
+    const existing = await prisma.ingredient.findFirst({
+      where: { id: ingredientId, hotelId },
+      include: { _count: { select: { recipeLines: true } } },
+    });
+
+    if (!existing) {
+      return {
+        success: false,
+        code: "NOT_FOUND",
+        message: "Ingredient not found",
+      };
+    }
+
+    if (existing._count.recipeLines > 0) {
+      return {
+        success: false,
+        code: "CONFLICT",
+        message: "Ingredient is used in recipes; remove it from them first",
+      };
+    }
+
+    await prisma.ingredient.delete({ where: { id: ingredientId } });
+
+    return {
+      success: true,
+      data: { id: ingredientId },
+      message: "Ingredient deleted successfully",
+    };
+  } catch (error) {
+    console.error("Error deleting ingredient:", error);
+    return {
+      success: false,
+      message: "Failed to delete ingredient",
+    };
+  }
+}
+
+// ============================================
+// Recipes
+// ============================================
+
+/**
+ * Checks that a menu item or modifier option belongs to the hotel
+ */
+async function recipeTargetBelongsToHotel(hotelId: number, target: RecipeTarget): Promise<boolean> {
+  const found =
+    "menuItemId" in target
+      ? await prisma.menuItem.findFirst({
+          where: { id: target.menuItemId, hotelId },
+          select: { id: true },
+        })
+      : await prisma.modifierOption.findFirst({
+          where: { id: target.optionId, hotelId },
+          select: { id: true },
+        });
+
+  return !!found;
+}
+
+/**
+ * Gets the recipe of a hotel's menu item or modifier option
+ * Returns null if the item or option doesn't belong to the hotel
+ */
+export async function getRecipe(hotelId: number, target: RecipeTarget) {
+  try {
+    if (!(await recipeTargetBelongsToHotel(hotelId, target))) {
+      return null;
+    }
+
+    return await prisma.recipeLine.findMany({
+      where: { hotelId, ...target },
+      include: { ingredient: { select: { id: true, name: true, unit: true } } },
+      orderBy: { id: "asc" },
+    });
+  } catch (error) {
+    console.error("Error getting recipe:", error);
+    return null;
+  }
+}
+
+/**
+ * Replaces the recipe of a hotel's menu item or modifier option
+ * An empty list removes the recipe
+ */
+export async function setRecipe(
+  hotelId: number,
+  target: RecipeTarget,
+  lines: RecipeLineInput[]
+): Promise<TenantResult<{ lines: number }>> {
+  try {
+    if (!(await recipeTargetBelongsToHotel(hotelId, target))) {
+      return {
+        success: false,
+        code: "NOT_FOUND",
+        message: "menuItemId" in target ? "Menu item not found" : "Modifier option not found",
+      };
+    }
+
+    const ingredientIds = lines.map((line) => line.ingredientId);
+    if (new Set(ingredientIds).size !== ingredientIds.length) {
+      return {
+        success: false,
+        code: "INVALID",
+        message: "Each ingredient can only appear once in a recipe",
+      };
+    }
+
+    const found = await prisma.ingredient.count({
+      where: { id: { in: ingredientIds }, hotelId },
+    });
+
+    if (found !== ingredientIds.length) {
+      return {
+        success: false,
+        code: "INVALID",
+        message: "Ingredient not found in this hotel",
+      };
+    }
+
+    await prisma.$transaction([
+      prisma.recipeLine.deleteMany({ where: { hotelId, ...target } }),
+      prisma.recipeLine.createMany({
+        data: lines.map((line) => ({
+          hotelId,
+          ...target,
+          ingredientId: line.ingredientId,
+          quantity: line.quantity,
+        })),
+      }),
+      // Moves the public menu's Last-Modified forward
+      prisma.hotel.update({ where: { id: hotelId }, data: { updatedAt: new Date() } }),
+    ]);
+
+    return {
+      success: true,
+      data: { lines: lines.length },
+      message: "Recipe saved successfully",
+    };
+  } catch (error) {
+    console.error("Error saving recipe:", error);
+    return {
+      success: false,
+      message: "Failed to save recipe",
+    };
+  }
+}
@@ -0,0 +1,454 @@
+import { prisma } from "../../lib/prisma.js";
+import type { OrderStatus, PaymentMethod, Prisma } from "../../generated/prisma/client.js";
+import {
+  addMoney,
+  compareMoney,
+  divideMoney,
+  formatMoney,
+  multiplyMoney,
+  toMoney,
+  zeroMoney,
+  type Money,
+} from "./money.helper.js";
+import { getLocalTime } from "./schedule.helper.js";
+import type { TenantResult } from "./tenant.helper.js";
+
+// ============================================
+// Types & Interfaces
+// ============================================
+
+/**
+ * Inclusive range of hotel-local dates ("YYYY-MM-DD")
+ */
+export interface ReportRange {
+  from: string;
+  to: string;
+}
+
+export interface ReportPeriod extends ReportRange {
+  timezone: string;
+  currency: string; // Code every amount in the report is in
+}
+
+interface SalesFigures {
+  orders: number;
+  units: number;
+  gross: string; // Order lines as priced on the menu
+  discounts: string; // Promotions taken off gross
+  tax: string; // Part of gross when prices include tax
+  serviceCharge: string;
+  tips: string;
+  total: string; // What guests were charged
+}
+
+export interface SalesReport {
+  period: ReportPeriod;
+  summary: SalesFigures & { averageTicket: string };
+  byDay: (SalesFigures & { date: string })[];
+  byHour: (SalesFigures & { hour: number })[];
+  byCategory: (Pick<SalesFigures, "units" | "gross"> & { categoryId: number; name: string })[];
+  byItem: (Pick<SalesFigures, "units" | "gross"> & { menuItemId: number; name: string })[];
+}
+
+export interface PaymentReport {
+  period: ReportPeriod;
+  byMethod: { method: PaymentMethod; payments: number; amount: string; refunded: string }[];
+}
+
+export interface OperationsReport {
+  period: ReportPeriod;
+  transitions: {
+    fromStatus: OrderStatus;
+    toStatus: OrderStatus;
+    count: number;
+    averageSeconds: number;
+  }[];
+}
+
+const DEFAULT_RANGE_DAYS = 30;
+const MAX_RANGE_DAYS = 366;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ============================================
+// Date Ranges
+// ============================================
+
+/**
+ * Moves a "YYYY-MM-DD" date by a number of days
+ */
+function shiftDate(date: string, days: number): string {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+/**
+ * Fills in a report range, defaulting to the last 30 hotel-local days
+ * Returns an error message for inverted or overly long ranges
+ */
+function resolveRange(timezone: string, range: Partial<ReportRange>): ReportRange | string {
+  const to = range.to ?? getLocalTime(new Date(), timezone).date;
+  const from = range.from ?? shiftDate(to, -(DEFAULT_RANGE_DAYS - 1));
+
+  if (from > to) {
+    return "Start date cannot be after end date";
+  }
+  if (shiftDate(from, MAX_RANGE_DAYS) <= to) {
+    return `Reports cover at most ${MAX_RANGE_DAYS} days`;
+  }
+
+  return { from, to };
+}
+
+/**
+ * UTC instants safely enclosing a range of local dates in any time zone
+ * Rows are then filtered on their exact local date
+ */
+function utcWindow(range: ReportRange): { gte: Date; lt: Date } {
+  return {
+    gte: new Date(Date.parse(`${shiftDate(range.from, -1)}T00:00:00Z`)),
+    lt: new Date(Date.parse(`${shiftDate(range.to, 2)}T00:00:00Z`)),
+  };
+}
+
+/**
+ * Loads the hotel's time zone and currency and resolves the requested
+ * range in that time zone
+ */
+async function loadPeriod(
+  hotelId: number,
+  range: Partial<ReportRange>
+): Promise<TenantResult<ReportPeriod>> {
+  const hotel = await prisma.hotel.findUnique({
+    where: { id: hotelId },
+    select: { timezone: true, currency: true },
+  });
+
+  if (!hotel) {
+    return {
+      success: false,
+      code: "NOT_FOUND",
+      message: "Hotel not found",
+    };
+  }
+
+  const resolved = resolveRange(hotel.timezone, range);
+  if (typeof resolved === "string") {
+    return {
+      success: false,
+      code: "INVALID",
+      message: resolved,
+    };
+  }
+
+  return {
+    success: true,
+    data: { ...resolved, timezone: hotel.timezone, currency: hotel.currency },
+    message: "Period resolved",
+  };
+}
+
+// ============================================
+// Reports
+// ============================================
+
+/**
+ * Sales by local day, hour, category and item, with the average ticket
+ * Cancelled orders are excluded; every figure is computed from the
+ * orders' snapshotted lines and totals, not current menu prices or rates.
+ * Categories and items only have gross sales, since discounts, taxes and
+ * service charges are computed per order
+ */
+export async function getSalesReport(
+  hotelId: number,
+  range: Partial<ReportRange> = {}
+): Promise<TenantResult<SalesReport>> {
+  try {
+    const period = await loadPeriod(hotelId, range);
+    if (!period.success) {
+      return { success: false, code: period.code!, message: period.message };
+    }
+    const { timezone, currency } = period.data!;
+
+    const orders = await prisma.order.findMany({
+      where: { hotelId, status: { not: "CANCELLED" }, createdAt: utcWindow(period.data!) },
+      select: {
+        createdAt: true,
+        currency: true,
+        discountTotal: true,
+        taxTotal: true,
+        serviceCharge: true,
+        tip: true,
+        total: true,
+        orderItems: {
+          select: {
+            quantity: true,
+            price: true,
+            menuItem: {
+              select: { id: true, name: true, category: { select: { id: true, name: true } } },
+            },
+          },
+        },
+      },
+    });
+
+    const zero = () => ({
+      orders: 0,
+      units: 0,
+      gross: zeroMoney(currency),
+      discounts: zeroMoney(currency),
+      tax: zeroMoney(currency),
+      serviceCharge: zeroMoney(currency),
+      tips: zeroMoney(currency),
+      total: zeroMoney(currency),
+    });
+    const summary = zero();
+    const byDay = new Map<string, ReturnType<typeof zero>>();
+    const byHour = new Map<number, ReturnType<typeof zero>>();
+    const byCategory = new Map<number, { name: string; units: number; gross: Money }>();
+    const byItem = new Map<number, { name: string; units: number; gross: Money }>();
+
+    for (const order of orders) {
+      const local = getLocalTime(order.createdAt, timezone);
+      if (local.date < period.data!.from || local.date > period.data!.to) continue;
+
+      const hour = parseInt(local.time.slice(0, 2), 10);
+      const day = byDay.get(local.date) ?? zero();
+      const slot = byHour.get(hour) ?? zero();
+      byDay.set(local.date, day);
+      byHour.set(hour, slot);
+
+      const money = (amount: Prisma.Decimal) => toMoney(amount, order.currency);
+      for (const totals of [summary, day, slot]) {
+        totals.orders += 1;
+        totals.discounts = addMoney(totals.discounts, money(order.discountTotal));
+        totals.tax = addMoney(totals.tax, money(order.taxTotal));
+        totals.serviceCharge = addMoney(totals.serviceCharge, money(order.serviceCharge));
+        totals.tips = addMoney(totals.tips, money(order.tip));
+        totals.total = addMoney(totals.total, money(order.total));
+      }
+
+      for (const line of order.orderItems) {
+        const lineTotal = multiplyMoney(toMoney(line.price, order.currency), line.quantity);
+        const { menuItem } = line;
+
+        for (const totals of [summary, day, slot]) {
+          totals.units += line.quantity;
+          totals.gross = addMoney(totals.gross, lineTotal);
+        }
+
+        const category = byCategory.get(menuItem.category.id) ?? {
+          name: menuItem.category.name,
+          units: 0,
+          gross: zeroMoney(currency),
+        };
+        category.units += line.quantity;
+        category.gross = addMoney(category.gross, lineTotal);
+        byCategory.set(menuItem.category.id, category);
+
+        const item = byItem.get(menuItem.id) ?? {
+          name: menuItem.name,
+          units: 0,
+          gross: zeroMoney(currency),
+        };
+        item.units += line.quantity;
+        item.gross = addMoney(item.gross, lineTotal);
+        byItem.set(menuItem.id, item);
+      }
+    }
+
+    const figures = (totals: ReturnType<typeof zero>): SalesFigures => ({
+      orders: totals.orders,
+      units: totals.units,
+      gross: formatMoney(totals.gross),
+      discounts: formatMoney(totals.discounts),
+      tax: formatMoney(totals.tax),
+      serviceCharge: formatMoney(totals.serviceCharge),
+      tips: formatMoney(totals.tips),
+      total: formatMoney(totals.total),
+    });
+
+    return {
+      success: true,
+      data: {
+        period: period.data!,
+        summary: {
+          ...figures(summary),
+          averageTicket: formatMoney(
+            summary.orders > 0 ? divideMoney(summary.total, summary.orders) : summary.total
+          ),
+        },
+        byDay: [...byDay]
+          .sort(([a], [b]) => a.localeCompare(b))
+          .map(([date, totals]) => ({ date, ...figures(totals) })),
+        byHour: [...byHour]
+          .sort(([a], [b]) => a - b)
+          .map(([hour, totals]) => ({ hour, ...figures(totals) })),
+        byCategory: [...byCategory]
+          .map(([categoryId, totals]) => ({
+            categoryId,
+            name: totals.name,
+            units: totals.units,
+            gross: totals.gross,
+          }))
+          .sort((a, b) => compareMoney(b.gross, a.gross))
+          .map((category) => ({ ...category, gross: formatMoney(category.gross) })),
+        byItem: [...byItem]
+          .map(([menuItemId, totals]) => ({
+            menuItemId,
+            name: totals.name,
+            units: totals.units,
+            gross: totals.gross,
+          }))
+          .sort((a, b) => compareMoney(b.gross, a.gross))
+          .map((item) => ({ ...item, gross: formatMoney(item.gross) })),
+      },
+      message: "Sales report generated",
+    };
+  } catch (error) {
+    console.error("Error generating sales report:", error);
+    return {
+      success: false,
+      message: "Failed to generate sales report",
+    };
+  }
+}
+
+/**
+ * Collected payments and refunds per payment method
+ * Only payments that completed (even if later refunded) are counted
+ */
+export async function getPaymentReport(
+  hotelId: number,
+  range: Partial<ReportRange> = {}
+): Promise<TenantResult<PaymentReport>> {
+  try {
+    const period = await loadPeriod(hotelId, range);
+    if (!period.success) {
+      return { success: false, code: period.code!, message: period.message };
+    }
+    const { currency } = period.data!;
+
+    const payments = await prisma.payment.findMany({
+      where: {
+        hotelId,
+        status: { in: ["COMPLETED", "PARTIALLY_REFUNDED", "REFUNDED"] },
+        createdAt: utcWindow(period.data!),
+      },
+      select: {
+        method: true,
+        amount: true,
+        currency: true,
+        createdAt: true,
+        refunds: { where: { status: "COMPLETED" }, select: { amount: true } },
+      },
+    });
+
+    const byMethod = new Map<PaymentMethod, { payments: number; amount: Money; refunded: Money }>();
+
+    for (const payment of payments) {
+      const date = getLocalTime(payment.createdAt, period.data!.timezone).date;
+      if (date < period.data!.from || date > period.data!.to) continue;
+
+      const totals = byMethod.get(payment.method) ?? {
+        payments: 0,
+        amount: zeroMoney(currency),
+        refunded: zeroMoney(currency),
+      };
+      totals.payments += 1;
+      totals.amount = addMoney(totals.amount, toMoney(payment.amount, payment.currency));
+      totals.refunded = payment.refunds.reduce(
+        (total, refund) => addMoney(total, toMoney(refund.amount, payment.currency)),
+        totals.refunded
+      );
+      byMethod.set(payment.method, totals);
+    }
+
+    return {
+      success: true,
+      data: {
+        period: period.data!,
+        byMethod: [...byMethod].map(([method, totals]) => ({
+          method,
+          payments: totals.payments,
+          amount: formatMoney(totals.amount),
+          refunded: formatMoney(totals.refunded),
+        })),
+      },
+      message: "Payment report generated",
+    };
+  } catch (error) {
+    console.error("Error generating payment report:", error);
+    return {
+      success: false,
+      message: "Failed to generate payment report",
+    };
+  }
+}
+
+/**
+ * Average time orders spend in each status before moving on, per transition
+ * Covers orders placed within the range, from their status history
+ */
+export async function getOperationsReport(
+  hotelId: number,
+  range: Partial<ReportRange> = {}
+): Promise<TenantResult<OperationsReport>> {
+  try {
+    const period = await loadPeriod(hotelId, range);
+    if (!period.success) {
+      return { success: false, code: period.code!, message: period.message };
+    }
+
+    const orders = await prisma.order.findMany({
+      where: { hotelId, createdAt: utcWindow(period.data!) },
+      select: {
+        createdAt: true,
+        statusHistory: {
+          select: { fromStatus: true, toStatus: true, createdAt: true },
+          orderBy: { id: "asc" },
+        },
+      },
+    });
+
+    const transitions = new Map<string, { count: number; totalMs: number }>();
+
+    for (const order of orders) {
+      const date = getLocalTime(order.createdAt, period.data!.timezone).date;
+      if (date < period.data!.from || date > period.data!.to) continue;
+
+      // Each entry ends the time spent in its fromStatus, which began at the previous entry
+      order.statusHistory.forEach((entry, index) => {
+        const previous = order.statusHistory[index - 1];
+        if (!entry.fromStatus || !previous) return;
+
+        const key = `${entry.fromStatus}>${entry.toStatus}`;
+        const totals = transitions.get(key) ?? { count: 0, totalMs: 0 };
+        totals.count += 1;
+        totals.totalMs += entry.createdAt.getTime() - previous.createdAt.getTime();
+        transitions.set(key, totals);
+      });
+    }
+
+    return {
+      success: true,
+      data: {
+        period: period.data!,
+        transitions: [...transitions].map(([key, totals]) => {
+          const [fromStatus, toStatus] = key.split(">") as [OrderStatus, OrderStatus];
+          return {
+            fromStatus,
+            toStatus,
+            count: totals.count,
+            averageSeconds: Math.round(totals.totalMs / totals.count / 1000),
+          };
+        }),
+      },
+      message: "Operations report generated",
+    };
+  } catch (error) {
+    console.error("Error generating operations report:", error);
+    return {
+      success: false,
+      message: "Failed to generate operations report",
+    };
+  }
+}
@@ -0,0 +1,432 @@
+import { prisma } from "../../lib/prisma.js";
+import type { TenantResult } from "./tenant.helper.js";
+
+// ============================================
+// Types & Interfaces
+// ============================================
+
+/**
+ * A moment as seen on the hotel's wall clock
+ */
+export interface LocalTime {
+  dayOfWeek: number; // ISO weekday, 1 = Monday ... 7 = Sunday
+  date: string; // "YYYY-MM-DD"
+  time: string; // "HH:MM"
+  secondsIntoDay: number;
+}
+
+export interface ScheduleWindow {
+  daysOfWeek: string;
+  startTime: string;
+  endTime: string;
+  startDate: string | null;
+  endDate: string | null;
+}
+
+export interface ScheduleInput {
+  categoryId?: number;
+  menuItemId?: number;
+  daysOfWeek: number[];
+  startTime: string;
+  endTime: string;
+  startDate?: string | null;
+  endDate?: string | null;
+}
+
+const WEEKDAYS: Record<string, number> = {
+  Mon: 1,
+  Tue: 2,
+  Wed: 3,
+  Thu: 4,
+  Fri: 5,
+  Sat: 6,
+  Sun: 7,
+};
+
+const TIME_PATTERN = /^(?:[01]\d|2[0-3]):[0-5]\d$/;
+const DATE_PATTERN = /^\d{4}-(?:0[1-9]|1[0-2])-(?:0[1-9]|[12]\d|3[01])$/;
+
+// ============================================
+// Time Zone Evaluation
+// ============================================
+
+/**
+ * Checks that a string is an IANA time zone the runtime understands
+ */
+export function isValidTimeZone(timeZone: unknown): timeZone is string {
+  if (typeof timeZone !== "string" || !timeZone) return false;
+
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Checks an "HH:MM" time; end times may also be "24:00"
+ */
+export function isValidTime(value: unknown, allowEndOfDay = false): value is string {
+  return typeof value === "string" && (TIME_PATTERN.test(value) || (allowEndOfDay && value === "24:00"));
+}
+
+/**
+ * Checks a "YYYY-MM-DD" date
+ */
+export function isValidDate(value: unknown): value is string {
+  return typeof value === "string" && DATE_PATTERN.test(value);
+}
+
+/**
+ * Reads the wall-clock weekday, date and time of an instant in a time zone
+ */
+export function getLocalTime(at: Date, timeZone: string): LocalTime {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      weekday: "short",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+      hourCycle: "h23",
+    })
+      .formatToParts(at)
+      .map((part) => [part.type, part.value])
+  );
+
+  return {
+    dayOfWeek: WEEKDAYS[parts.weekday!]!,
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    time: `${parts.hour}:${parts.minute}`,
+    secondsIntoDay:
+      parseInt(parts.hour!, 10) * 3600 + parseInt(parts.minute!, 10) * 60 + parseInt(parts.second!, 10),
+  };
+}
+
+/**
+ * The instant the hotel's current local day ends
+ */
+export function endOfLocalDay(at: Date, timeZone: string): Date {
+  const local = getLocalTime(at, timeZone);
+  const remainingMs = (24 * 3600 - local.secondsIntoDay) * 1000 - at.getMilliseconds();
+  return new Date(at.getTime() + remainingMs);
+}
+
+/**
+ * Checks whether one schedule is active at a local time
+ * A window whose end is before its start runs past midnight, and its
+ * after-midnight tail belongs to the previous day's weekday
+ */
+export function isScheduleActive(schedule: ScheduleWindow, local: LocalTime): boolean {
+  if (schedule.startDate && local.date < schedule.startDate) return false;
+  if (schedule.endDate && local.date > schedule.endDate) return false;
+
+  const days = schedule.daysOfWeek.split(",").map(Number);
+  const previousDay = local.dayOfWeek === 1 ? 7 : local.dayOfWeek - 1;
+
+  if (schedule.startTime <= schedule.endTime) {
+    return (
+      days.includes(local.dayOfWeek) &&
+      local.time >= schedule.startTime &&
+      local.time < schedule.endTime
+    );
+  }
+
+  return (
+    (days.includes(local.dayOfWeek) && local.time >= schedule.startTime) ||
+    (days.includes(previousDay) && local.time < schedule.endTime)
+  );
+}
+
+/**
+ * Checks a category's or item's schedules; no schedules means always available
+ */
+export function isWithinSchedules(schedules: ScheduleWindow[], local: LocalTime): boolean {
+  return schedules.length === 0 || schedules.some((schedule) => isScheduleActive(schedule, local));
+}
+
+/**
+ * Checks whether a menu item can be ordered right now: its category's and
+ * its own schedules are open and it hasn't been 86'd
+ */
+export function isItemOrderableNow(
+  item: { unavailableUntil: Date | null; schedules: ScheduleWindow[] },
+  categorySchedules: ScheduleWindow[],
+  local: LocalTime,
+  now: Date
+): boolean {
+  if (item.unavailableUntil && item.unavailableUntil > now) return false;
+  return isWithinSchedules(categorySchedules, local) && isWithinSchedules(item.schedules, local);
+}
+
+// ============================================
+// Hotel Time Zone
+// ============================================
+
+/**
+ * Sets the time zone a hotel's schedules are evaluated in
+ */
+export async function setHotelTimeZone(
+  hotelId: number,
+  timeZone: string
+): Promise<TenantResult<{ timezone: string }>> {
+  try {
+    if (!isValidTimeZone(timeZone)) {
+      return {
+        success: false,
+        code: "INVALID",
+        message: "Unknown time zone",
+      };
+    }
+
+    const hotel = await prisma.hotel.update({
+      where: { id: hotelId },
+      data: { timezone: timeZone },
+    });
+
+    return {
+      success: true,
+      data: { timezone: hotel.timezone },
+      message: "Time zone updated successfully",
+    };
+  } catch (error) {
+    console.error("Error setting hotel time zone:", error);
+    return {
+      success: false,
+      message: "Failed to update time zone",
+    };
+  }
+}
+
+// ============================================
+// Availability Schedules
+// ============================================
+
+/**
+ * Lists a hotel's availability schedules, optionally for one category or item
+ */
+export async function listSchedules(
+  hotelId: number,
+  filter: { categoryId?: number; menuItemId?: number } = {}
+) {
+  try {
+    return await prisma.availabilitySchedule.findMany({
+      where: {
+        hotelId,
+        ...(filter.categoryId !== undefined && { categoryId: filter.categoryId }),
+        ...(filter.menuItemId !== undefined && { menuItemId: filter.menuItemId }),
+      },
+      orderBy: { id: "asc" },
+    });
+  } catch (error) {
+    console.error("Error listing availability schedules:", error);
+    return [];
+  }
+}
+
+/**
+ * Adds an availability schedule to one of a hotel's categories or items
+ */
+export async function createSchedule(
+  hotelId: number,
+  input: ScheduleInput
+): Promise<TenantResult<{ id: number }>> {
+  try {
+    if ((input.categoryId === undefined) === (input.menuItemId === undefined)) {
+      return {
+        success: false,
+        code: "INVALID",
+        message: "A schedule applies to exactly one category or menu item",
+      };
+    }
+
+    if (input.startTime === input.endTime) {
+      return {
+        success: false,
+        code: "INVALID",
+        message: "Start and end time must differ",
+      };
+    }
+
+    if (input.startDate && input.endDate && input.startDate > input.endDate) {
+      return {
+        success: false,
+        code: "INVALID",
+        message: "Start date cannot be after end date",
+      };
+    }
+
+    const target =
+      input.categoryId !== undefined
+        ? await prisma.menuCategory.findFirst({
+            where: { id: input.categoryId, hotelId },
+            select: { id: true },
+          })
+        : await prisma.menuItem.findFirst({
+            where: { id: input.menuItemId!, hotelId },
+            select: { id: true },
+          });
+
+    if (!target) {
+      return {
+        success: false,
+        code: "INVALID",
+        message:
+          input.categoryId !== undefined
+            ? "Category not found in this hotel"
+            : "Menu item not found in this hotel",
+      };
+    }
+
+    const schedule = await prisma.availabilitySchedule.create({
+      data: {
+        hotelId,
+        categoryId: input.categoryId ?? null,
+        menuItemId: input.menuItemId ?? null,
+        daysOfWeek: [...new Set(input.daysOfWeek)].sort((a, b) => a - b).join(","),
+        startTime: input.startTime,
+        endTime: input.endTime,
+        startDate: input.startDate ?? null,
+        endDate: input.endDate ?? null,
+      },
+    });
+
+    return {
+      success: true,
+      data: { id: schedule.id },
+      message: "Schedule created successfully",
+    };
+  } catch (error) {
+    console.error("Error creating availability schedule:", error);
+    return {
+      success: false,
+      message: "Failed to create schedule",
+    };
+  }
+}
+
+/**
+ * Deletes one of a hotel's availability schedules
+ */
+export async function deleteSchedule(
+  hotelId: number,
+  scheduleId: number
+): Promise<TenantResult<{ id: number }>> {
+  try {
+    const existing = await prisma.availabilitySchedule.findFirst({
+      where: { id: scheduleId, hotelId },
+      select: { id: true },
+    });
+
+    if (!existing) {
+      return {
+        success: false,
+        code: "NOT_FOUND",
+        message: "Schedule not found",
+      };
+    }
+
+    await prisma.$transaction([
+      prisma.availabilitySchedule.delete({ where: { id: scheduleId } }),
+      // Moves the public menu's Last-Modified forward
+      prisma.hotel.update({ where: { id: hotelId }, data: { updatedAt: new Date() } }),
+    ]);
+
+    return {
+      success: true,
+      data: { id: scheduleId },
+      message: "Schedule deleted successfully",
+    };
+  } catch (error) {
+    console.error("Error deleting availability schedule:", error);
+    return {
+      success: false,
+      message: "Failed to delete schedule",
+    };
+  }
+}
+
+// ============================================
+// 86'ing Items
+// ============================================
+
+/**
+ * Marks a menu item unavailable until the end of the hotel's local day
+ * Stock is left untouched
+ */
+export async function eightySixMenuItem(
+  hotelId: number,
+  itemId: number
+): Promise<TenantResult<{ unavailableUntil: Date }>> {
+  try {
+    const item = await prisma.menuItem.findFirst({
+      where: { id: itemId, hotelId },
+      select: { hotel: { select: { timezone: true } } },
+    });
+
+    if (!item) {
+      return {
+        success: false,
+        code: "NOT_FOUND",
+        message: "Menu item not found",
+      };
+    }
+
+    const unavailableUntil = endOfLocalDay(new Date(), item.hotel.timezone);
+    await prisma.menuItem.update({
+      where: { id: itemId },
+      data: { unavailableUntil },
+    });
+
+    return {
+      success: true,
+      data: { unavailableUntil },
+      message: "Menu item marked unavailable for the rest of the day",
+    };
+  } catch (error) {
+    console.error("Error 86'ing menu item:", error);
+    return {
+      success: false,
+      message: "Failed to mark menu item unavailable",
+    };
+  }
+}
+
+/**
+ * Makes an 86'd menu item orderable again before the day ends
+ */
+export async function restoreMenuItem(
+  hotelId: number,
+  itemId: number
+): Promise<TenantResult<{ id: number }>> {
+  try {
+    const updated = await prisma.menuItem.updateMany({
+      where: { id: itemId, hotelId },
+      data: { unavailableUntil: null },
+    });
+
+    if (updated.count === 0) {
+      return {
+        success: false,
+        code: "NOT_FOUND",
+        message: "Menu item not found",
+      };
+    }
+
+    return {
+      success: true,
+      data: { id: itemId },
+      message: "Menu item available again",
+    };
+  } catch (error) {
+    console.error("Error restoring menu item:", error);
+    return {
+      success: false,
+      message: "Failed to restore menu item",
+    };
+  }
+}
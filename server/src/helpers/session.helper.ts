@@ -0,0 +1,200 @@
+import crypto from "node:crypto";
+import { prisma } from "../../lib/prisma.js";
+
+// ============================================
+// Types & Interfaces
+// ============================================
+
+/**
+ * The user a session belongs to
+ */
+export type SessionOwner = { adminId: number } | { guestId: number };
+
+export interface CreateSessionResult {
+  sessionId: string;
+  refreshToken: string;
+  refreshExpiresAt: Date;
+}
+
+export interface RotateRefreshTokenResult {
+  success: boolean;
+  sessionId?: string;
+  adminId?: number;
+  guestId?: number;
+  refreshToken?: string;
+  refreshExpiresAt?: Date;
+  reuseDetected?: boolean;
+  message: string;
+}
+
+// Refresh tokens live much longer than access tokens
+const REFRESH_TOKEN_TTL_DAYS = parseInt(process.env.REFRESH_TOKEN_TTL_DAYS || "30", 10);
+
+// ============================================
+// Refresh Token Handling
+// ============================================
+
+/**
+ * Generates an opaque refresh token
+ */
+function generateRefreshToken(): string {
+  return crypto.randomBytes(48).toString("base64url");
+}
+
+/**
+ * Hashes a refresh token for storage and lookup
+ */
+function hashRefreshToken(token: string): string {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+function refreshExpiry(): Date {
+  const expiresAt = new Date();
+  expiresAt.setDate(expiresAt.getDate() + REFRESH_TOKEN_TTL_DAYS);
+  return expiresAt;
+}
+
+// ============================================
+// Session Management
+// ============================================
+
+/**
+ * Starts a new session for an admin or guest and issues its first refresh token
+ */
+export async function createSession(owner: SessionOwner): Promise<CreateSessionResult> {
+  const refreshToken = generateRefreshToken();
+  const refreshExpiresAt = refreshExpiry();
+
+  const session = await prisma.authSession.create({
+    data: {
+      ...owner,
+      refreshTokens: {
+        create: { tokenHash: hashRefreshToken(refreshToken), expiresAt: refreshExpiresAt },
+      },
+    },
+  });
+
+  return { sessionId: session.id, refreshToken, refreshExpiresAt };
+}
+
+/**
+ * Exchanges a refresh token for a new one in the same session
+ * Presenting an already rotated token means it was stolen or replayed,
+ * so the whole session (token family) is revoked
+ */
+export async function rotateRefreshToken(token: string): Promise<RotateRefreshTokenResult> {
+  try {
+    const stored = await prisma.refreshToken.findUnique({
+      where: { tokenHash: hashRefreshToken(token) },
+      include: { session: true },
+    });
+
+    if (!stored || stored.session.revokedAt) {
+      return {
+        success: false,
+        message: "Invalid refresh token",
+      };
+    }
+
+    // Mark the token used; only one concurrent rotation can win
+    const claimed = await prisma.refreshToken.updateMany({
+      where: { id: stored.id, usedAt: null },
+      data: { usedAt: new Date() },
+    });
+
+    if (claimed.count === 0) {
+      await revokeSession(stored.sessionId);
+      return {
+        success: false,
+        reuseDetected: true,
+        message: "Refresh token reuse detected; session revoked",
+      };
+    }
+
+    if (stored.expiresAt <= new Date()) {
+      return {
+        success: false,
+        message: "Refresh token expired",
+      };
+    }
+
+    const refreshToken = generateRefreshToken();
+    const refreshExpiresAt = refreshExpiry();
+
+    await prisma.authSession.update({
+      where: { id: stored.sessionId },
+      data: {
+        lastUsedAt: new Date(),
+        refreshTokens: {
+          create: { tokenHash: hashRefreshToken(refreshToken), expiresAt: refreshExpiresAt },
+        },
+      },
+    });
+
+    return {
+      success: true,
+      sessionId: stored.sessionId,
+      ...(stored.session.adminId !== null && { adminId: stored.session.adminId }),
+      ...(stored.session.guestId !== null && { guestId: stored.session.guestId }),
+      refreshToken,
+      refreshExpiresAt,
+      message: "Refresh token rotated",
+    };
+  } catch (error) {
+    console.error("Error rotating refresh token:", error);
+    return {
+      success: false,
+      message: "Failed to refresh session",
+    };
+  }
+}
+
+/**
+ * Revokes a single session (logout)
+ */
+export async function revokeSession(sessionId: string): Promise<boolean> {
+  try {
+    await prisma.authSession.updateMany({
+      where: { id: sessionId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+    return true;
+  } catch (error) {
+    console.error("Error revoking session:", error);
+    return false;
+  }
+}
+
+/**
+ * Revokes every session of an admin or guest (log out everywhere)
+ * Returns the number of sessions revoked, or null on failure
+ */
+export async function revokeAllSessions(owner: SessionOwner): Promise<number | null> {
+  try {
+    const result = await prisma.authSession.updateMany({
+      where: { ...owner, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+    return result.count;
+  } catch (error) {
+    console.error("Error revoking sessions:", error);
+    return null;
+  }
+}
+
+/**
+ * Checks that a session exists, belongs to the owner and hasn't been revoked
+ * Used on every authenticated request so revocation takes effect immediately
+ */
+export async function isSessionActive(sessionId: string, owner: SessionOwner): Promise<boolean> {
+  try {
+    const session = await prisma.authSession.findFirst({
+      where: { id: sessionId, ...owner, revokedAt: null },
+      select: { id: true },
+    });
+    return !!session;
+  } catch (error) {
+    console.error("Error checking session:", error);
+    return false;
+  }
+}
@@ -0,0 +1,224 @@
+import { prisma } from "../../lib/prisma.js";
+import type { AdminRole } from "../../generated/prisma/client.js";
+import { sendNotification } from "./notification.helper.js";
+
+// ============================================
+// Types & Interfaces
+// ============================================
+
+export type StaffErrorCode = "NOT_FOUND" | "INVALID" | "CONFLICT";
+
+export interface StaffInput {
+  name: string;
+  email: string;
+  phone: string;
+  role: AdminRole;
+}
+
+export interface StaffResult {
+  success: boolean;
+  adminId?: number;
+  code?: StaffErrorCode;
+  message: string;
+}
+
+/**
+ * Thrown inside staff transactions to reject the change and roll back
+ */
+class StaffRejectedError extends Error {
+  constructor(
+    public readonly code: StaffErrorCode,
+    message: string
+  ) {
+    super(message);
+    this.name = "StaffRejectedError";
+  }
+}
+
+const staffSelect = {
+  id: true,
+  name: true,
+  email: true,
+  phone: true,
+  role: true,
+  createdAt: true,
+} as const;
+
+// ============================================
+// Staff Management
+// ============================================
+
+/**
+ * Lists the admins of a hotel
+ */
+export async function listStaff(hotelId: number) {
+  try {
+    return await prisma.admin.findMany({
+      where: { hotelId },
+      select: staffSelect,
+      orderBy: { name: "asc" },
+    });
+  } catch (error) {
+    console.error("Error listing staff:", error);
+    return [];
+  }
+}
+
+/**
+ * Invites a new admin to a hotel
+ * The invitee signs in through the normal passcode flow with their email
+ */
+export async function inviteStaff(hotelId: number, input: StaffInput): Promise<StaffResult> {
+  try {
+    const existing = await prisma.admin.findUnique({
+      where: { email: input.email },
+      select: { id: true },
+    });
+
+    if (existing) {
+      return {
+        success: false,
+        code: "CONFLICT",
+        message: "An admin with this email already exists",
+      };
+    }
+
+    const admin = await prisma.admin.create({
+      data: { ...input, hotelId },
+      include: { hotel: { select: { name: true } } },
+    });
+
+    await sendNotification("email", {
+      to: admin.email,
+      subject: `You've been added to ${admin.hotel.name} on ZapMenu`,
+      text: `You've been added as ${admin.role.toLowerCase()} of ${admin.hotel.name}. Sign in with this email address to get started.`,
+    });
+
+    return {
+      success: true,
+      adminId: admin.id,
+      message: "Staff member invited successfully",
+    };
+  } catch (error) {
+    console.error("Error inviting staff:", error);
+    return {
+      success: false,
+      message: "Failed to invite staff member",
+    };
+  }
+}
+
+/**
+ * Fails the surrounding transaction if removing an owner would leave the
+ * hotel without one
+ */
+async function assertNotLastOwner(
+  tx: Pick<typeof prisma, "admin">,
+  hotelId: number,
+  adminId: number
+): Promise<void> {
+  const otherOwners = await tx.admin.count({
+    where: { hotelId, role: "OWNER", id: { not: adminId } },
+  });
+
+  if (otherOwners === 0) {
+    throw new StaffRejectedError("CONFLICT", "A hotel must keep at least one owner");
+  }
+}
+
+/**
+ * Changes the role of one of a hotel's admins
+ * The last owner can never be demoted
+ */
+export async function changeStaffRole(
+  hotelId: number,
+  adminId: number,
+  role: AdminRole
+): Promise<StaffResult> {
+  try {
+    await prisma.$transaction(async (tx) => {
+      const admin = await tx.admin.findFirst({
+        where: { id: adminId, hotelId },
+        select: { role: true },
+      });
+
+      if (!admin) {
+        throw new StaffRejectedError("NOT_FOUND", "Staff member not found");
+      }
+
+      if (admin.role === "OWNER" && role !== "OWNER") {
+        await assertNotLastOwner(tx, hotelId, adminId);
+      }
+
+      await tx.admin.update({
+        where: { id: adminId },
+        data: { role },
+      });
+    });
+
+    return {
+      success: true,
+      adminId,
+      message: `Role changed to ${role}`,
+    };
+  } catch (error) {
+    if (error instanceof StaffRejectedError) {
+      return {
+        success: false,
+        code: error.code,
+        message: error.message,
+      };
+    }
+
+    console.error("Error changing staff role:", error);
+    return {
+      success: false,
+      message: "Failed to change role",
+    };
+  }
+}
+
+/**
+ * Removes an admin from a hotel
+ * Their sessions are deleted with them; the last owner can never be removed
+ */
+export async function removeStaff(hotelId: number, adminId: number): Promise<StaffResult> {
+  try {
+    await prisma.$transaction(async (tx) => {
+      const admin = await tx.admin.findFirst({
+        where: { id: adminId, hotelId },
+        select: { role: true },
+      });
+
+      if (!admin) {
+        throw new StaffRejectedError("NOT_FOUND", "Staff member not found");
+      }
+
+      if (admin.role === "OWNER") {
+        await assertNotLastOwner(tx, hotelId, adminId);
+      }
+
+      await tx.admin.delete({ where: { id: adminId } });
+    });
+
+    return {
+      success: true,
+      adminId,
+      message: "Staff member removed",
+    };
+  } catch (error) {
+    if (error instanceof StaffRejectedError) {
+      return {
+        success: false,
+        code: error.code,
+        message: error.message,
+      };
+    }
+
+    console.error("Error removing staff:", error);
+    return {
+      success: false,
+      message: "Failed to remove staff member",
+    };
+  }
+}
@@ -0,0 +1,329 @@
+import crypto from "node:crypto";
+import QRCode from "qrcode";
+import { prisma } from "../../lib/prisma.js";
+import type { TenantResult } from "./tenant.helper.js";
+
+// ============================================
+// Types & Interfaces
+// ============================================
+
+export interface TableInput {
+  label: string;
+  zone?: string | null;
+  active?: boolean;
+}
+
+export type TableUpdate = Partial<TableInput>;
+
+export type QrFormat = "svg" | "png";
+
+// Signs table tokens so guests can't forge a QR code for another table
+const TABLE_TOKEN_SECRET =
+  process.env.TABLE_TOKEN_SECRET || "your-table-token-secret-change-in-production";
+// Guest web app that QR codes and sign-in links point at
+const GUEST_APP_URL = process.env.GUEST_APP_URL || "http://localhost:5173";
+
+// ============================================
+// Table Tokens
+// ============================================
+
+function signTable(hotelId: number, tableId: number, tokenVersion: number): string {
+  return crypto
+    .createHmac("sha256", TABLE_TOKEN_SECRET)
+    .update(`${hotelId}.${tableId}.${tokenVersion}`)
+    .digest("base64url");
+}
+
+/**
+ * Builds the signed token printed in a table's QR code
+ * Format: <tableId>.<tokenVersion>.<signature>
+ */
+export function createTableToken(table: {
+  id: number;
+  hotelId: number;
+  tokenVersion: number;
+}): string {
+  return `${table.id}.${table.tokenVersion}.${signTable(table.hotelId, table.id, table.tokenVersion)}`;
+}
+
+/**
+ * Builds an absolute URL into the guest web app
+ */
+export function guestAppUrl(path: string): string {
+  return `${GUEST_APP_URL.replace(/\/$/, "")}${path}`;
+}
+
+/**
+ * URL encoded in a table's QR code
+ */
+export function getTableUrl(table: { id: number; hotelId: number; tokenVersion: number }): string {
+  return guestAppUrl(`/t/${createTableToken(table)}`);
+}
+
+/**
+ * Resolves a table token to its active table
+ * Returns null for malformed, forged or rotated tokens and inactive tables
+ */
+export async function resolveTableToken(token: string) {
+  const [rawId, rawVersion, signature] = token.split(".");
+  const tableId = parseInt(rawId ?? "", 10);
+  const tokenVersion = parseInt(rawVersion ?? "", 10);
+
+  if (isNaN(tableId) || isNaN(tokenVersion) || !signature) {
+    return null;
+  }
+
+  try {
+    const table = await prisma.table.findUnique({
+      where: { id: tableId },
+      select: { id: true, hotelId: true, label: true, zone: true, active: true, tokenVersion: true },
+    });
+
+    if (!table || !table.active || table.tokenVersion !== tokenVersion) {
+      return null;
+    }
+
+    const expected = Buffer.from(signTable(table.hotelId, table.id, table.tokenVersion));
+    const provided = Buffer.from(signature);
+    if (expected.length !== provided.length || !crypto.timingSafeEqual(expected, provided)) {
+      return null;
+    }
+
+    return { id: table.id, hotelId: table.hotelId, label: table.label, zone: table.zone };
+  } catch (error) {
+    console.error("Error resolving table token:", error);
+    return null;
+  }
+}
+
+// ============================================
+// Table Management
+// ============================================
+
+/**
+ * Lists a hotel's tables, ordered by zone and label
+ */
+export async function listTables(hotelId: number) {
+  try {
+    return await prisma.table.findMany({
+      where: { hotelId },
+      orderBy: [{ zone: "asc" }, { label: "asc" }],
+    });
+  } catch (error) {
+    console.error("Error listing tables:", error);
+    return [];
+  }
+}
+
+/**
+ * Creates a table for a hotel; labels are unique per hotel
+ */
+export async function createTable(
+  hotelId: number,
+  input: TableInput
+): Promise<TenantResult<{ id: number }>> {
+  try {
+    const existing = await prisma.table.findUnique({
+      where: { hotelId_label: { hotelId, label: input.label } },
+      select: { id: true },
+    });
+
+    if (existing) {
+      return {
+        success: false,
+        code: "CONFLICT",
+        message: "A table with this label already exists",
+      };
+    }
+
+    const table = await prisma.table.create({
+      data: {
+        hotelId,
+        label: input.label,
+        zone: input.zone ?? null,
+        active: input.active ?? true,
+      },
+    });
+
+    return {
+      success: true,
+      data: { id: table.id },
+      message: "Table created successfully",
+    };
+  } catch (error) {
+    console.error("Error creating table:", error);
+    return {
+      success: false,
+      message: "Failed to create table",
+    };
+  }
+}
+
+/**
+ * Updates a table's label, zone or active flag
+ * Inactive tables keep their QR code but can't receive orders
+ */
+export async function updateTable(
+  hotelId: number,
+  tableId: number,
+  input: TableUpdate
+): Promise<TenantResult<{ id: number }>> {
+  try {
+    const existing = await prisma.table.findFirst({
+      where: { id: tableId, hotelId },
+      select: { id: true },
+    });
+
+    if (!existing) {
+      return {
+        success: false,
+        code: "NOT_FOUND",
+        message: "Table not found",
+      };
+    }
+
+    if (input.label !== undefined) {
+      const clash = await prisma.table.findFirst({
+        where: { hotelId, label: input.label, id: { not: tableId } },
+        select: { id: true },
+      });
+
+      if (clash) {
+        return {
+          success: false,
+          code: "CONFLICT",
+          message: "A table with this label already exists",
+        };
+      }
+    }
+
+    const table = await prisma.table.update({
+      where: { id: tableId },
+      data: {
+        ...(input.label !== undefined && { label: input.label }),
+        ...(input.zone !== undefined && { zone: input.zone }),
+        ...(input.active !== undefined && { active: input.active }),
+      },
+    });
+
+    return {
+      success: true,
+      data: { id: table.id },
+      message: "Table updated successfully",
+    };
+  } catch (error) {
+    console.error("Error updating table:", error);
+    return {
+      success: false,
+      message: "Failed to update table",
+    };
+  }
+}
+
+/**
+ * Deletes a table that has never been ordered to
+ * Tables with orders should be deactivated instead to keep order history
+ */
+export async function deleteTable(
+  hotelId: number,
+  tableId: number
+): Promise<TenantResult<{ id: number }>> {
+  try {
+    const existing = await prisma.table.findFirst({
+      where: { id: tableId, hotelId },
+      include: { _count: { select: { orders: true } } },
+    });
+
+    if (!existing) {
+      return {
+        success: false,
+        code: "NOT_FOUND",
+        message: "Table not found",
+      };
+    }
+
+    if (existing._count.orders > 0) {
+      return {
+        success: false,
+        code: "CONFLICT",
+        message: "Table has orders and cannot be deleted; deactivate it instead",
+      };
+    }
+
+    await prisma.table.delete({ where: { id: tableId } });
+
+    return {
+      success: true,
+      data: { id: tableId },
+      message: "Table deleted successfully",
+    };
+  } catch (error) {
+    console.error("Error deleting table:", error);
+    return {
+      success: false,
+      message: "Failed to delete table",
+    };
+  }
+}
+
+/**
+ * Invalidates a table's printed QR code by bumping its token version
+ */
+export async function rotateTableToken(
+  hotelId: number,
+  tableId: number
+): Promise<TenantResult<{ url: string }>> {
+  try {
+    const updated = await prisma.table.updateMany({
+      where: { id: tableId, hotelId },
+      data: { tokenVersion: { increment: 1 } },
+    });
+
+    if (updated.count === 0) {
+      return {
+        success: false,
+        code: "NOT_FOUND",
+        message: "Table not found",
+      };
+    }
+
+    const table = await prisma.table.findUniqueOrThrow({ where: { id: tableId } });
+
+    return {
+      success: true,
+      data: { url: getTableUrl(table) },
+      message: "Table QR code rotated; reprint it",
+    };
+  } catch (error) {
+    console.error("Error rotating table token:", error);
+    return {
+      success: false,
+      message: "Failed to rotate table QR code",
+    };
+  }
+}
+
+/**
+ * Renders a table's QR code locally as SVG markup or a PNG buffer
+ * Returns null if the table doesn't belong to the hotel
+ */
+export async function renderTableQrCode(hotelId: number, tableId: number, format: QrFormat) {
+  const table = await prisma.table.findFirst({
+    where: { id: tableId, hotelId },
+  });
+
+  if (!table) {
+    return null;
+  }
+
+  const url = getTableUrl(table);
+  const options = { errorCorrectionLevel: "M" as const, margin: 2 };
+
+  if (format === "svg") {
+    const body = await QRCode.toString(url, { ...options, type: "svg" });
+    return { url, contentType: "image/svg+xml", body };
+  }
+
+  const body = await QRCode.toBuffer(url, { ...options, type: "png", width: 512 });
+  return { url, contentType: "image/png", body };
+}
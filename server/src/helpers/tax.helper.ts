@@ -0,0 +1,344 @@
+import { prisma } from "../../lib/prisma.js";
+import { Prisma } from "../../generated/prisma/client.js";
+import {
+  addMoney,
+  formatMoney,
+  percentOf,
+  subtractMoney,
+  sumMoney,
+  toDecimal,
+  toMoney,
+  zeroMoney,
+  type Money,
+} from "./money.helper.js";
+import type { TenantResult } from "./tenant.helper.js";
+
+// ============================================
+// Types & Interfaces
+// ============================================
+
+/**
+ * How a hotel taxes and surcharges its orders; rates are percentages
+ */
+export interface PricingRules {
+  taxName: string;
+  taxRate: Prisma.Decimal;
+  taxInclusive: boolean;
+  serviceChargeRate: Prisma.Decimal;
+}
+
+export interface PricingRulesUpdate {
+  taxName?: string;
+  taxRate?: string | number;
+  taxInclusive?: boolean;
+  serviceChargeRate?: string | number;
+}
+
+/**
+ * An order line's total, the discount taken off it and the tax rate of
+ * its category
+ */
+export interface TaxableLine {
+  amount: Money;
+  discount: Money;
+  taxRate: Prisma.Decimal;
+}
+
+export interface OrderTaxLine {
+  name: string;
+  rate: Prisma.Decimal;
+  base: Money;
+  amount: Money;
+}
+
+/**
+ * An order's itemised totals
+ * With inclusive pricing the discounted subtotal already contains
+ * taxTotal, so the total is subtotal - discounts + service charge + tip;
+ * otherwise taxes are added too
+ */
+export interface OrderTotals {
+  taxInclusive: boolean;
+  subtotal: Money;
+  discountTotal: Money;
+  taxes: OrderTaxLine[];
+  taxTotal: Money;
+  serviceCharge: Money;
+  tip: Money;
+  total: Money;
+}
+
+const MAX_RATE_DECIMALS = 3;
+
+// ============================================
+// Rates
+// ============================================
+
+/**
+ * Type guard for percentage rates from requests: 0 to 100 with at most
+ * three decimals, e.g. 20 or "7.125"
+ */
+export function isValidRate(value: unknown): value is string | number {
+  if (typeof value !== "number" && typeof value !== "string") return false;
+  if (!/^\d+(\.\d+)?$/.test(String(value).trim())) return false;
+
+  const rate = new Prisma.Decimal(String(value).trim());
+  return rate.lte(100) && rate.decimalPlaces() <= MAX_RATE_DECIMALS;
+}
+
+/**
+ * Formats a rate for API responses, e.g. "20" or "7.125"
+ */
+export function formatRate(rate: Prisma.Decimal): string {
+  return rate.toDecimalPlaces(MAX_RATE_DECIMALS).toString();
+}
+
+// ============================================
+// Order Totals
+// ============================================
+
+/**
+ * Computes an order's subtotal, discounts, taxes per rate, service charge
+ * and total
+ * Taxes apply to the discounted lines and are rounded once per rate
+ * rather than per line. Inclusive taxes are the part of each rate's lines
+ * above their pre-tax price. The service charge is a percentage of the
+ * discounted subtotal and, like the tip, is not taxed
+ */
+export function computeOrderTotals(
+  lines: TaxableLine[],
+  rules: PricingRules,
+  tip: Money
+): OrderTotals {
+  const { currency } = tip;
+  const subtotal = sumMoney(
+    lines.map((line) => line.amount),
+    currency
+  );
+  const discountTotal = sumMoney(
+    lines.map((line) => line.discount),
+    currency
+  );
+  const discounted = subtractMoney(subtotal, discountTotal);
+
+  // Group lines by rate, keyed on the rate's canonical string
+  const bases = new Map<string, { rate: Prisma.Decimal; base: Money }>();
+  for (const line of lines) {
+    if (line.taxRate.isZero()) continue;
+
+    const key = line.taxRate.toString();
+    const group = bases.get(key) ?? { rate: line.taxRate, base: zeroMoney(currency) };
+    group.base = addMoney(group.base, subtractMoney(line.amount, line.discount));
+    bases.set(key, group);
+  }
+
+  const taxes = [...bases.values()]
+    .sort((a, b) => a.rate.comparedTo(b.rate))
+    .map(({ rate, base }) => ({
+      name: rules.taxName,
+      rate,
+      base,
+      amount: rules.taxInclusive
+        ? subtractMoney(base, toMoney(toDecimal(base).times(100).dividedBy(rate.plus(100)), currency))
+        : percentOf(base, rate),
+    }));
+
+  const taxTotal = sumMoney(
+    taxes.map((tax) => tax.amount),
+    currency
+  );
+  const serviceCharge = percentOf(discounted, rules.serviceChargeRate);
+  const total = sumMoney(
+    [discounted, rules.taxInclusive ? zeroMoney(currency) : taxTotal, serviceCharge, tip],
+    currency
+  );
+
+  return {
+    taxInclusive: rules.taxInclusive,
+    subtotal,
+    discountTotal,
+    taxes,
+    taxTotal,
+    serviceCharge,
+    tip,
+    total,
+  };
+}
+
+/**
+ * Converts computed totals to the Order columns and tax lines to store
+ */
+export function toOrderTotalsData(totals: OrderTotals) {
+  return {
+    taxInclusive: totals.taxInclusive,
+    subtotal: toDecimal(totals.subtotal),
+    discountTotal: toDecimal(totals.discountTotal),
+    taxTotal: toDecimal(totals.taxTotal),
+    serviceCharge: toDecimal(totals.serviceCharge),
+    tip: toDecimal(totals.tip),
+    total: toDecimal(totals.total),
+    taxes: {
+      create: totals.taxes.map((tax) => ({
+        name: tax.name,
+        rate: tax.rate,
+        base: toDecimal(tax.base),
+        amount: toDecimal(tax.amount),
+      })),
+    },
+  };
+}
+
+/**
+ * An order's stored totals, as loaded with its taxes and discounts
+ */
+type StoredOrderTotals = {
+  currency: string;
+  taxInclusive: boolean;
+  subtotal: Prisma.Decimal;
+  discountTotal: Prisma.Decimal;
+  taxTotal: Prisma.Decimal;
+  serviceCharge: Prisma.Decimal;
+  tip: Prisma.Decimal;
+  total: Prisma.Decimal;
+  discounts: { name: string; code: string | null; amount: Prisma.Decimal }[];
+  taxes: { name: string; rate: Prisma.Decimal; base: Prisma.Decimal; amount: Prisma.Decimal }[];
+};
+
+type StoredOrderLine = {
+  price: Prisma.Decimal;
+  options: { priceDelta: Prisma.Decimal }[];
+};
+
+/**
+ * Formats an order's stored totals for API responses
+ */
+export function formatOrderTotals(order: StoredOrderTotals) {
+  const format = (amount: Prisma.Decimal) => formatMoney(toMoney(amount, order.currency));
+
+  return {
+    currency: order.currency,
+    taxInclusive: order.taxInclusive,
+    subtotal: format(order.subtotal),
+    discounts: order.discounts.map((discount) => ({
+      name: discount.name,
+      code: discount.code,
+      amount: format(discount.amount),
+    })),
+    discountTotal: format(order.discountTotal),
+    taxes: order.taxes.map((tax) => ({
+      name: tax.name,
+      rate: formatRate(tax.rate),
+      base: format(tax.base),
+      amount: format(tax.amount),
+    })),
+    taxTotal: format(order.taxTotal),
+    serviceCharge: format(order.serviceCharge),
+    tip: format(order.tip),
+    total: format(order.total),
+  };
+}
+
+/**
+ * Formats an order with its lines for API responses: totals, unit prices
+ * and option deltas in the order's currency
+ */
+export function formatOrder<
+  Line extends StoredOrderLine,
+  Order extends StoredOrderTotals & { orderItems: Line[] },
+>(order: Order) {
+  const format = (amount: Prisma.Decimal) => formatMoney(toMoney(amount, order.currency));
+
+  return {
+    ...order,
+    ...formatOrderTotals(order),
+    orderItems: order.orderItems.map((item) => ({
+      ...item,
+      price: format(item.price),
+      options: item.options.map((option) => ({ ...option, priceDelta: format(option.priceDelta) })),
+    })),
+  };
+}
+
+// ============================================
+// Settings
+// ============================================
+
+function toRulesResponse(rules: PricingRules) {
+  return {
+    taxName: rules.taxName,
+    taxRate: formatRate(rules.taxRate),
+    taxInclusive: rules.taxInclusive,
+    serviceChargeRate: formatRate(rules.serviceChargeRate),
+  };
+}
+
+/**
+ * Updates a hotel's tax name, default tax rate, inclusive pricing and
+ * service charge; orders already placed keep their snapshotted totals
+ */
+export async function setHotelPricingRules(
+  hotelId: number,
+  input: PricingRulesUpdate
+): Promise<TenantResult<ReturnType<typeof toRulesResponse>>> {
+  try {
+    const hotel = await prisma.hotel.update({
+      where: { id: hotelId },
+      data: {
+        ...(input.taxName !== undefined && { taxName: input.taxName }),
+        ...(input.taxRate !== undefined && { taxRate: input.taxRate }),
+        ...(input.taxInclusive !== undefined && { taxInclusive: input.taxInclusive }),
+        ...(input.serviceChargeRate !== undefined && {
+          serviceChargeRate: input.serviceChargeRate,
+        }),
+      },
+    });
+
+    return {
+      success: true,
+      data: toRulesResponse(hotel),
+      message: "Tax settings updated successfully",
+    };
+  } catch (error) {
+    console.error("Error setting hotel tax settings:", error);
+    return {
+      success: false,
+      message: "Failed to update tax settings",
+    };
+  }
+}
+
+/**
+ * Sets a category's own tax rate; null makes it use the hotel's rate again
+ */
+export async function setCategoryTaxRate(
+  hotelId: number,
+  categoryId: number,
+  rate: string | number | null
+): Promise<TenantResult<{ taxRate: string | null }>> {
+  try {
+    const updated = await prisma.menuCategory.updateMany({
+      where: { id: categoryId, hotelId },
+      data: { taxRate: rate },
+    });
+
+    if (updated.count === 0) {
+      return {
+        success: false,
+        code: "NOT_FOUND",
+        message: "Category not found",
+      };
+    }
+
+    return {
+      success: true,
+      data: { taxRate: rate === null ? null : formatRate(new Prisma.Decimal(rate)) },
+      message: "Category tax rate updated successfully",
+    };
+  } catch (error) {
+    console.error("Error setting category tax rate:", error);
+    return {
+      success: false,
+      message: "Failed to update category tax rate",
+    };
+  }
+}
@@ -0,0 +1,1036 @@
+import { prisma } from "../../lib/prisma.js";
+import type { Prisma } from "../../generated/prisma/client.js";
+import { recordStockMovement, setStockLevel, notifyLowStock } from "./inventory.helper.js";
+import { currencyDigits, formatMoney, isCurrencyCode, parseMoney, toMoney } from "./money.helper.js";
+
+// ============================================
+// Types & Interfaces
+// ============================================
+
+export type TenantErrorCode = "NOT_FOUND" | "INVALID" | "CONFLICT";
+
+export interface TenantResult<T> {
+  success: boolean;
+  data?: T;
+  code?: TenantErrorCode;
+  message: string;
+}
+
+export interface CategoryInput {
+  name: string;
+}
+
+export interface MenuItemInput {
+  name: string;
+  description?: string | null;
+  price: string | number;
+  stock?: number;
+  lowStockThreshold?: number | null;
+  categoryId: number;
+}
+
+export type MenuItemUpdate = Partial<MenuItemInput>;
+
+export interface ModifierOptionInput {
+  name: string;
+  priceDelta?: string | number;
+  stock?: number | null;
+}
+
+export type ModifierOptionUpdate = Partial<ModifierOptionInput>;
+
+export interface ModifierGroupInput {
+  name: string;
+  minSelect?: number;
+  maxSelect?: number;
+  options?: ModifierOptionInput[];
+}
+
+export type ModifierGroupUpdate = Partial<Omit<ModifierGroupInput, "options">>;
+
+/**
+ * How to handle menu items still attached to a category being deleted
+ * - cascade: delete the items along with the category
+ * - reassign: move the items to another category of the same hotel first
+ */
+export type CategoryDeleteOptions =
+  | { mode: "cascade" }
+  | { mode: "reassign"; targetCategoryId: number };
+
+/**
+ * Bumps the hotel's updatedAt so the public menu's Last-Modified moves
+ * forward when rows disappear from it
+ */
+function touchHotelMenu(hotelId: number) {
+  return prisma.hotel.update({
+    where: { id: hotelId },
+    data: { updatedAt: new Date() },
+  });
+}
+
+/**
+ * Gets the currency a hotel's menu is priced in
+ */
+async function getHotelCurrency(hotelId: number): Promise<string> {
+  const { currency } = await prisma.hotel.findUniqueOrThrow({
+    where: { id: hotelId },
+    select: { currency: true },
+  });
+  return currency;
+}
+
+/**
+ * Formats a menu item's price for API responses, with the currency code
+ */
+function formatMenuItem<T extends { price: Prisma.Decimal }>(item: T, currency: string) {
+  return { ...item, price: formatMoney(toMoney(item.price, currency)), currency };
+}
+
+/**
+ * Checks menu prices against the precision of the hotel's currency
+ * Returns an error message, or null if every given price fits
+ */
+async function checkPrices(
+  hotelId: number,
+  prices: (string | number | undefined)[]
+): Promise<string | null> {
+  const currency = await getHotelCurrency(hotelId);
+
+  const invalid = prices.some((price) => price !== undefined && !parseMoney(price, currency));
+  return invalid
+    ? `Prices must be ${currency} amounts with at most ${currencyDigits(currency)} decimals`
+    : null;
+}
+
+// ============================================
+// Hotel Settings
+// ============================================
+
+/**
+ * Sets the currency a hotel's menu is priced and paid in
+ * Only possible before the first order, since orders and payments keep
+ * the currency they were made in, and only if every current menu price
+ * fits the new currency's precision
+ */
+export async function setHotelCurrency(
+  hotelId: number,
+  currency: string
+): Promise<TenantResult<{ currency: string }>> {
+  try {
+    if (!isCurrencyCode(currency)) {
+      return {
+        success: false,
+        code: "INVALID",
+        message: "Unknown currency",
+      };
+    }
+
+    const hotel = await prisma.hotel.findUnique({
+      where: { id: hotelId },
+      select: {
+        currency: true,
+        _count: { select: { orders: true } },
+        menuItems: { select: { price: true } },
+        modifierOptions: { select: { priceDelta: true } },
+      },
+    });
+
+    if (!hotel) {
+      return {
+        success: false,
+        code: "NOT_FOUND",
+        message: "Hotel not found",
+      };
+    }
+
+    if (hotel.currency === currency) {
+      return {
+        success: true,
+        data: { currency },
+        message: "Currency unchanged",
+      };
+    }
+
+    if (hotel._count.orders > 0) {
+      return {
+        success: false,
+        code: "CONFLICT",
+        message: "Currency cannot change once the hotel has orders",
+      };
+    }
+
+    const prices = [
+      ...hotel.menuItems.map((item) => item.price),
+      ...hotel.modifierOptions.map((option) => option.priceDelta),
+    ];
+    if (prices.some((price) => !parseMoney(price.toFixed(), currency))) {
+      return {
+        success: false,
+        code: "INVALID",
+        message: `Some menu prices have more decimals than ${currency} allows`,
+      };
+    }
+
+    const updated = await prisma.hotel.update({
+      where: { id: hotelId },
+      data: { currency },
+    });
+
+    return {
+      success: true,
+      data: { currency: updated.currency },
+      message: "Currency updated successfully",
+    };
+  } catch (error) {
+    console.error("Error setting hotel currency:", error);
+    return {
+      success: false,
+      message: "Failed to update currency",
+    };
+  }
+}
+
+// ============================================
+// Menu Categories
+// ============================================
+
+/**
+ * Lists all menu categories of a hotel, with their item counts
+ */
+export async function listCategories(hotelId: number) {
+  try {
+    return await prisma.menuCategory.findMany({
+      where: { hotelId },
+      include: { _count: { select: { menuItems: true } } },
+      orderBy: { name: "asc" },
+    });
+  } catch (error) {
+    console.error("Error listing categories:", error);
+    return [];
+  }
+}
+
+/**
+ * Gets a single category of a hotel, including its menu items
+ */
+export async function getCategory(hotelId: number, categoryId: number) {
+  try {
+    const category = await prisma.menuCategory.findFirst({
+      where: { id: categoryId, hotelId },
+      include: { menuItems: { orderBy: { name: "asc" } } },
+    });
+
+    if (!category) {
+      return null;
+    }
+
+    const currency = await getHotelCurrency(hotelId);
+    return {
+      ...category,
+      menuItems: category.menuItems.map((item) => formatMenuItem(item, currency)),
+    };
+  } catch (error) {
+    console.error("Error getting category:", error);
+    return null;
+  }
+}
+
+/**
+ * Creates a menu category for a hotel
+ */
+export async function createCategory(
+  hotelId: number,
+  input: CategoryInput
+): Promise<TenantResult<{ id: number; name: string }>> {
+  try {
+    const category = await prisma.menuCategory.create({
+      data: { name: input.name, hotelId },
+    });
+
+    return {
+      success: true,
+      data: { id: category.id, name: category.name },
+      message: "Category created successfully",
+    };
+  } catch (error) {
+    console.error("Error creating category:", error);
+    return {
+      success: false,
+      message: "Failed to create category",
+    };
+  }
+}
+
+/**
+ * Renames a menu category of a hotel
+ */
+export async function updateCategory(
+  hotelId: number,
+  categoryId: number,
+  input: CategoryInput
+): Promise<TenantResult<{ id: number; name: string }>> {
+  try {
+    const existing = await prisma.menuCategory.findFirst({
+      where: { id: categoryId, hotelId },
+      select: { id: true },
+    });
+
+    if (!existing) {
+      return {
+        success: false,
+        code: "NOT_FOUND",
+        message: "Category not found",
+      };
+    }
+
+    const category = await prisma.menuCategory.update({
+      where: { id: categoryId },
+      data: { name: input.name },
+    });
+
+    return {
+      success: true,
+      data: { id: category.id, name: category.name },
+      message: "Category updated successfully",
+    };
+  } catch (error) {
+    console.error("Error updating category:", error);
+    return {
+      success: false,
+      message: "Failed to update category",
+    };
+  }
+}
+
+/**
+ * Deletes a menu category of a hotel
+ * A category that still holds items requires an explicit cascade or reassign choice
+ */
+export async function deleteCategory(
+  hotelId: number,
+  categoryId: number,
+  options?: CategoryDeleteOptions
+): Promise<TenantResult<{ deletedItems: number; reassignedItems: number }>> {
+  try {
+    const category = await prisma.menuCategory.findFirst({
+      where: { id: categoryId, hotelId },
+      include: { _count: { select: { menuItems: true } } },
+    });
+
+    if (!category) {
+      return {
+        success: false,
+        code: "NOT_FOUND",
+        message: "Category not found",
+      };
+    }
+
+    const itemCount = category._count.menuItems;
+
+    if (itemCount > 0 && !options) {
+      return {
+        success: false,
+        code: "CONFLICT",
+        message: `Category still holds ${itemCount} item(s); choose cascade or reassign`,
+      };
+    }
+
+    if (itemCount > 0 && options?.mode === "reassign") {
+      if (options.targetCategoryId === categoryId) {
+        return {
+          success: false,
+          code: "INVALID",
+          message: "Cannot reassign items to the category being deleted",
+        };
+      }
+
+      const target = await prisma.menuCategory.findFirst({
+        where: { id: options.targetCategoryId, hotelId },
+        select: { id: true },
+      });
+
+      if (!target) {
+        return {
+          success: false,
+          code: "INVALID",
+          message: "Target category not found in this hotel",
+        };
+      }
+
+      await prisma.$transaction([
+        prisma.menuItem.updateMany({
+          where: { categoryId, hotelId },
+          data: { categoryId: target.id },
+        }),
+        prisma.menuCategory.delete({ where: { id: categoryId } }),
+        touchHotelMenu(hotelId),
+      ]);
+
+      return {
+        success: true,
+        data: { deletedItems: 0, reassignedItems: itemCount },
+        message: "Category deleted and items reassigned",
+      };
+    }
+
+    if (itemCount > 0) {
+      // Items referenced by past orders can't be removed without losing order history
+      const orderedItems = await prisma.orderItem.count({
+        where: { menuItem: { categoryId } },
+      });
+
+      if (orderedItems > 0) {
+        return {
+          success: false,
+          code: "CONFLICT",
+          message: "Category holds items referenced by orders; reassign them instead",
+        };
+      }
+    }
+
+    // Menu items are removed by the schema's cascade rule
+    await prisma.$transaction([
+      prisma.menuCategory.delete({ where: { id: categoryId } }),
+      touchHotelMenu(hotelId),
+    ]);
+
+    return {
+      success: true,
+      data: { deletedItems: itemCount, reassignedItems: 0 },
+      message: "Category deleted successfully",
+    };
+  } catch (error) {
+    console.error("Error deleting category:", error);
+    return {
+      success: false,
+      message: "Failed to delete category",
+    };
+  }
+}
+
+// ============================================
+// Menu Items
+// ============================================
+
+/**
+ * Lists menu items of a hotel, optionally filtered by category
+ */
+export async function listMenuItems(hotelId: number, categoryId?: number) {
+  try {
+    const items = await prisma.menuItem.findMany({
+      where: {
+        hotelId,
+        ...(categoryId !== undefined && { categoryId }),
+      },
+      orderBy: { name: "asc" },
+    });
+
+    const currency = await getHotelCurrency(hotelId);
+    return items.map((item) => formatMenuItem(item, currency));
+  } catch (error) {
+    console.error("Error listing menu items:", error);
+    return [];
+  }
+}
+
+/**
+ * Gets a single menu item of a hotel
+ */
+export async function getMenuItem(hotelId: number, itemId: number) {
+  try {
+    const item = await prisma.menuItem.findFirst({
+      where: { id: itemId, hotelId },
+      include: { category: true },
+    });
+
+    return item && formatMenuItem(item, await getHotelCurrency(hotelId));
+  } catch (error) {
+    console.error("Error getting menu item:", error);
+    return null;
+  }
+}
+
+/**
+ * Checks that a category exists and belongs to the given hotel
+ */
+async function categoryBelongsToHotel(
+  hotelId: number,
+  categoryId: number
+): Promise<boolean> {
+  const category = await prisma.menuCategory.findFirst({
+    where: { id: categoryId, hotelId },
+    select: { id: true },
+  });
+
+  return !!category;
+}
+
+/**
+ * Creates a menu item in one of the hotel's categories
+ * Opening stock is recorded in the stock ledger as an adjustment
+ */
+export async function createMenuItem(
+  hotelId: number,
+  input: MenuItemInput,
+  adminId: number | null = null
+): Promise<TenantResult<{ id: number }>> {
+  try {
+    if (!(await categoryBelongsToHotel(hotelId, input.categoryId))) {
+      return {
+        success: false,
+        code: "INVALID",
+        message: "Category not found in this hotel",
+      };
+    }
+
+    const priceError = await checkPrices(hotelId, [input.price]);
+    if (priceError) {
+      return {
+        success: false,
+        code: "INVALID",
+        message: priceError,
+      };
+    }
+
+    const item = await prisma.$transaction(async (tx) => {
+      const item = await tx.menuItem.create({
+        data: {
+          name: input.name,
+          description: input.description ?? null,
+          price: input.price,
+          stock: input.stock ?? 0,
+          lowStockThreshold: input.lowStockThreshold ?? null,
+          categoryId: input.categoryId,
+          hotelId,
+        },
+      });
+
+      if (item.stock !== 0) {
+        await recordStockMovement(tx, {
+          hotelId,
+          menuItemId: item.id,
+          delta: item.stock,
+          reason: "ADJUSTMENT",
+          adminId,
+          note: "Opening stock",
+        });
+      }
+
+      return item;
+    });
+
+    return {
+      success: true,
+      data: { id: item.id },
+      message: "Menu item created successfully",
+    };
+  } catch (error) {
+    console.error("Error creating menu item:", error);
+    return {
+      success: false,
+      message: "Failed to create menu item",
+    };
+  }
+}
+
+/**
+ * Updates a menu item of a hotel
+ * Moving the item to another category only succeeds within the same hotel.
+ * Setting stock records the difference in the stock ledger as an adjustment
+ */
+export async function updateMenuItem(
+  hotelId: number,
+  itemId: number,
+  input: MenuItemUpdate,
+  adminId: number | null = null
+): Promise<TenantResult<{ id: number }>> {
+  try {
+    const existing = await prisma.menuItem.findFirst({
+      where: { id: itemId, hotelId },
+      select: { id: true },
+    });
+
+    if (!existing) {
+      return {
+        success: false,
+        code: "NOT_FOUND",
+        message: "Menu item not found",
+      };
+    }
+
+    if (
+      input.categoryId !== undefined &&
+      !(await categoryBelongsToHotel(hotelId, input.categoryId))
+    ) {
+      return {
+        success: false,
+        code: "INVALID",
+        message: "Category not found in this hotel",
+      };
+    }
+
+    const priceError = await checkPrices(hotelId, [input.price]);
+    if (priceError) {
+      return {
+        success: false,
+        code: "INVALID",
+        message: priceError,
+      };
+    }
+
+    const { item, alert } = await prisma.$transaction(async (tx) => {
+      const item = await tx.menuItem.update({
+        where: { id: itemId },
+        data: {
+          ...(input.name !== undefined && { name: input.name }),
+          ...(input.description !== undefined && { description: input.description }),
+          ...(input.price !== undefined && { price: input.price }),
+          ...(input.lowStockThreshold !== undefined && {
+            lowStockThreshold: input.lowStockThreshold,
+          }),
+          ...(input.categoryId !== undefined && { categoryId: input.categoryId }),
+        },
+      });
+
+      const alert =
+        input.stock !== undefined
+          ? await setStockLevel(tx, { hotelId, menuItemId: itemId, adminId }, input.stock)
+          : null;
+
+      return { item, alert };
+    });
+
+    await notifyLowStock([alert]);
+
+    return {
+      success: true,
+      data: { id: item.id },
+      message: "Menu item updated successfully",
+    };
+  } catch (error) {
+    console.error("Error updating menu item:", error);
+    return {
+      success: false,
+      message: "Failed to update menu item",
+    };
+  }
+}
+
+/**
+ * Deletes a menu item of a hotel
+ * Items referenced by past orders are kept to preserve order history
+ */
+export async function deleteMenuItem(
+  hotelId: number,
+  itemId: number
+): Promise<TenantResult<{ id: number }>> {
+  try {
+    const existing = await prisma.menuItem.findFirst({
+      where: { id: itemId, hotelId },
+      include: { _count: { select: { orderItems: true } } },
+    });
+
+    if (!existing) {
+      return {
+        success: false,
+        code: "NOT_FOUND",
+        message: "Menu item not found",
+      };
+    }
+
+    if (existing._count.orderItems > 0) {
+      return {
+        success: false,
+        code: "CONFLICT",
+        message: "Menu item is referenced by orders and cannot be deleted",
+      };
+    }
+
+    await prisma.$transaction([
+      prisma.menuItem.delete({ where: { id: itemId } }),
+      touchHotelMenu(hotelId),
+    ]);
+
+    return {
+      success: true,
+      data: { id: itemId },
+      message: "Menu item deleted successfully",
+    };
+  } catch (error) {
+    console.error("Error deleting menu item:", error);
+    return {
+      success: false,
+      message: "Failed to delete menu item",
+    };
+  }
+}
+
+// ============================================
+// Modifier Groups & Options
+// ============================================
+
+/**
+ * Checks a group's selection rules: at most maxSelect options, at least
+ * minSelect, and maxSelect of at least one
+ * Returns an error message, or null if the rules are valid
+ */
+function checkSelectionRules(minSelect: number, maxSelect: number): string | null {
+  if (maxSelect < 1) {
+    return "maxSelect must be at least 1";
+  }
+  if (minSelect > maxSelect) {
+    return "minSelect cannot exceed maxSelect";
+  }
+  return null;
+}
+
+/**
+ * Lists the modifier groups of a hotel's menu item, with their options
+ */
+export async function listModifierGroups(hotelId: number, itemId: number) {
+  try {
+    const groups = await prisma.modifierGroup.findMany({
+      where: { menuItemId: itemId, hotelId },
+      include: { options: { orderBy: { id: "asc" } } },
+      orderBy: { id: "asc" },
+    });
+
+    const currency = await getHotelCurrency(hotelId);
+    return groups.map((group) => ({
+      ...group,
+      options: group.options.map((option) => ({
+        ...option,
+        priceDelta: formatMoney(toMoney(option.priceDelta, currency)),
+        currency,
+      })),
+    }));
+  } catch (error) {
+    console.error("Error listing modifier groups:", error);
+    return [];
+  }
+}
+
+/**
+ * Creates a modifier group on a hotel's menu item, optionally with its options
+ */
+export async function createModifierGroup(
+  hotelId: number,
+  itemId: number,
+  input: ModifierGroupInput
+): Promise<TenantResult<{ id: number }>> {
+  try {
+    const item = await prisma.menuItem.findFirst({
+      where: { id: itemId, hotelId },
+      select: { id: true },
+    });
+
+    if (!item) {
+      return {
+        success: false,
+        code: "NOT_FOUND",
+        message: "Menu item not found",
+      };
+    }
+
+    const minSelect = input.minSelect ?? 0;
+    const maxSelect = input.maxSelect ?? 1;
+    const ruleError = checkSelectionRules(minSelect, maxSelect);
+    if (ruleError) {
+      return {
+        success: false,
+        code: "INVALID",
+        message: ruleError,
+      };
+    }
+
+    const priceError = await checkPrices(
+      hotelId,
+      (input.options ?? []).map((option) => option.priceDelta)
+    );
+    if (priceError) {
+      return {
+        success: false,
+        code: "INVALID",
+        message: priceError,
+      };
+    }
+
+    const group = await prisma.modifierGroup.create({
+      data: {
+        name: input.name,
+        minSelect,
+        maxSelect,
+        menuItemId: itemId,
+        hotelId,
+        options: {
+          create: (input.options ?? []).map((option) => ({
+            name: option.name,
+            priceDelta: option.priceDelta ?? 0,
+            stock: option.stock ?? null,
+            hotelId,
+          })),
+        },
+      },
+    });
+
+    return {
+      success: true,
+      data: { id: group.id },
+      message: "Modifier group created successfully",
+    };
+  } catch (error) {
+    console.error("Error creating modifier group:", error);
+    return {
+      success: false,
+      message: "Failed to create modifier group",
+    };
+  }
+}
+
+/**
+ * Updates a modifier group's name or selection rules
+ */
+export async function updateModifierGroup(
+  hotelId: number,
+  groupId: number,
+  input: ModifierGroupUpdate
+): Promise<TenantResult<{ id: number }>> {
+  try {
+    const existing = await prisma.modifierGroup.findFirst({
+      where: { id: groupId, hotelId },
+      select: { minSelect: true, maxSelect: true },
+    });
+
+    if (!existing) {
+      return {
+        success: false,
+        code: "NOT_FOUND",
+        message: "Modifier group not found",
+      };
+    }
+
+    const ruleError = checkSelectionRules(
+      input.minSelect ?? existing.minSelect,
+      input.maxSelect ?? existing.maxSelect
+    );
+    if (ruleError) {
+      return {
+        success: false,
+        code: "INVALID",
+        message: ruleError,
+      };
+    }
+
+    const group = await prisma.modifierGroup.update({
+      where: { id: groupId },
+      data: {
+        ...(input.name !== undefined && { name: input.name }),
+        ...(input.minSelect !== undefined && { minSelect: input.minSelect }),
+        ...(input.maxSelect !== undefined && { maxSelect: input.maxSelect }),
+      },
+    });
+
+    return {
+      success: true,
+      data: { id: group.id },
+      message: "Modifier group updated successfully",
+    };
+  } catch (error) {
+    console.error("Error updating modifier group:", error);
+    return {
+      success: false,
+      message: "Failed to update modifier group",
+    };
+  }
+}
+
+/**
+ * Deletes a modifier group and its options
+ * Past orders keep their snapshotted option names and prices
+ */
+export async function deleteModifierGroup(
+  hotelId: number,
+  groupId: number
+): Promise<TenantResult<{ id: number }>> {
+  try {
+    const existing = await prisma.modifierGroup.findFirst({
+      where: { id: groupId, hotelId },
+      select: { id: true },
+    });
+
+    if (!existing) {
+      return {
+        success: false,
+        code: "NOT_FOUND",
+        message: "Modifier group not found",
+      };
+    }
+
+    await prisma.$transaction([
+      prisma.modifierGroup.delete({ where: { id: groupId } }),
+      touchHotelMenu(hotelId),
+    ]);
+
+    return {
+      success: true,
+      data: { id: groupId },
+      message: "Modifier group deleted successfully",
+    };
+  } catch (error) {
+    console.error("Error deleting modifier group:", error);
+    return {
+      success: false,
+      message: "Failed to delete modifier group",
+    };
+  }
+}
+
+/**
+ * Adds an option to one of the hotel's modifier groups
+ */
+export async function createModifierOption(
+  hotelId: number,
+  groupId: number,
+  input: ModifierOptionInput
+): Promise<TenantResult<{ id: number }>> {
+  try {
+    const group = await prisma.modifierGroup.findFirst({
+      where: { id: groupId, hotelId },
+      select: { id: true },
+    });
+
+    if (!group) {
+      return {
+        success: false,
+        code: "NOT_FOUND",
+        message: "Modifier group not found",
+      };
+    }
+
+    const priceError = await checkPrices(hotelId, [input.priceDelta]);
+    if (priceError) {
+      return {
+        success: false,
+        code: "INVALID",
+        message: priceError,
+      };
+    }
+
+    const option = await prisma.modifierOption.create({
+      data: {
+        name: input.name,
+        priceDelta: input.priceDelta ?? 0,
+        stock: input.stock ?? null,
+        groupId,
+        hotelId,
+      },
+    });
+
+    return {
+      success: true,
+      data: { id: option.id },
+      message: "Modifier option created successfully",
+    };
+  } catch (error) {
+    console.error("Error creating modifier option:", error);
+    return {
+      success: false,
+      message: "Failed to create modifier option",
+    };
+  }
+}
+
+/**
+ * Updates a modifier option; a null stock stops tracking it
+ */
+export async function updateModifierOption(
+  hotelId: number,
+  optionId: number,
+  input: ModifierOptionUpdate
+): Promise<TenantResult<{ id: number }>> {
+  try {
+    const existing = await prisma.modifierOption.findFirst({
+      where: { id: optionId, hotelId },
+      select: { id: true },
+    });
+
+    if (!existing) {
+      return {
+        success: false,
+        code: "NOT_FOUND",
+        message: "Modifier option not found",
+      };
+    }
+
+    const priceError = await checkPrices(hotelId, [input.priceDelta]);
+    if (priceError) {
+      return {
+        success: false,
+        code: "INVALID",
+        message: priceError,
+      };
+    }
+
+    const option = await prisma.modifierOption.update({
+      where: { id: optionId },
+      data: {
+        ...(input.name !== undefined && { name: input.name }),
+        ...(input.priceDelta !== undefined && { priceDelta: input.priceDelta }),
+        ...(input.stock !== undefined && { stock: input.stock }),
+      },
+    });
+
+    return {
+      success: true,
+      data: { id: option.id },
+      message: "Modifier option updated successfully",
+    };
+  } catch (error) {
+    console.error("Error updating modifier option:", error);
+    return {
+      success: false,
+      message: "Failed to update modifier option",
+    };
+  }
+}
+
+/**
+ * Deletes a modifier option
+ * Past orders keep their snapshotted option name and price
+ */
+export async function deleteModifierOption(
+  hotelId: number,
+  optionId: number
+): Promise<TenantResult<{ id: number }>> {
+  try {
+    const existing = await prisma.modifierOption.findFirst({
+      where: { id: optionId, hotelId },
+      select: { id: true },
+    });
+
+    if (!existing) {
+      return {
+        success: false,
+        code: "NOT_FOUND",
+        message: "Modifier option not found",
+      };
+    }
+
+    await prisma.$transaction([
+      prisma.modifierOption.delete({ where: { id: optionId } }),
+      touchHotelMenu(hotelId),
+    ]);
+
+    return {
+      success: true,
+      data: { id: optionId },
+      message: "Modifier option deleted successfully",
+    };
+  } catch (error) {
+    console.error("Error deleting modifier option:", error);
+    return {
+      success: false,
+      message: "Failed to delete modifier option",
+    };
+  }
+}
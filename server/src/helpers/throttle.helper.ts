@@ -0,0 +1,184 @@
+import { prisma } from "../../lib/prisma.js";
+
+// ============================================
+// Types & Interfaces
+// ============================================
+
+/**
+ * Allows `limit` events per window; the next one locks the key for lockMs
+ * With backoff, each consecutive lockout doubles the lock duration up to maxLockMs
+ */
+export interface ThrottlePolicy {
+  limit: number;
+  windowMs: number;
+  lockMs: number;
+  backoff: boolean;
+  maxLockMs?: number;
+}
+
+export interface ThrottleStatus {
+  allowed: boolean;
+  retryAfterSeconds?: number;
+}
+
+export interface ThrottleTarget {
+  scope: string;
+  key: string;
+  hotelId?: number | null;
+}
+
+// ============================================
+// Policies
+// ============================================
+
+const MINUTE = 60 * 1000;
+
+/** Wrong passcodes tolerated per admin or guest email or IP before a lockout */
+export const VERIFY_FAILURE_POLICY: ThrottlePolicy = {
+  limit: 5,
+  windowMs: 15 * MINUTE,
+  lockMs: MINUTE,
+  backoff: true,
+  maxLockMs: 60 * MINUTE,
+};
+
+/** Passcode requests allowed per admin or guest email */
+export const CODE_REQUEST_EMAIL_POLICY: ThrottlePolicy = {
+  limit: 3,
+  windowMs: 15 * MINUTE,
+  lockMs: 15 * MINUTE,
+  backoff: false,
+};
+
+/** Passcode or anonymous session requests allowed per IP address */
+export const REQUEST_IP_POLICY: ThrottlePolicy = {
+  limit: 20,
+  windowMs: 15 * MINUTE,
+  lockMs: 15 * MINUTE,
+  backoff: false,
+};
+
+// ============================================
+// Throttle Checks
+// ============================================
+
+function secondsUntil(date: Date): number {
+  return Math.max(1, Math.ceil((date.getTime() - Date.now()) / 1000));
+}
+
+/**
+ * Checks whether a key is currently locked out
+ */
+export async function checkThrottle(target: ThrottleTarget): Promise<ThrottleStatus> {
+  try {
+    const throttle = await prisma.authThrottle.findUnique({
+      where: { scope_key: { scope: target.scope, key: target.key } },
+      select: { lockedUntil: true },
+    });
+
+    if (throttle?.lockedUntil && throttle.lockedUntil > new Date()) {
+      return { allowed: false, retryAfterSeconds: secondsUntil(throttle.lockedUntil) };
+    }
+
+    return { allowed: true };
+  } catch (error) {
+    console.error("Error checking throttle:", error);
+    // Fail open: an unavailable counter must not block every login
+    return { allowed: true };
+  }
+}
+
+/**
+ * Records one event (a failure or a request) against a key
+ * Locks the key once the policy's limit is exceeded within the window
+ * The count is incremented in the database, so concurrent events can't
+ * overwrite each other's and slip past the limit
+ */
+export async function recordThrottleEvent(
+  target: ThrottleTarget,
+  policy: ThrottlePolicy
+): Promise<ThrottleStatus> {
+  try {
+    const now = new Date();
+    const match = { scope: target.scope, key: target.key };
+    const where = { scope_key: match };
+
+    const lockedUntil = await prisma.$transaction(async (tx) => {
+      const existing = await tx.authThrottle.upsert({
+        where,
+        create: { ...match, hotelId: target.hotelId ?? null, windowStart: now },
+        update: target.hotelId != null ? { hotelId: target.hotelId } : {},
+      });
+
+      if (existing.lockedUntil && existing.lockedUntil > now) {
+        return existing.lockedUntil;
+      }
+
+      // Start a new window if the last one has passed, then count the event
+      await tx.authThrottle.updateMany({
+        where: { ...match, windowStart: { lt: new Date(now.getTime() - policy.windowMs) } },
+        data: { count: 0, windowStart: now },
+      });
+      const throttle = await tx.authThrottle.update({
+        where,
+        data: { count: { increment: 1 } },
+      });
+
+      if (throttle.count <= policy.limit) {
+        return null;
+      }
+
+      // Limit exceeded: lock the key, doubling the duration on each repeat lockout
+      const lockCount = throttle.lockCount + 1;
+      const lockMs = policy.backoff
+        ? Math.min(policy.lockMs * 2 ** (lockCount - 1), policy.maxLockMs ?? Infinity)
+        : policy.lockMs;
+      const until = new Date(now.getTime() + lockMs);
+
+      await tx.authThrottle.update({
+        where,
+        data: { count: 0, windowStart: now, lockCount, lockedUntil: until },
+      });
+
+      return until;
+    });
+
+    if (lockedUntil) {
+      return { allowed: false, retryAfterSeconds: secondsUntil(lockedUntil) };
+    }
+
+    return { allowed: true };
+  } catch (error) {
+    console.error("Error recording throttle event:", error);
+    return { allowed: true };
+  }
+}
+
+/**
+ * Clears a key's counters and lockout history (e.g. after a successful login)
+ */
+export async function resetThrottle(target: ThrottleTarget): Promise<void> {
+  try {
+    await prisma.authThrottle.deleteMany({
+      where: { scope: target.scope, key: target.key },
+    });
+  } catch (error) {
+    console.error("Error resetting throttle:", error);
+  }
+}
+
+/**
+ * Lists active lockouts affecting a hotel's admins
+ */
+export async function getHotelLockouts(hotelId: number) {
+  try {
+    return await prisma.authThrottle.findMany({
+      where: { hotelId, lockedUntil: { gt: new Date() } },
+      select: { id: true, scope: true, key: true, lockCount: true, lockedUntil: true, updatedAt: true },
+      orderBy: { lockedUntil: "desc" },
+    });
+  } catch (error) {
+    console.error("Error getting hotel lockouts:", error);
+    return [];
+  }
+}
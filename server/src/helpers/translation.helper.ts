@@ -0,0 +1,338 @@
+import { prisma } from "../../lib/prisma.js";
+import type { TenantResult } from "./tenant.helper.js";
+
+// ============================================
+// Types & Interfaces
+// ============================================
+
+export interface CategoryTranslationInput {
+  name: string;
+}
+
+export interface ItemTranslationInput {
+  name: string;
+  description?: string | null;
+}
+
+/**
+ * A base string with no translation in the target locale
+ */
+export interface UntranslatedString {
+  type: "category" | "item";
+  id: number;
+  field: "name" | "description";
+  source: string;
+}
+
+// ============================================
+// Locales
+// ============================================
+
+/**
+ * Canonicalizes a BCP 47 language tag, e.g. "pt-br" to "pt-BR"
+ * Returns null for anything that isn't a valid tag
+ */
+export function normalizeLocale(tag: unknown): string | null {
+  if (typeof tag !== "string" || !tag || tag === "*") return null;
+
+  try {
+    return Intl.getCanonicalLocales(tag)[0] ?? null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Picks the first requested locale the hotel has, trying each tag's bare
+ * language ("fr" for "fr-CA") before moving on to the next tag
+ * Falls back to the hotel's default locale
+ */
+export function matchLocale(requested: string[], available: string[], fallback: string): string {
+  for (const tag of requested) {
+    const locale = normalizeLocale(tag);
+    if (!locale) continue;
+
+    const language = locale.split("-")[0]!;
+    const match =
+      available.find((candidate) => candidate === locale) ??
+      available.find((candidate) => candidate === language);
+    if (match) return match;
+  }
+
+  return fallback;
+}
+
+/**
+ * Sets the locale a hotel's base menu names and descriptions are written in
+ */
+export async function setHotelDefaultLocale(
+  hotelId: number,
+  tag: string
+): Promise<TenantResult<{ defaultLocale: string }>> {
+  try {
+    const locale = normalizeLocale(tag);
+    if (!locale) {
+      return {
+        success: false,
+        code: "INVALID",
+        message: "Unknown locale",
+      };
+    }
+
+    const hotel = await prisma.hotel.update({
+      where: { id: hotelId },
+      data: { defaultLocale: locale },
+    });
+
+    return {
+      success: true,
+      data: { defaultLocale: hotel.defaultLocale },
+      message: "Default locale updated successfully",
+    };
+  } catch (error) {
+    console.error("Error setting hotel default locale:", error);
+    return {
+      success: false,
+      message: "Failed to update default locale",
+    };
+  }
+}
+
+/**
+ * Checks a translation's target locale against the hotel's default
+ * Returns the canonical locale, or an error message
+ */
+async function resolveTargetLocale(
+  hotelId: number,
+  tag: string
+): Promise<{ locale: string } | string> {
+  const locale = normalizeLocale(tag);
+  if (!locale) {
+    return "Unknown locale";
+  }
+
+  const hotel = await prisma.hotel.findUniqueOrThrow({
+    where: { id: hotelId },
+    select: { defaultLocale: true },
+  });
+
+  if (hotel.defaultLocale === locale) {
+    return "Base names are already in the default locale; edit them directly";
+  }
+
+  return { locale };
+}
+
+// ============================================
+// Translations
+// ============================================
+
+/**
+ * Adds or replaces a category's name in a locale
+ */
+export async function setCategoryTranslation(
+  hotelId: number,
+  categoryId: number,
+  tag: string,
+  input: CategoryTranslationInput
+): Promise<TenantResult<{ locale: string }>> {
+  try {
+    const category = await prisma.menuCategory.findFirst({
+      where: { id: categoryId, hotelId },
+      select: { id: true },
+    });
+
+    if (!category) {
+      return {
+        success: false,
+        code: "NOT_FOUND",
+        message: "Category not found",
+      };
+    }
+
+    const target = await resolveTargetLocale(hotelId, tag);
+    if (typeof target === "string") {
+      return { success: false, code: "INVALID", message: target };
+    }
+
+    await prisma.menuCategoryTranslation.upsert({
+      where: { categoryId_locale: { categoryId, locale: target.locale } },
+      create: { categoryId, locale: target.locale, name: input.name },
+      update: { name: input.name },
+    });
+
+    return {
+      success: true,
+      data: { locale: target.locale },
+      message: "Category translation saved successfully",
+    };
+  } catch (error) {
+    console.error("Error saving category translation:", error);
+    return {
+      success: false,
+      message: "Failed to save category translation",
+    };
+  }
+}
+
+/**
+ * Adds or replaces a menu item's name and description in a locale
+ * A null description shows the base description
+ */
+export async function setItemTranslation(
+  hotelId: number,
+  itemId: number,
+  tag: string,
+  input: ItemTranslationInput
+): Promise<TenantResult<{ locale: string }>> {
+  try {
+    const item = await prisma.menuItem.findFirst({
+      where: { id: itemId, hotelId },
+      select: { id: true },
+    });
+
+    if (!item) {
+      return {
+        success: false,
+        code: "NOT_FOUND",
+        message: "Menu item not found",
+      };
+    }
+
+    const target = await resolveTargetLocale(hotelId, tag);
+    if (typeof target === "string") {
+      return { success: false, code: "INVALID", message: target };
+    }
+
+    const fields = { name: input.name, description: input.description ?? null };
+    await prisma.menuItemTranslation.upsert({
+      where: { menuItemId_locale: { menuItemId: itemId, locale: target.locale } },
+      create: { menuItemId: itemId, locale: target.locale, ...fields },
+      update: fields,
+    });
+
+    return {
+      success: true,
+      data: { locale: target.locale },
+      message: "Menu item translation saved successfully",
+    };
+  } catch (error) {
+    console.error("Error saving menu item translation:", error);
+    return {
+      success: false,
+      message: "Failed to save menu item translation",
+    };
+  }
+}
+
+/**
+ * Removes a category's or menu item's translation in a locale
+ */
+export async function deleteTranslation(
+  hotelId: number,
+  target: { categoryId: number } | { menuItemId: number },
+  tag: string
+): Promise<TenantResult<{ locale: string }>> {
+  try {
+    const locale = normalizeLocale(tag);
+    if (!locale) {
+      return {
+        success: false,
+        code: "INVALID",
+        message: "Unknown locale",
+      };
+    }
+
+    const deleted =
+      "categoryId" in target
+        ? await prisma.menuCategoryTranslation.deleteMany({
+            where: { categoryId: target.categoryId, locale, category: { hotelId } },
+          })
+        : await prisma.menuItemTranslation.deleteMany({
+            where: { menuItemId: target.menuItemId, locale, menuItem: { hotelId } },
+          });
+
+    if (deleted.count === 0) {
+      return {
+        success: false,
+        code: "NOT_FOUND",
+        message: "Translation not found",
+      };
+    }
+
+    // Moves the public menu's Last-Modified forward
+    await prisma.hotel.update({ where: { id: hotelId }, data: { updatedAt: new Date() } });
+
+    return {
+      success: true,
+      data: { locale },
+      message: "Translation deleted successfully",
+    };
+  } catch (error) {
+    console.error("Error deleting translation:", error);
+    return {
+      success: false,
+      message: "Failed to delete translation",
+    };
+  }
+}
+
+/**
+ * Lists the hotel's category and item strings that have no translation in
+ * a locale; item descriptions count only where the base item has one
+ */
+export async function listUntranslatedStrings(
+  hotelId: number,
+  tag: string
+): Promise<TenantResult<{ locale: string; missing: UntranslatedString[] }>> {
+  try {
+    const target = await resolveTargetLocale(hotelId, tag);
+    if (typeof target === "string") {
+      return { success: false, code: "INVALID", message: target };
+    }
+    const { locale } = target;
+
+    const [categories, items] = await Promise.all([
+      prisma.menuCategory.findMany({
+        where: { hotelId },
+        select: { id: true, name: true, translations: { where: { locale } } },
+        orderBy: { id: "asc" },
+      }),
+      prisma.menuItem.findMany({
+        where: { hotelId },
+        select: { id: true, name: true, description: true, translations: { where: { locale } } },
+        orderBy: { id: "asc" },
+      }),
+    ]);
+
+    const missing: UntranslatedString[] = [];
+
+    for (const category of categories) {
+      if (category.translations.length === 0) {
+        missing.push({ type: "category", id: category.id, field: "name", source: category.name });
+      }
+    }
+
+    for (const item of items) {
+      const translation = item.translations[0];
+      if (!translation) {
+        missing.push({ type: "item", id: item.id, field: "name", source: item.name });
+      }
+      if (item.description && !translation?.description) {
+        missing.push({ type: "item", id: item.id, field: "description", source: item.description });
+      }
+    }
+
+    return {
+      success: true,
+      data: { locale, missing },
+      message: "Untranslated strings listed",
+    };
+  } catch (error) {
+    console.error("Error listing untranslated strings:", error);
+    return {
+      success: false,
+      message: "Failed to list untranslated strings",
+    };
+  }
+}
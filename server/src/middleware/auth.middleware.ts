@@ -1,3 +1,4 @@
+import crypto from "node:crypto";
 import type { Request, Response, NextFunction } from "express";
 import {
   verifyAdminHotelAccess,
@@ -8,6 +9,8 @@ import {
   type GuestAuthPayload,
 } from "../helpers/auth.helper.js";
 import { verifyToken, extractTokenFromHeader } from "../helpers/jwt.helper.js";
+import { isSessionActive } from "../helpers/session.helper.js";
+import { hasPermission, type Permission } from "../helpers/permission.helper.js";
 
 // ============================================
 // Type Extensions for Express Request
@@ -17,7 +20,7 @@ declare global {
   namespace Express {
     interface Request {
       admin?: AdminAuthPayload & { id: number; name: string; phone: string };
-      guest?: GuestAuthPayload & { id: number; name: string };
+      guest?: GuestAuthPayload & { id: number; name: string; tableId: number | null };
       hotelId?: number;
     }
   }
@@ -62,12 +65,20 @@ export async function authenticateAdmin(
       return;
     }
 
+    // Reject tokens whose session was logged out or revoked
+    if (!(await isSessionActive(adminPayload.sessionId, { adminId: admin.id }))) {
+      res.status(401).json({ error: "Session revoked" });
+      return;
+    }
+
     // Attach admin info to request
+    // Role comes from the database so re-roling takes effect immediately
     req.admin = {
       ...adminPayload,
       id: admin.id,
       name: admin.name,
       phone: admin.phone,
+      role: admin.role,
     };
     req.hotelId = adminPayload.hotelId;
 
@@ -113,11 +124,18 @@ export async function authenticateGuest(
       return;
     }
 
+    // Reject tokens whose session was logged out or revoked
+    if (!(await isSessionActive(guestPayload.sessionId, { guestId: guest.id }))) {
+      res.status(401).json({ error: "Session revoked" });
+      return;
+    }
+
     // Attach guest info to request
     req.guest = {
       ...guestPayload,
       id: guest.id,
       name: guest.name,
+      tableId: guest.tableId,
     };
 
     next();
@@ -158,11 +176,16 @@ export async function authenticateUser(
         res.status(401).json({ error: "Admin not found" });
         return;
       }
+      if (!(await isSessionActive(adminPayload.sessionId, { adminId: admin.id }))) {
+        res.status(401).json({ error: "Session revoked" });
+        return;
+      }
       req.admin = {
         ...adminPayload,
         id: admin.id,
         name: admin.name,
         phone: admin.phone,
+        role: admin.role,
       };
       req.hotelId = adminPayload.hotelId;
     } else if (payload.type === "guest") {
@@ -172,10 +195,15 @@ export async function authenticateUser(
         res.status(401).json({ error: "Guest not found" });
         return;
       }
+      if (!(await isSessionActive(guestPayload.sessionId, { guestId: guest.id }))) {
+        res.status(401).json({ error: "Session revoked" });
+        return;
+      }
       req.guest = {
         ...guestPayload,
         id: guest.id,
         name: guest.name,
+        tableId: guest.tableId,
       };
     } else {
       res.status(401).json({ error: "Invalid token type" });
@@ -189,6 +217,52 @@ export async function authenticateUser(
   }
 }
 
+/**
+ * Middleware allowing the JWT to be passed as an access_token query parameter
+ * For clients that can't set headers (e.g. browser EventSource)
+ * Must be used before authenticateAdmin, authenticateGuest or authenticateUser
+ */
+export function acceptQueryToken(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void {
+  const queryToken = req.query.access_token;
+
+  if (!req.headers.authorization && typeof queryToken === "string" && queryToken) {
+    req.headers.authorization = `Bearer ${queryToken}`;
+  }
+  next();
+}
+
+/**
+ * Middleware to authenticate platform super-admin requests
+ * Expects SUPER_ADMIN_API_KEY in the X-Super-Admin-Key header
+ * Rejects everything when no key is configured
+ */
+export function authenticateSuperAdmin(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void {
+  const expected = process.env.SUPER_ADMIN_API_KEY;
+  const provided = req.header("X-Super-Admin-Key");
+
+  if (!expected) {
+    res.status(403).json({ error: "Super-admin access is not configured" });
+    return;
+  }
+
+  const a = Buffer.from(expected);
+  const b = Buffer.from(provided ?? "");
+  if (a.length !== b.length || !crypto.timingSafeEqual(a, b)) {
+    res.status(401).json({ error: "Super-admin authentication required" });
+    return;
+  }
+
+  next();
+}
+
 // ============================================
 // Authorization Middleware
 // ============================================
@@ -209,6 +283,27 @@ export function requireAdmin(
   next();
 }
 
+/**
+ * Middleware factory to ensure the admin's role grants every listed permission
+ * Must be used after authenticateUser or authenticateAdmin
+ * e.g. router.post("/menu/items", authenticateAdmin, requirePermission("menu:write"), ...)
+ */
+export function requirePermission(...permissions: Permission[]) {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    if (!req.admin) {
+      res.status(403).json({ error: "Admin access required" });
+      return;
+    }
+
+    const missing = permissions.filter((permission) => !hasPermission(req.admin!.role, permission));
+    if (missing.length > 0) {
+      res.status(403).json({ error: "Insufficient permissions", missing });
+      return;
+    }
+    next();
+  };
+}
+
 /**
  * Middleware to ensure the request is from a guest
  * Must be used after authenticateUser or authenticateGuest
@@ -299,7 +394,7 @@ export async function authorizeGuestHotel(
       return;
     }
 
-    // Verify guest has access to this hotel (has placed an order)
+    // Verify guest has access to this hotel (has a profile there)
     const hasAccess = await verifyGuestHotelAccess(req.guest.guestId, hotelId);
     if (!hasAccess) {
       res.status(403).json({ error: "Access denied to this hotel" });
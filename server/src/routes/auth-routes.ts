@@ -1,12 +1,70 @@
-import type { Router } from "express";
+import type { Router, Request, Response } from "express";
 import {
   validateAdminEmail,
   createAdminVerification,
   verifyAdminPasscode,
-  findOrCreateGuest,
+  createGuestVerification,
+  verifyGuest,
+  createAnonymousGuest,
+  getAdminById,
+  getGuestById,
+  normalizeEmail,
 } from "../helpers/auth.helper.js";
 import { generateAdminToken, generateGuestToken } from "../helpers/jwt.helper.js";
-import { authenticateAdmin, authenticateGuest } from "../middleware/auth.middleware.js";
+import {
+  checkThrottle,
+  recordThrottleEvent,
+  resetThrottle,
+  getHotelLockouts,
+  VERIFY_FAILURE_POLICY,
+  CODE_REQUEST_EMAIL_POLICY,
+  REQUEST_IP_POLICY,
+  type ThrottleStatus,
+  type ThrottleTarget,
+} from "../helpers/throttle.helper.js";
+import {
+  createSession,
+  rotateRefreshToken,
+  revokeSession,
+  revokeAllSessions,
+} from "../helpers/session.helper.js";
+import { resolveTableToken } from "../helpers/table.helper.js";
+import {
+  authenticateAdmin,
+  authenticateGuest,
+  authenticateUser,
+  requirePermission,
+} from "../middleware/auth.middleware.js";
+
+/**
+ * Gets the client IP used for per-IP throttling
+ */
+function clientIp(req: Request): string {
+  return req.ip ?? req.socket.remoteAddress ?? "unknown";
+}
+
+/**
+ * Responds 429 with a Retry-After header for a locked-out key
+ */
+function sendThrottled(res: Response, status: ThrottleStatus) {
+  const retryAfterSeconds = status.retryAfterSeconds ?? 60;
+  res.set("Retry-After", String(retryAfterSeconds));
+  return res.status(429).json({
+    error: "Too many attempts, please try again later",
+    retryAfterSeconds,
+  });
+}
+
+/**
+ * Returns the first active lockout among the targets, if any
+ */
+async function findLockout(targets: ThrottleTarget[]): Promise<ThrottleStatus | null> {
+  for (const target of targets) {
+    const status = await checkThrottle(target);
+    if (!status.allowed) return status;
+  }
+  return null;
+}
 
 /**
  * Admin Authentication Routes
@@ -14,36 +72,58 @@ import { authenticateAdmin, authenticateGuest } from "../middleware/auth.middlew
 export function setupAdminAuthRoutes(router: Router) {
   /**
    * POST /auth/admin/request-verification
-   * Step 1: Admin provides email, system generates MFA passcode
+   * Step 1: Admin provides email (and optionally channel: "email" | "sms"),
+   * system delivers an MFA passcode over that channel
    */
   router.post("/admin/request-verification", async (req, res) => {
     try {
-      const { email } = req.body;
+      const { email, channel = "email" } = req.body;
 
       if (!email) {
         return res.status(400).json({ error: "Email is required" });
       }
 
+      if (channel !== "email" && channel !== "sms") {
+        return res.status(400).json({ error: "Channel must be 'email' or 'sms'" });
+      }
+
+      // Rate-limit code requests per IP and per admin email
+      const ipTarget = { scope: "admin-request:ip", key: clientIp(req) };
+      const ipStatus = await recordThrottleEvent(ipTarget, REQUEST_IP_POLICY);
+      if (!ipStatus.allowed) {
+        return sendThrottled(res, ipStatus);
+      }
+
       // Validate admin email exists
       const validation = await validateAdminEmail(email);
+
+      const emailTarget: ThrottleTarget = {
+        scope: "admin-request:email",
+        key: String(email).toLowerCase(),
+        hotelId: validation.hotelId ?? null,
+      };
+      const emailStatus = await recordThrottleEvent(emailTarget, CODE_REQUEST_EMAIL_POLICY);
+      if (!emailStatus.allowed) {
+        return sendThrottled(res, emailStatus);
+      }
+
       if (!validation.success) {
         return res.status(404).json({ error: validation.message });
       }
 
-      // Generate MFA passcode
-      const verification = await createAdminVerification(validation.adminId!);
+      // Generate and deliver MFA passcode
+      const verification = await createAdminVerification(validation.adminId!, channel);
 
       if (!verification.success) {
         return res.status(500).json({ error: verification.message });
       }
 
-      // In production, send passcode via SMS/Email
-      // For development, return it in response (remove in production!)
       res.json({
         message: "Verification code sent",
-        // TODO: Remove passcode from response in production
-        passcode: verification.passcode,
+        channel: verification.channel,
         expiresAt: verification.expiresAt,
+        // Only present when AUTH_DEV_MODE is on
+        ...(verification.passcode && { passcode: verification.passcode }),
       });
     } catch (error) {
       console.error("Admin verification request error:", error);
@@ -63,26 +143,51 @@ export function setupAdminAuthRoutes(router: Router) {
         return res.status(400).json({ error: "Email and passcode are required" });
       }
 
+      // Refuse guesses while the IP or admin email is locked out
+      const ipTarget: ThrottleTarget = { scope: "admin-verify:ip", key: clientIp(req) };
+      const emailTarget: ThrottleTarget = {
+        scope: "admin-verify:email",
+        key: String(email).toLowerCase(),
+      };
+
+      const lockout = await findLockout([ipTarget, emailTarget]);
+      if (lockout) {
+        return sendThrottled(res, lockout);
+      }
+
       // Verify passcode
       const verification = await verifyAdminPasscode(email, passcode);
 
       if (!verification.success) {
+        await recordThrottleEvent(ipTarget, VERIFY_FAILURE_POLICY);
+        await recordThrottleEvent(
+          { ...emailTarget, hotelId: verification.hotelId ?? null },
+          VERIFY_FAILURE_POLICY
+        );
         return res.status(401).json({ error: verification.message });
       }
 
-      // Generate JWT token
+      await resetThrottle(emailTarget);
+
+      // Start a session and generate JWT access token
+      const session = await createSession({ adminId: verification.adminId! });
       const token = generateAdminToken({
         adminId: verification.adminId!,
         hotelId: verification.hotelId!,
         email,
+        role: verification.role!,
+        sessionId: session.sessionId,
         type: "admin",
       });
 
       res.json({
         message: "Authentication successful",
         token,
+        refreshToken: session.refreshToken,
+        refreshExpiresAt: session.refreshExpiresAt,
         adminId: verification.adminId,
         hotelId: verification.hotelId,
+        role: verification.role,
       });
     } catch (error) {
       console.error("Admin verification error:", error);
@@ -90,6 +195,25 @@ export function setupAdminAuthRoutes(router: Router) {
     }
   });
 
+  /**
+   * GET /auth/admin/lockouts
+   * Active login lockouts of admins in the current admin's hotel
+   */
+  router.get(
+    "/admin/lockouts",
+    authenticateAdmin,
+    requirePermission("security:read"),
+    async (req, res) => {
+      try {
+        const lockouts = await getHotelLockouts(req.admin!.hotelId);
+        res.json({ lockouts });
+      } catch (error) {
+        console.error("Get lockouts error:", error);
+        res.status(500).json({ error: "Failed to get lockouts" });
+      }
+    }
+  );
+
   /**
    * GET /auth/admin/me
    * Get current admin profile (protected route)
@@ -102,6 +226,7 @@ export function setupAdminAuthRoutes(router: Router) {
           name: req.admin!.name,
           email: req.admin!.email,
           phone: req.admin!.phone,
+          role: req.admin!.role,
           hotelId: req.admin!.hotelId,
         },
       });
@@ -117,39 +242,179 @@ export function setupAdminAuthRoutes(router: Router) {
  */
 export function setupGuestAuthRoutes(router: Router) {
   /**
-   * POST /auth/guest/login
-   * Guest login/registration - creates guest if doesn't exist
+   * POST /auth/guest/request-code
+   * Step 1: Guest provides email (and a name used if they're new),
+   * system emails a one-time code and magic link
+   */
+  router.post("/guest/request-code", async (req, res) => {
+    try {
+      const { name } = req.body;
+
+      if (typeof req.body.email !== "string" || !req.body.email.trim()) {
+        return res.status(400).json({ error: "Email is required" });
+      }
+      const email = normalizeEmail(req.body.email);
+      if (name !== undefined && typeof name !== "string") {
+        return res.status(400).json({ error: "Name must be a string" });
+      }
+
+      // Rate-limit code requests per IP and per guest email
+      const ipStatus = await recordThrottleEvent(
+        { scope: "guest-request:ip", key: clientIp(req) },
+        REQUEST_IP_POLICY
+      );
+      if (!ipStatus.allowed) {
+        return sendThrottled(res, ipStatus);
+      }
+
+      const emailStatus = await recordThrottleEvent(
+        { scope: "guest-request:email", key: email },
+        CODE_REQUEST_EMAIL_POLICY
+      );
+      if (!emailStatus.allowed) {
+        return sendThrottled(res, emailStatus);
+      }
+
+      const verification = await createGuestVerification(email, name?.trim() || null);
+
+      if (!verification.success) {
+        return res.status(500).json({ error: verification.message });
+      }
+
+      res.json({
+        message: "Verification code sent",
+        expiresAt: verification.expiresAt,
+        // Only present when AUTH_DEV_MODE is on
+        ...(verification.passcode && {
+          passcode: verification.passcode,
+          linkToken: verification.linkToken,
+        }),
+      });
+    } catch (error) {
+      console.error("Guest code request error:", error);
+      res.status(500).json({ error: "Failed to request verification" });
+    }
+  });
+
+  /**
+   * POST /auth/guest/verify
+   * Step 2: Guest provides email and passcode, or the magic link token,
+   * receives JWT token
+   */
+  router.post("/guest/verify", async (req, res) => {
+    try {
+      const { passcode, token: linkToken } = req.body;
+
+      const byLink = typeof linkToken === "string" && linkToken.length > 0;
+      const email = typeof req.body.email === "string" ? normalizeEmail(req.body.email) : "";
+      if (!byLink && (!email || !passcode || typeof passcode !== "string")) {
+        return res.status(400).json({ error: "Email and passcode, or a link token, are required" });
+      }
+
+      // Refuse guesses while the IP or guest email is locked out
+      const ipTarget: ThrottleTarget = { scope: "guest-verify:ip", key: clientIp(req) };
+      const emailTarget: ThrottleTarget | null = byLink
+        ? null
+        : { scope: "guest-verify:email", key: email };
+
+      const lockout = await findLockout(emailTarget ? [ipTarget, emailTarget] : [ipTarget]);
+      if (lockout) {
+        return sendThrottled(res, lockout);
+      }
+
+      const verification = await verifyGuest(byLink ? { linkToken } : { email, passcode });
+
+      if (!verification.success) {
+        await recordThrottleEvent(ipTarget, VERIFY_FAILURE_POLICY);
+        if (emailTarget) {
+          await recordThrottleEvent(emailTarget, VERIFY_FAILURE_POLICY);
+        }
+        return res.status(401).json({ error: verification.message });
+      }
+
+      if (emailTarget) {
+        await resetThrottle(emailTarget);
+      }
+
+      // Start a session and generate JWT access token
+      const session = await createSession({ guestId: verification.guestId! });
+      const token = generateGuestToken({
+        guestId: verification.guestId!,
+        email: verification.email!,
+        sessionId: session.sessionId,
+        type: "guest",
+      });
+
+      res.json({
+        message: "Authentication successful",
+        token,
+        refreshToken: session.refreshToken,
+        refreshExpiresAt: session.refreshExpiresAt,
+        guestId: verification.guestId,
+      });
+    } catch (error) {
+      console.error("Guest verification error:", error);
+      res.status(500).json({ error: "Failed to verify guest" });
+    }
+  });
+
+  /**
+   * POST /auth/guest/anonymous
+   * Walk-in session without an email, scoped to the scanned table
+   * Body: { tableToken, name? }
    */
-  router.post("/guest/login", async (req, res) => {
+  router.post("/guest/anonymous", async (req, res) => {
     try {
-      const { email, name } = req.body;
+      const { tableToken, name } = req.body;
+
+      if (!tableToken || typeof tableToken !== "string") {
+        return res.status(400).json({ error: "Table token is required" });
+      }
+      if (name !== undefined && typeof name !== "string") {
+        return res.status(400).json({ error: "Name must be a string" });
+      }
+
+      // Rate-limit anonymous sessions per IP
+      const ipStatus = await recordThrottleEvent(
+        { scope: "guest-anonymous:ip", key: clientIp(req) },
+        REQUEST_IP_POLICY
+      );
+      if (!ipStatus.allowed) {
+        return sendThrottled(res, ipStatus);
+      }
 
-      if (!email || !name) {
-        return res.status(400).json({ error: "Email and name are required" });
+      const table = await resolveTableToken(tableToken);
+      if (!table) {
+        return res.status(404).json({ error: "Invalid or expired table code" });
       }
 
-      // Find or create guest
-      const result = await findOrCreateGuest(email, name);
+      const result = await createAnonymousGuest(table.id, name?.trim());
 
       if (!result.success) {
         return res.status(500).json({ error: result.message });
       }
 
-      // Generate JWT token
+      // Start a session and generate JWT access token
+      const session = await createSession({ guestId: result.guestId! });
       const token = generateGuestToken({
         guestId: result.guestId!,
-        email,
+        email: null,
+        sessionId: session.sessionId,
         type: "guest",
       });
 
       res.json({
         message: "Authentication successful",
         token,
+        refreshToken: session.refreshToken,
+        refreshExpiresAt: session.refreshExpiresAt,
         guestId: result.guestId,
+        hotelId: table.hotelId,
+        table: { id: table.id, label: table.label, zone: table.zone },
       });
     } catch (error) {
-      console.error("Guest login error:", error);
-      res.status(500).json({ error: "Failed to authenticate guest" });
+      console.error("Anonymous guest session error:", error);
+      res.status(500).json({ error: "Failed to start guest session" });
     }
   });
 
@@ -164,6 +429,8 @@ export function setupGuestAuthRoutes(router: Router) {
           id: req.guest!.id,
           name: req.guest!.name,
           email: req.guest!.email,
+          anonymous: req.guest!.email === null,
+          tableId: req.guest!.tableId,
         },
       });
     } catch (error) {
@@ -173,10 +440,113 @@ export function setupGuestAuthRoutes(router: Router) {
   });
 }
 
+/**
+ * Session Routes (shared by admins and guests)
+ */
+export function setupSessionRoutes(router: Router) {
+  /**
+   * POST /auth/refresh
+   * Exchange a refresh token for a new access token and refresh token
+   * Reusing an already exchanged refresh token revokes the whole session
+   */
+  router.post("/refresh", async (req, res) => {
+    try {
+      const { refreshToken } = req.body;
+
+      if (!refreshToken || typeof refreshToken !== "string") {
+        return res.status(400).json({ error: "Refresh token is required" });
+      }
+
+      const rotation = await rotateRefreshToken(refreshToken);
+      if (!rotation.success) {
+        return res.status(401).json({ error: rotation.message });
+      }
+
+      let token: string;
+      if (rotation.adminId !== undefined) {
+        const admin = await getAdminById(rotation.adminId);
+        if (!admin) {
+          return res.status(401).json({ error: "Admin not found" });
+        }
+        token = generateAdminToken({
+          adminId: admin.id,
+          hotelId: admin.hotelId,
+          email: admin.email,
+          role: admin.role,
+          sessionId: rotation.sessionId!,
+          type: "admin",
+        });
+      } else {
+        const guest = await getGuestById(rotation.guestId!);
+        if (!guest) {
+          return res.status(401).json({ error: "Guest not found" });
+        }
+        token = generateGuestToken({
+          guestId: guest.id,
+          email: guest.email,
+          sessionId: rotation.sessionId!,
+          type: "guest",
+        });
+      }
+
+      res.json({
+        message: "Session refreshed",
+        token,
+        refreshToken: rotation.refreshToken,
+        refreshExpiresAt: rotation.refreshExpiresAt,
+      });
+    } catch (error) {
+      console.error("Refresh session error:", error);
+      res.status(500).json({ error: "Failed to refresh session" });
+    }
+  });
+
+  /**
+   * POST /auth/logout
+   * Revoke the current session (protected route)
+   */
+  router.post("/logout", authenticateUser, async (req, res) => {
+    try {
+      const sessionId = req.admin?.sessionId ?? req.guest!.sessionId;
+
+      if (!(await revokeSession(sessionId))) {
+        return res.status(500).json({ error: "Failed to log out" });
+      }
+
+      res.json({ message: "Logged out" });
+    } catch (error) {
+      console.error("Logout error:", error);
+      res.status(500).json({ error: "Failed to log out" });
+    }
+  });
+
+  /**
+   * POST /auth/logout-all
+   * Revoke every session of the current admin or guest (protected route)
+   */
+  router.post("/logout-all", authenticateUser, async (req, res) => {
+    try {
+      const revoked = req.admin
+        ? await revokeAllSessions({ adminId: req.admin.id })
+        : await revokeAllSessions({ guestId: req.guest!.id });
+
+      if (revoked === null) {
+        return res.status(500).json({ error: "Failed to log out everywhere" });
+      }
+
+      res.json({ message: "Logged out everywhere", revokedSessions: revoked });
+    } catch (error) {
+      console.error("Logout everywhere error:", error);
+      res.status(500).json({ error: "Failed to log out everywhere" });
+    }
+  });
+}
+
 /**
  * Combined setup function for Express router
  */
 export function setupAuthRoutes(router: Router) {
   setupAdminAuthRoutes(router);
   setupGuestAuthRoutes(router);
+  setupSessionRoutes(router);
 }
@@ -0,0 +1,179 @@
+import type { Router } from "express";
+import {
+  placeOrder,
+  getGuestOrders,
+  getGuestOrder,
+  setOrderTip,
+  type CartLine,
+} from "../helpers/customer.helper.js";
+import { statusForCode } from "../helpers/http.helper.js";
+import { isCurrencyCode } from "../helpers/money.helper.js";
+import { resolveTableToken } from "../helpers/table.helper.js";
+import { authenticateGuest, requireHotelId } from "../middleware/auth.middleware.js";
+
+/**
+ * Guest Ordering Routes
+ */
+export function setupCustomerRoutes(router: Router) {
+  /**
+   * POST /hotels/:hotelId/orders
+   * Guest places an order:
+   * { tableToken?, items: [{ menuItemId, quantity, optionIds? }], currency?, tip?, code? }
+   * currency, when sent, must be the hotel's; tip is an amount in it; code
+   * is a promo code, rejected with the reason if it can't be used
+   * tableToken is the signed token from the table's QR code; it may be left
+   * out by anonymous guests, who may only order at their session's table
+   */
+  router.post("/hotels/:hotelId/orders", authenticateGuest, requireHotelId, async (req, res) => {
+    try {
+      const { tableToken, items, currency, tip, code } = req.body;
+      let tableId: number | null = null;
+
+      if (tableToken !== undefined) {
+        const table = typeof tableToken === "string" ? await resolveTableToken(tableToken) : null;
+        if (!table || table.hotelId !== req.hotelId) {
+          return res.status(400).json({ error: "Invalid or expired table code" });
+        }
+        tableId = table.id;
+      }
+
+      const sessionTableId = req.guest!.tableId;
+      if (sessionTableId !== null) {
+        tableId ??= sessionTableId;
+        if (tableId !== sessionTableId) {
+          return res.status(403).json({ error: "Guest session is limited to its own table" });
+        }
+      }
+
+      if (tableId === null) {
+        return res.status(400).json({ error: "Table code is required" });
+      }
+
+      if (!Array.isArray(items) || items.length === 0) {
+        return res.status(400).json({ error: "At least one order item is required" });
+      }
+
+      if (currency !== undefined && !isCurrencyCode(currency)) {
+        return res.status(400).json({ error: "Currency must be an ISO 4217 code" });
+      }
+
+      if (code !== undefined && (typeof code !== "string" || !code.trim())) {
+        return res.status(400).json({ error: "Promo code must be a non-empty string" });
+      }
+
+      const lines: CartLine[] = items.map(
+        (item: { menuItemId?: unknown; quantity?: unknown; optionIds?: unknown }) => ({
+          menuItemId: Number(item?.menuItemId),
+          quantity: Number(item?.quantity),
+          optionIds: Array.isArray(item?.optionIds) ? item.optionIds.map(Number) : [],
+        })
+      );
+
+      const result = await placeOrder(req.guest!.guestId, req.hotelId!, tableId, lines, {
+        ...(currency !== undefined && { currency }),
+        ...(tip !== undefined && { tip }),
+        ...(code !== undefined && { code }),
+      });
+
+      if (!result.success) {
+        if (result.notFound) {
+          return res.status(404).json({ error: result.message });
+        }
+        if (result.invalidTable || result.invalidCurrency || result.invalidTip) {
+          return res.status(400).json({ error: result.message });
+        }
+        if (result.invalidPromotion) {
+          return res.status(400).json({ error: result.message, promotionRejected: true });
+        }
+        if (result.lineErrors) {
+          // Malformed lines are the guest's to fix; stock and availability are conflicts
+          const status = result.lineErrors.some((line) => line.code === "INVALID") ? 400 : 409;
+          return res.status(status).json({ error: result.message, lines: result.lineErrors });
+        }
+        return res.status(500).json({ error: result.message });
+      }
+
+      res.status(201).json({
+        message: result.message,
+        orderId: result.orderId,
+      });
+    } catch (error) {
+      console.error("Place order error:", error);
+      res.status(500).json({ error: "Failed to place order" });
+    }
+  });
+
+  /**
+   * GET /orders?hotelId=<id>
+   * List the current guest's orders
+   */
+  router.get("/orders", authenticateGuest, async (req, res) => {
+    try {
+      const hotelId = req.query.hotelId
+        ? parseInt(req.query.hotelId as string, 10)
+        : undefined;
+
+      if (hotelId !== undefined && isNaN(hotelId)) {
+        return res.status(400).json({ error: "Valid hotel ID required" });
+      }
+
+      const orders = await getGuestOrders(req.guest!.guestId, hotelId);
+      res.json({ orders });
+    } catch (error) {
+      console.error("List guest orders error:", error);
+      res.status(500).json({ error: "Failed to list orders" });
+    }
+  });
+
+  /**
+   * GET /orders/:orderId
+   * Get one of the current guest's orders
+   */
+  router.get("/orders/:orderId", authenticateGuest, async (req, res) => {
+    try {
+      const orderId = parseInt(req.params.orderId!, 10);
+      if (isNaN(orderId)) {
+        return res.status(400).json({ error: "Valid order ID required" });
+      }
+
+      const order = await getGuestOrder(req.guest!.guestId, orderId);
+      if (!order) {
+        return res.status(404).json({ error: "Order not found" });
+      }
+
+      res.json({ order });
+    } catch (error) {
+      console.error("Get guest order error:", error);
+      res.status(500).json({ error: "Failed to get order" });
+    }
+  });
+
+  /**
+   * PUT /orders/:orderId/tip
+   * Add or change the tip on one of the current guest's orders: { tip }
+   * Refused once payment has started
+   */
+  router.put("/orders/:orderId/tip", authenticateGuest, async (req, res) => {
+    try {
+      const orderId = parseInt(req.params.orderId!, 10);
+      const { tip } = req.body;
+
+      if (isNaN(orderId)) {
+        return res.status(400).json({ error: "Valid order ID required" });
+      }
+      if (typeof tip !== "string" && typeof tip !== "number") {
+        return res.status(400).json({ error: "Tip is required" });
+      }
+
+      const result = await setOrderTip(req.guest!.guestId, orderId, tip);
+      if (!result.success) {
+        return res.status(statusForCode(result.code)).json({ error: result.message });
+      }
+
+      res.json({ message: result.message, totals: result.data });
+    } catch (error) {
+      console.error("Set order tip error:", error);
+      res.status(500).json({ error: "Failed to update tip" });
+    }
+  });
+}
@@ -0,0 +1,182 @@
+import type { Router, Request, Response } from "express";
+import {
+  subscribeToOrderEvents,
+  getOrderEventsSince,
+  type OrderFeedEvent,
+  type OrderFeedScope,
+} from "../helpers/events.helper.js";
+import { verifyToken, extractTokenFromHeader } from "../helpers/jwt.helper.js";
+import { isSessionActive, type SessionOwner } from "../helpers/session.helper.js";
+import {
+  acceptQueryToken,
+  authenticateAdmin,
+  authenticateGuest,
+  authorizeAdminHotel,
+  requirePermission,
+} from "../middleware/auth.middleware.js";
+
+// Comment lines keep idle connections open through proxies
+const HEARTBEAT_INTERVAL_MS = 25 * 1000;
+
+/**
+ * Reads the last seen event id from the Last-Event-ID header
+ * (sent automatically by EventSource on reconnect) or the lastEventId query
+ */
+function getLastEventId(req: Request): number | null {
+  const raw = req.header("Last-Event-ID") ?? (req.query.lastEventId as string | undefined);
+  if (!raw) return null;
+
+  const lastEventId = parseInt(raw, 10);
+  return isNaN(lastEventId) || lastEventId < 0 ? null : lastEventId;
+}
+
+/**
+ * Re-checks the token a stream was opened with: it must not have expired
+ * and its session must not have been revoked since
+ */
+async function isStreamAuthorized(req: Request, owner: SessionOwner): Promise<boolean> {
+  const token = extractTokenFromHeader(req.headers.authorization);
+  const payload = token ? verifyToken(token) : null;
+  if (!payload) return false;
+
+  return isSessionActive(payload.sessionId, owner);
+}
+
+function writeEvent(res: Response, event: OrderFeedEvent) {
+  const payload = {
+    orderId: event.orderId,
+    status: event.status,
+    createdAt: event.createdAt,
+    ...event.data,
+  };
+
+  res.write(`id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(payload)}\n\n`);
+}
+
+/**
+ * Opens a Server-Sent Events stream for a feed scope
+ * Missed events are replayed first; live events arriving during the replay
+ * are queued and de-duplicated by id so none are lost or sent twice
+ * The stream ends on the first heartbeat after the owner's token expires
+ * or their session is revoked
+ */
+async function streamOrderEvents(
+  req: Request,
+  res: Response,
+  scope: OrderFeedScope,
+  owner: SessionOwner
+) {
+  res.status(200).set({
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+    "X-Accel-Buffering": "no",
+  });
+  res.flushHeaders();
+
+  let lastSentId = getLastEventId(req) ?? 0;
+  let replaying = true;
+  const queued: OrderFeedEvent[] = [];
+
+  const send = (event: OrderFeedEvent) => {
+    if (event.id <= lastSentId) return;
+    writeEvent(res, event);
+    lastSentId = event.id;
+  };
+
+  const unsubscribe = subscribeToOrderEvents(scope, (event) => {
+    if (replaying) {
+      queued.push(event);
+    } else {
+      send(event);
+    }
+  });
+
+  let closed = false;
+  const heartbeat = setInterval(async () => {
+    const authorized = await isStreamAuthorized(req, owner);
+    // The client may have disconnected while the check ran
+    if (closed || res.writableEnded) return;
+
+    if (!authorized) {
+      close();
+      res.end();
+      return;
+    }
+    res.write(": heartbeat\n\n");
+  }, HEARTBEAT_INTERVAL_MS);
+
+  const close = () => {
+    closed = true;
+    clearInterval(heartbeat);
+    unsubscribe();
+  };
+  req.on("close", close);
+
+  if (lastSentId > 0) {
+    const missed = await getOrderEventsSince(scope, lastSentId);
+    missed.forEach(send);
+  }
+
+  replaying = false;
+  queued.forEach(send);
+  res.write(": connected\n\n");
+}
+
+/**
+ * Real-time Order Feed Routes
+ */
+export function setupFeedRoutes(router: Router) {
+  /**
+   * GET /admin/orders/events
+   * Kitchen feed of order creations and status changes for the admin's hotel
+   * Accepts the admin JWT via Authorization header or access_token query
+   */
+  router.get(
+    "/admin/orders/events",
+    acceptQueryToken,
+    authenticateAdmin,
+    authorizeAdminHotel,
+    requirePermission("orders:read"),
+    async (req, res) => {
+      try {
+        await streamOrderEvents(
+          req,
+          res,
+          { hotelId: req.hotelId! },
+          { adminId: req.admin!.id }
+        );
+      } catch (error) {
+        console.error("Admin order feed error:", error);
+        if (!res.headersSent) {
+          res.status(500).json({ error: "Failed to open order feed" });
+        } else {
+          res.end();
+        }
+      }
+    }
+  );
+
+  /**
+   * GET /guest/orders/events
+   * Feed of status changes for the current guest's own orders
+   * Accepts the guest JWT via Authorization header or access_token query
+   */
+  router.get("/guest/orders/events", acceptQueryToken, authenticateGuest, async (req, res) => {
+    try {
+      await streamOrderEvents(
+        req,
+        res,
+        { guestId: req.guest!.guestId },
+        { guestId: req.guest!.guestId }
+      );
+    } catch (error) {
+      console.error("Guest order feed error:", error);
+      if (!res.headersSent) {
+        res.status(500).json({ error: "Failed to open order feed" });
+      } else {
+        res.end();
+      }
+    }
+  });
+}
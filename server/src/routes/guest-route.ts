@@ -0,0 +1,119 @@
+import type { Router } from "express";
+import {
+  searchGuestProfiles,
+  getGuestProfile,
+  updateGuestProfile,
+  type GuestProfileUpdate,
+} from "../helpers/guest.helper.js";
+import { statusForCode } from "../helpers/http.helper.js";
+import {
+  authenticateAdmin,
+  authorizeAdminHotel,
+  requirePermission,
+} from "../middleware/auth.middleware.js";
+
+/**
+ * Guest Profile Routes (staff view of guests, scoped to their hotel)
+ */
+export function setupGuestRoutes(router: Router) {
+  /**
+   * GET /guests?q=<name or email>&limit=<n>
+   * Search the hotel's guests, most recent visit first
+   */
+  router.get(
+    "/guests",
+    authenticateAdmin,
+    authorizeAdminHotel,
+    requirePermission("guests:read"),
+    async (req, res) => {
+      try {
+        const query = typeof req.query.q === "string" ? req.query.q : undefined;
+        const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : undefined;
+
+        if (limit !== undefined && (isNaN(limit) || limit < 1)) {
+          return res.status(400).json({ error: "Limit must be a positive integer" });
+        }
+
+        const guests = await searchGuestProfiles(req.hotelId!, {
+          ...(query !== undefined && { query }),
+          ...(limit !== undefined && { limit }),
+        });
+        res.json({ guests });
+      } catch (error) {
+        console.error("Search guests error:", error);
+        res.status(500).json({ error: "Failed to search guests" });
+      }
+    }
+  );
+
+  /**
+   * GET /guests/:guestId
+   * A guest's profile and order history at this hotel
+   */
+  router.get(
+    "/guests/:guestId",
+    authenticateAdmin,
+    authorizeAdminHotel,
+    requirePermission("guests:read"),
+    async (req, res) => {
+      try {
+        const guestId = parseInt(req.params.guestId!, 10);
+        if (isNaN(guestId)) {
+          return res.status(400).json({ error: "Valid guest ID required" });
+        }
+
+        const guest = await getGuestProfile(req.hotelId!, guestId);
+        if (!guest) {
+          return res.status(404).json({ error: "Guest not found" });
+        }
+
+        res.json({ guest });
+      } catch (error) {
+        console.error("Get guest error:", error);
+        res.status(500).json({ error: "Failed to get guest" });
+      }
+    }
+  );
+
+  /**
+   * PATCH /guests/:guestId
+   * Update the hotel's notes and allergies for a guest: { notes?, allergies? }
+   */
+  router.patch(
+    "/guests/:guestId",
+    authenticateAdmin,
+    authorizeAdminHotel,
+    requirePermission("guests:write"),
+    async (req, res) => {
+      try {
+        const guestId = parseInt(req.params.guestId!, 10);
+        const { notes, allergies } = req.body;
+
+        if (isNaN(guestId)) {
+          return res.status(400).json({ error: "Valid guest ID required" });
+        }
+        if (notes !== undefined && notes !== null && typeof notes !== "string") {
+          return res.status(400).json({ error: "Notes must be a string" });
+        }
+        if (allergies !== undefined && allergies !== null && typeof allergies !== "string") {
+          return res.status(400).json({ error: "Allergies must be a string" });
+        }
+
+        const update: GuestProfileUpdate = {
+          ...(notes !== undefined && { notes: notes?.trim() || null }),
+          ...(allergies !== undefined && { allergies: allergies?.trim() || null }),
+        };
+
+        const result = await updateGuestProfile(req.hotelId!, guestId, update);
+        if (!result.success) {
+          return res.status(statusForCode(result.code)).json({ error: result.message });
+        }
+
+        res.json({ message: result.message });
+      } catch (error) {
+        console.error("Update guest error:", error);
+        res.status(500).json({ error: "Failed to update guest" });
+      }
+    }
+  );
+}
@@ -0,0 +1,467 @@
+import type { Router } from "express";
+import { statusForCode } from "../helpers/http.helper.js";
+import {
+  listStockMovements,
+  reconcileStock,
+  adjustStock,
+  receiveDelivery,
+  type DeliveryLine,
+} from "../helpers/inventory.helper.js";
+import {
+  listIngredients,
+  createIngredient,
+  updateIngredient,
+  deleteIngredient,
+  getRecipe,
+  setRecipe,
+  type IngredientUpdate,
+  type RecipeLineInput,
+} from "../helpers/recipe.helper.js";
+import {
+  authenticateAdmin,
+  authorizeAdminHotel,
+  requirePermission,
+} from "../middleware/auth.middleware.js";
+
+/**
+ * Checks an ingredient amount: a finite number (or numeric string) that is
+ * positive, or also zero with allowZero
+ */
+function isValidAmount(amount: unknown, allowZero = false): boolean {
+  const value = typeof amount === "string" && amount.trim() ? Number(amount) : amount;
+  return (
+    typeof value === "number" && Number.isFinite(value) && (allowZero ? value >= 0 : value > 0)
+  );
+}
+
+/**
+ * Validates a recipe body: { ingredients: [{ ingredientId, quantity }] }
+ * Returns the recipe lines, or an error message
+ */
+function parseRecipeBody(body: { ingredients?: unknown }): RecipeLineInput[] | string {
+  if (!Array.isArray(body.ingredients)) {
+    return "Ingredients must be an array";
+  }
+
+  const lines: RecipeLineInput[] = [];
+  for (const line of body.ingredients as { ingredientId?: unknown; quantity?: unknown }[]) {
+    if (!Number.isInteger(line?.ingredientId)) {
+      return "Every recipe line needs a valid ingredient ID";
+    }
+    if (!isValidAmount(line.quantity)) {
+      return "Recipe quantities must be positive numbers";
+    }
+    lines.push({ ingredientId: line.ingredientId as number, quantity: line.quantity as string | number });
+  }
+
+  return lines;
+}
+
+/**
+ * Inventory Routes (stock ledger, adjustments, deliveries, ingredients
+ * and recipes)
+ */
+export function setupInventoryRoutes(router: Router) {
+  /**
+   * GET /inventory/movements?menuItemId=<id>&limit=<n>
+   * The hotel's stock ledger, newest first
+   */
+  router.get(
+    "/inventory/movements",
+    authenticateAdmin,
+    authorizeAdminHotel,
+    requirePermission("inventory:manage"),
+    async (req, res) => {
+      try {
+        const menuItemId = req.query.menuItemId
+          ? parseInt(req.query.menuItemId as string, 10)
+          : undefined;
+        const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : undefined;
+
+        if (menuItemId !== undefined && isNaN(menuItemId)) {
+          return res.status(400).json({ error: "Valid menu item ID required" });
+        }
+        if (limit !== undefined && (isNaN(limit) || limit < 1)) {
+          return res.status(400).json({ error: "Limit must be a positive integer" });
+        }
+
+        const movements = await listStockMovements(req.hotelId!, {
+          ...(menuItemId !== undefined && { menuItemId }),
+          ...(limit !== undefined && { limit }),
+        });
+        res.json({ movements });
+      } catch (error) {
+        console.error("List stock movements error:", error);
+        res.status(500).json({ error: "Failed to list stock movements" });
+      }
+    }
+  );
+
+  /**
+   * GET /inventory/reconcile
+   * Menu items whose stock disagrees with their ledger
+   */
+  router.get(
+    "/inventory/reconcile",
+    authenticateAdmin,
+    authorizeAdminHotel,
+    requirePermission("inventory:manage"),
+    async (req, res) => {
+      try {
+        const discrepancies = await reconcileStock(req.hotelId!);
+        res.json({ reconciled: discrepancies.length === 0, discrepancies });
+      } catch (error) {
+        console.error("Reconcile stock error:", error);
+        res.status(500).json({ error: "Failed to reconcile stock" });
+      }
+    }
+  );
+
+  /**
+   * POST /inventory/adjustments
+   * Manually adjust an item's stock: { menuItemId, delta, note? }
+   */
+  router.post(
+    "/inventory/adjustments",
+    authenticateAdmin,
+    authorizeAdminHotel,
+    requirePermission("inventory:manage"),
+    async (req, res) => {
+      try {
+        const { menuItemId, delta, note } = req.body;
+
+        if (!Number.isInteger(menuItemId)) {
+          return res.status(400).json({ error: "Valid menu item ID required" });
+        }
+        if (!Number.isInteger(delta) || delta === 0) {
+          return res.status(400).json({ error: "Delta must be a non-zero integer" });
+        }
+        if (note !== undefined && note !== null && typeof note !== "string") {
+          return res.status(400).json({ error: "Note must be a string" });
+        }
+
+        const result = await adjustStock(req.hotelId!, req.admin!.id, {
+          menuItemId,
+          delta,
+          note: note?.trim() || null,
+        });
+        if (!result.success) {
+          return res.status(statusForCode(result.code)).json({ error: result.message });
+        }
+
+        res.status(201).json({ message: result.message, stock: result.data!.stock });
+      } catch (error) {
+        console.error("Adjust stock error:", error);
+        res.status(500).json({ error: "Failed to adjust stock" });
+      }
+    }
+  );
+
+  /**
+   * POST /inventory/deliveries
+   * Book a delivery restocking several items: { items: [{ menuItemId, quantity }], note? }
+   */
+  router.post(
+    "/inventory/deliveries",
+    authenticateAdmin,
+    authorizeAdminHotel,
+    requirePermission("inventory:manage"),
+    async (req, res) => {
+      try {
+        const { items, note } = req.body;
+
+        if (!Array.isArray(items) || items.length === 0) {
+          return res.status(400).json({ error: "At least one delivery line is required" });
+        }
+        if (note !== undefined && note !== null && typeof note !== "string") {
+          return res.status(400).json({ error: "Note must be a string" });
+        }
+
+        const lines: DeliveryLine[] = items.map(
+          (item: { menuItemId?: unknown; quantity?: unknown }) => ({
+            menuItemId: Number(item?.menuItemId),
+            quantity: Number(item?.quantity),
+          })
+        );
+
+        if (lines.some((line) => !Number.isInteger(line.menuItemId))) {
+          return res.status(400).json({ error: "Every line needs a valid menu item ID" });
+        }
+        if (lines.some((line) => !Number.isInteger(line.quantity) || line.quantity <= 0)) {
+          return res.status(400).json({ error: "Delivered quantities must be positive integers" });
+        }
+
+        const result = await receiveDelivery(req.hotelId!, req.admin!.id, lines, note?.trim() || null);
+        if (!result.success) {
+          return res.status(statusForCode(result.code)).json({ error: result.message });
+        }
+
+        res.status(201).json({ message: result.message, items: result.data!.items });
+      } catch (error) {
+        console.error("Book delivery error:", error);
+        res.status(500).json({ error: "Failed to book delivery" });
+      }
+    }
+  );
+
+  /**
+   * GET /inventory/ingredients
+   * List the hotel's ingredients with their stock levels
+   */
+  router.get(
+    "/inventory/ingredients",
+    authenticateAdmin,
+    authorizeAdminHotel,
+    requirePermission("inventory:manage"),
+    async (req, res) => {
+      try {
+        const ingredients = await listIngredients(req.hotelId!);
+        res.json({ ingredients });
+      } catch (error) {
+        console.error("List ingredients error:", error);
+        res.status(500).json({ error: "Failed to list ingredients" });
+      }
+    }
+  );
+
+  /**
+   * POST /inventory/ingredients
+   * Create an ingredient: { name, unit, stock? }
+   */
+  router.post(
+    "/inventory/ingredients",
+    authenticateAdmin,
+    authorizeAdminHotel,
+    requirePermission("inventory:manage"),
+    async (req, res) => {
+      try {
+        const { name, unit, stock } = req.body;
+
+        if (!name || typeof name !== "string" || !name.trim()) {
+          return res.status(400).json({ error: "Name is required" });
+        }
+        if (!unit || typeof unit !== "string" || !unit.trim()) {
+          return res.status(400).json({ error: "Unit is required" });
+        }
+        if (stock !== undefined && !isValidAmount(stock, true)) {
+          return res.status(400).json({ error: "Stock must be a non-negative number" });
+        }
+
+        const result = await createIngredient(req.hotelId!, {
+          name: name.trim(),
+          unit: unit.trim(),
+          ...(stock !== undefined && { stock }),
+        });
+        if (!result.success) {
+          return res.status(statusForCode(result.code)).json({ error: result.message });
+        }
+
+        res.status(201).json({ message: result.message, ingredient: result.data });
+      } catch (error) {
+        console.error("Create ingredient error:", error);
+        res.status(500).json({ error: "Failed to create ingredient" });
+      }
+    }
+  );
+
+  /**
+   * PATCH /inventory/ingredients/:ingredientId
+   * Update an ingredient's name, unit or stock level
+   */
+  router.patch(
+    "/inventory/ingredients/:ingredientId",
+    authenticateAdmin,
+    authorizeAdminHotel,
+    requirePermission("inventory:manage"),
+    async (req, res) => {
+      try {
+        const ingredientId = parseInt(req.params.ingredientId!, 10);
+        const { name, unit, stock } = req.body;
+
+        if (isNaN(ingredientId)) {
+          return res.status(400).json({ error: "Valid ingredient ID required" });
+        }
+        if (name !== undefined && (!name || typeof name !== "string" || !name.trim())) {
+          return res.status(400).json({ error: "Name must be a non-empty string" });
+        }
+        if (unit !== undefined && (!unit || typeof unit !== "string" || !unit.trim())) {
+          return res.status(400).json({ error: "Unit must be a non-empty string" });
+        }
+        if (stock !== undefined && !isValidAmount(stock, true)) {
+          return res.status(400).json({ error: "Stock must be a non-negative number" });
+        }
+
+        const update: IngredientUpdate = {
+          ...(name !== undefined && { name: name.trim() }),
+          ...(unit !== undefined && { unit: unit.trim() }),
+          ...(stock !== undefined && { stock }),
+        };
+
+        const result = await updateIngredient(req.hotelId!, ingredientId, update);
+        if (!result.success) {
+          return res.status(statusForCode(result.code)).json({ error: result.message });
+        }
+
+        res.json({ message: result.message, ingredient: result.data });
+      } catch (error) {
+        console.error("Update ingredient error:", error);
+        res.status(500).json({ error: "Failed to update ingredient" });
+      }
+    }
+  );
+
+  /**
+   * DELETE /inventory/ingredients/:ingredientId
+   * Delete an ingredient that no recipe uses
+   */
+  router.delete(
+    "/inventory/ingredients/:ingredientId",
+    authenticateAdmin,
+    authorizeAdminHotel,
+    requirePermission("inventory:manage"),
+    async (req, res) => {
+      try {
+        const ingredientId = parseInt(req.params.ingredientId!, 10);
+        if (isNaN(ingredientId)) {
+          return res.status(400).json({ error: "Valid ingredient ID required" });
+        }
+
+        const result = await deleteIngredient(req.hotelId!, ingredientId);
+        if (!result.success) {
+          return res.status(statusForCode(result.code)).json({ error: result.message });
+        }
+
+        res.json({ message: result.message });
+      } catch (error) {
+        console.error("Delete ingredient error:", error);
+        res.status(500).json({ error: "Failed to delete ingredient" });
+      }
+    }
+  );
+
+  /**
+   * GET /menu/items/:itemId/recipe
+   * Ingredients used per unit of the menu item
+   */
+  router.get(
+    "/menu/items/:itemId/recipe",
+    authenticateAdmin,
+    authorizeAdminHotel,
+    requirePermission("menu:read"),
+    async (req, res) => {
+      try {
+        const itemId = parseInt(req.params.itemId!, 10);
+        if (isNaN(itemId)) {
+          return res.status(400).json({ error: "Valid item ID required" });
+        }
+
+        const recipe = await getRecipe(req.hotelId!, { menuItemId: itemId });
+        if (!recipe) {
+          return res.status(404).json({ error: "Menu item not found" });
+        }
+
+        res.json({ recipe });
+      } catch (error) {
+        console.error("Get recipe error:", error);
+        res.status(500).json({ error: "Failed to get recipe" });
+      }
+    }
+  );
+
+  /**
+   * PUT /menu/items/:itemId/recipe
+   * Replace the menu item's recipe: { ingredients: [{ ingredientId, quantity }] }
+   */
+  router.put(
+    "/menu/items/:itemId/recipe",
+    authenticateAdmin,
+    authorizeAdminHotel,
+    requirePermission("inventory:manage"),
+    async (req, res) => {
+      try {
+        const itemId = parseInt(req.params.itemId!, 10);
+        if (isNaN(itemId)) {
+          return res.status(400).json({ error: "Valid item ID required" });
+        }
+
+        const lines = parseRecipeBody(req.body);
+        if (typeof lines === "string") {
+          return res.status(400).json({ error: lines });
+        }
+
+        const result = await setRecipe(req.hotelId!, { menuItemId: itemId }, lines);
+        if (!result.success) {
+          return res.status(statusForCode(result.code)).json({ error: result.message });
+        }
+
+        res.json({ message: result.message });
+      } catch (error) {
+        console.error("Save recipe error:", error);
+        res.status(500).json({ error: "Failed to save recipe" });
+      }
+    }
+  );
+
+  /**
+   * GET /menu/modifier-options/:optionId/recipe
+   * Ingredients used per unit of the modifier option
+   */
+  router.get(
+    "/menu/modifier-options/:optionId/recipe",
+    authenticateAdmin,
+    authorizeAdminHotel,
+    requirePermission("menu:read"),
+    async (req, res) => {
+      try {
+        const optionId = parseInt(req.params.optionId!, 10);
+        if (isNaN(optionId)) {
+          return res.status(400).json({ error: "Valid option ID required" });
+        }
+
+        const recipe = await getRecipe(req.hotelId!, { optionId: optionId });
+        if (!recipe) {
+          return res.status(404).json({ error: "Modifier option not found" });
+        }
+
+        res.json({ recipe });
+      } catch (error) {
+        console.error("Get recipe error:", error);
+        res.status(500).json({ error: "Failed to get recipe" });
+      }
+    }
+  );
+
+  /**
+   * PUT /menu/modifier-options/:optionId/recipe
+   * Replace the modifier option's recipe: { ingredients: [{ ingredientId, quantity }] }
+   */
+  router.put(
+    "/menu/modifier-options/:optionId/recipe",
+    authenticateAdmin,
+    authorizeAdminHotel,
+    requirePermission("inventory:manage"),
+    async (req, res) => {
+      try {
+        const optionId = parseInt(req.params.optionId!, 10);
+        if (isNaN(optionId)) {
+          return res.status(400).json({ error: "Valid option ID required" });
+        }
+
+        const lines = parseRecipeBody(req.body);
+        if (typeof lines === "string") {
+          return res.status(400).json({ error: lines });
+        }
+
+        const result = await setRecipe(req.hotelId!, { optionId: optionId }, lines);
+        if (!result.success) {
+          return res.status(statusForCode(result.code)).json({ error: result.message });
+        }
+
+        res.json({ message: result.message });
+      } catch (error) {
+        console.error("Save recipe error:", error);
+        res.status(500).json({ error: "Failed to save recipe" });
+      }
+    }
+  );
+}
@@ -0,0 +1,92 @@
+import type { Router } from "express";
+import { statusForCode } from "../helpers/http.helper.js";
+import { importMenu, exportMenu, formatMenuFile } from "../helpers/menu-file.helper.js";
+import {
+  authenticateAdmin,
+  authorizeAdminHotel,
+  requirePermission,
+} from "../middleware/auth.middleware.js";
+
+/**
+ * Menu Import & Export Routes (whole-menu CSV or JSON files)
+ */
+export function setupMenuFileRoutes(router: Router) {
+  /**
+   * GET /menu/export?format=csv|json
+   * Download the hotel's menu in the import format (JSON by default)
+   */
+  router.get(
+    "/menu/export",
+    authenticateAdmin,
+    authorizeAdminHotel,
+    requirePermission("menu:read"),
+    async (req, res) => {
+      try {
+        const format = (req.query.format as string) || "json";
+        if (format !== "csv" && format !== "json") {
+          return res.status(400).json({ error: "Format must be csv or json" });
+        }
+
+        const menu = await exportMenu(req.hotelId!);
+        if (!menu) {
+          return res.status(404).json({ error: "Hotel not found" });
+        }
+
+        res
+          .type(format === "csv" ? "text/csv" : "application/json")
+          .attachment(`menu-${req.hotelId}.${format}`)
+          .send(formatMenuFile(menu, format));
+      } catch (error) {
+        console.error("Export menu error:", error);
+        res.status(500).json({ error: "Failed to export menu" });
+      }
+    }
+  );
+
+  /**
+   * POST /menu/import
+   * Import a menu file: { format: "csv" | "json", data, dryRun?, prune? }
+   * data is the CSV text or the JSON menu; prune deletes whatever the file
+   * leaves out. The response lists row errors and the planned changes
+   */
+  router.post(
+    "/menu/import",
+    authenticateAdmin,
+    authorizeAdminHotel,
+    requirePermission("menu:write"),
+    async (req, res) => {
+      try {
+        const { format, data, dryRun, prune } = req.body;
+
+        if (format !== "csv" && format !== "json") {
+          return res.status(400).json({ error: "Format must be csv or json" });
+        }
+        if (format === "csv" ? typeof data !== "string" : data == null) {
+          return res.status(400).json({ error: "Menu file data is required" });
+        }
+        if (dryRun !== undefined && typeof dryRun !== "boolean") {
+          return res.status(400).json({ error: "dryRun must be a boolean" });
+        }
+        if (prune !== undefined && typeof prune !== "boolean") {
+          return res.status(400).json({ error: "prune must be a boolean" });
+        }
+
+        const result = await importMenu(req.hotelId!, format, data, {
+          dryRun: dryRun ?? false,
+          prune: prune ?? false,
+          adminId: req.admin!.id,
+        });
+        if (!result.success) {
+          return res
+            .status(statusForCode(result.code))
+            .json({ error: result.message, ...(result.data && { report: result.data }) });
+        }
+
+        res.json({ message: result.message, report: result.data });
+      } catch (error) {
+        console.error("Import menu error:", error);
+        res.status(500).json({ error: "Failed to import menu" });
+      }
+    }
+  );
+}
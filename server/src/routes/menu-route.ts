@@ -0,0 +1,43 @@
+import type { Router } from "express";
+import { getPublicMenu } from "../helpers/menu.helper.js";
+import { requireHotelId } from "../middleware/auth.middleware.js";
+
+/**
+ * Public Menu Routes (no authentication)
+ */
+export function setupPublicMenuRoutes(router: Router) {
+  /**
+   * GET /hotels/:hotelId/menu?locale=<tag>
+   * Hotel menu as categories with nested items and availability flags
+   * Translated per ?locale, then Accept-Language, then the hotel's default
+   * Honours If-None-Match / If-Modified-Since with 304 Not Modified
+   */
+  router.get("/hotels/:hotelId/menu", requireHotelId, async (req, res) => {
+    try {
+      const requested = typeof req.query.locale === "string" ? [req.query.locale] : [];
+      const result = await getPublicMenu(req.hotelId!, [...requested, ...req.acceptsLanguages()]);
+      if (!result) {
+        return res.status(404).json({ error: "Hotel not found" });
+      }
+
+      res.set({
+        ETag: result.etag,
+        "Cache-Control": "public, max-age=0, must-revalidate",
+        "Content-Language": result.menu.locale,
+        Vary: "Accept-Language",
+      });
+      if (result.lastModified) {
+        res.set("Last-Modified", result.lastModified.toUTCString());
+      }
+
+      if (req.fresh) {
+        return res.status(304).end();
+      }
+
+      res.json(result.menu);
+    } catch (error) {
+      console.error("Get public menu error:", error);
+      res.status(500).json({ error: "Failed to fetch menu" });
+    }
+  });
+}
@@ -0,0 +1,230 @@
+import express, { type Router } from "express";
+import { statusForCode } from "../helpers/http.helper.js";
+import {
+  startOrderPayment,
+  handlePaymentWebhook,
+  getGuestOrderPayment,
+  isPaymentMethod,
+  refundPayment,
+  getPaymentRefunds,
+  type RefundLineInput,
+} from "../helpers/payment.helper.js";
+import { isCurrencyCode } from "../helpers/money.helper.js";
+import {
+  authenticateAdmin,
+  authenticateGuest,
+  authorizeAdminHotel,
+  requirePermission,
+} from "../middleware/auth.middleware.js";
+
+// Positive decimal amount, e.g. "12" or "12.50"; the payment's currency
+// decides how many decimals are allowed
+const AMOUNT_PATTERN = /^\d+(\.\d+)?$/;
+
+/**
+ * Guest Payment Routes
+ */
+export function setupGuestPaymentRoutes(router: Router) {
+  /**
+   * POST /orders/:orderId/payment
+   * Start payment for the guest's order: { method }
+   * The amount is computed server-side from the order
+   */
+  router.post("/orders/:orderId/payment", authenticateGuest, async (req, res) => {
+    try {
+      const orderId = parseInt(req.params.orderId!, 10);
+      const { method } = req.body;
+
+      if (isNaN(orderId)) {
+        return res.status(400).json({ error: "Valid order ID required" });
+      }
+      if (!isPaymentMethod(method)) {
+        return res.status(400).json({ error: "Valid payment method required" });
+      }
+
+      const result = await startOrderPayment(req.guest!.guestId, orderId, method);
+      if (!result.success) {
+        return res.status(statusForCode(result.code)).json({ error: result.message });
+      }
+
+      res.status(201).json({
+        message: result.message,
+        payment: result.payment,
+        checkoutUrl: result.checkoutUrl,
+      });
+    } catch (error) {
+      console.error("Start payment error:", error);
+      res.status(500).json({ error: "Failed to start payment" });
+    }
+  });
+
+  /**
+   * GET /orders/:orderId/payment
+   * Get the payment status of the guest's order
+   */
+  router.get("/orders/:orderId/payment", authenticateGuest, async (req, res) => {
+    try {
+      const orderId = parseInt(req.params.orderId!, 10);
+      if (isNaN(orderId)) {
+        return res.status(400).json({ error: "Valid order ID required" });
+      }
+
+      const payment = await getGuestOrderPayment(req.guest!.guestId, orderId);
+      if (!payment) {
+        return res.status(404).json({ error: "Payment not found" });
+      }
+
+      res.json({ payment });
+    } catch (error) {
+      console.error("Get payment error:", error);
+      res.status(500).json({ error: "Failed to get payment" });
+    }
+  });
+}
+
+/**
+ * Payment Provider Webhook Routes
+ */
+export function setupPaymentWebhookRoutes(router: Router) {
+  /**
+   * POST /payments/webhooks/:provider
+   * Signed payment outcome from a provider (X-Signature header)
+   * Reads the raw body for signature checks, so the router must be mounted
+   * before any app-wide JSON body parser
+   */
+  router.post(
+    "/payments/webhooks/:provider",
+    express.raw({ type: "*/*" }),
+    async (req, res) => {
+      try {
+        const rawBody = Buffer.isBuffer(req.body) ? req.body.toString("utf8") : "";
+
+        const result = await handlePaymentWebhook(
+          req.params.provider!,
+          rawBody,
+          req.header("X-Signature")
+        );
+        if (!result.success) {
+          return res.status(statusForCode(result.code)).json({ error: result.message });
+        }
+
+        res.json({
+          message: result.message,
+          paymentId: result.paymentId,
+          status: result.status,
+          duplicate: result.duplicate ?? false,
+        });
+      } catch (error) {
+        console.error("Payment webhook error:", error);
+        res.status(500).json({ error: "Failed to process webhook" });
+      }
+    }
+  );
+}
+
+/**
+ * Admin Refund Routes
+ */
+export function setupRefundRoutes(router: Router) {
+  /**
+   * POST /payments/:paymentId/refunds
+   * Refund all or part of a payment:
+   * { amount, currency?, reason, items?: [{ orderItemId, quantity }], restock? }
+   * currency, when sent, must be the payment's
+   */
+  router.post(
+    "/payments/:paymentId/refunds",
+    authenticateAdmin,
+    authorizeAdminHotel,
+    requirePermission("payments:refund"),
+    async (req, res) => {
+      try {
+        const paymentId = parseInt(req.params.paymentId!, 10);
+        const { amount, currency, reason, items, restock } = req.body;
+
+        if (isNaN(paymentId)) {
+          return res.status(400).json({ error: "Valid payment ID required" });
+        }
+        if (!AMOUNT_PATTERN.test(String(amount ?? ""))) {
+          return res.status(400).json({ error: "Valid refund amount required" });
+        }
+        if (currency !== undefined && !isCurrencyCode(currency)) {
+          return res.status(400).json({ error: "Currency must be an ISO 4217 code" });
+        }
+        if (!reason || typeof reason !== "string") {
+          return res.status(400).json({ error: "Reason is required" });
+        }
+        if (items !== undefined && !Array.isArray(items)) {
+          return res.status(400).json({ error: "Items must be an array" });
+        }
+
+        const lines: RefundLineInput[] = (items ?? []).map(
+          (item: { orderItemId?: unknown; quantity?: unknown }) => ({
+            orderItemId: Number(item?.orderItemId),
+            quantity: Number(item?.quantity),
+          })
+        );
+
+        const result = await refundPayment(req.hotelId!, paymentId, req.admin!.id, {
+          amount: String(amount),
+          ...(currency !== undefined && { currency }),
+          reason: reason.trim(),
+          items: lines,
+          restock: restock === true,
+        });
+        if (!result.success) {
+          return res.status(statusForCode(result.code)).json({ error: result.message });
+        }
+
+        res.status(201).json({
+          message: result.message,
+          refundId: result.refundId,
+          refundedTotal: result.refundedTotal,
+          currency: result.currency,
+          paymentStatus: result.paymentStatus,
+        });
+      } catch (error) {
+        console.error("Refund payment error:", error);
+        res.status(500).json({ error: "Failed to refund payment" });
+      }
+    }
+  );
+
+  /**
+   * GET /payments/:paymentId/refunds
+   * List refunds recorded against a payment
+   */
+  router.get(
+    "/payments/:paymentId/refunds",
+    authenticateAdmin,
+    authorizeAdminHotel,
+    requirePermission("payments:read"),
+    async (req, res) => {
+      try {
+        const paymentId = parseInt(req.params.paymentId!, 10);
+        if (isNaN(paymentId)) {
+          return res.status(400).json({ error: "Valid payment ID required" });
+        }
+
+        const result = await getPaymentRefunds(req.hotelId!, paymentId);
+        if (!result) {
+          return res.status(404).json({ error: "Payment not found" });
+        }
+
+        res.json(result);
+      } catch (error) {
+        console.error("List refunds error:", error);
+        res.status(500).json({ error: "Failed to list refunds" });
+      }
+    }
+  );
+}
+
+/**
+ * Combined setup function for Express router
+ */
+export function setupPaymentRoutes(router: Router) {
+  setupGuestPaymentRoutes(router);
+  setupPaymentWebhookRoutes(router);
+  setupRefundRoutes(router);
+}
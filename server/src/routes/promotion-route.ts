@@ -0,0 +1,205 @@
+import type { Router } from "express";
+import type { PromotionType } from "../../generated/prisma/client.js";
+import { statusForCode } from "../helpers/http.helper.js";
+import {
+  listPromotions,
+  createPromotion,
+  updatePromotion,
+  deletePromotion,
+  type PromotionUpdate,
+} from "../helpers/promotion.helper.js";
+import {
+  authenticateAdmin,
+  authorizeAdminHotel,
+  requirePermission,
+} from "../middleware/auth.middleware.js";
+
+const PROMOTION_TYPES = ["PERCENTAGE", "FIXED_AMOUNT", "BUY_X_GET_Y"];
+
+const NULLABLE_INTEGERS = [
+  "buyQuantity",
+  "getQuantity",
+  "categoryId",
+  "menuItemId",
+  "maxRedemptions",
+  "maxPerGuest",
+] as const;
+
+const NULLABLE_STRINGS = ["code", "startTime", "endTime", "startDate", "endDate"] as const;
+
+/**
+ * Checks the types of the promotion fields present in a request body
+ * Returns the fields, or an error message; the helper checks the rules
+ * between them
+ */
+function parsePromotionBody(body: Record<string, unknown>): PromotionUpdate | string {
+  const fields: PromotionUpdate = {};
+
+  if (body.name !== undefined) {
+    if (typeof body.name !== "string" || !body.name.trim()) return "Name is required";
+    fields.name = body.name.trim();
+  }
+  if (body.type !== undefined) {
+    if (typeof body.type !== "string" || !PROMOTION_TYPES.includes(body.type)) {
+      return `Type must be one of ${PROMOTION_TYPES.join(", ")}`;
+    }
+    fields.type = body.type as PromotionType;
+  }
+  if (body.value !== undefined) {
+    if (body.value !== null && typeof body.value !== "string" && typeof body.value !== "number") {
+      return "Value must be a number";
+    }
+    fields.value = body.value;
+  }
+  for (const key of NULLABLE_INTEGERS) {
+    if (body[key] === undefined) continue;
+    if (body[key] !== null && !Number.isInteger(body[key])) return `${key} must be a whole number`;
+    fields[key] = body[key] as number | null;
+  }
+  for (const key of NULLABLE_STRINGS) {
+    if (body[key] === undefined) continue;
+    if (body[key] !== null && typeof body[key] !== "string") return `${key} must be a string`;
+    fields[key] = body[key] as string | null;
+  }
+  if (body.daysOfWeek !== undefined) {
+    if (body.daysOfWeek !== null && !Array.isArray(body.daysOfWeek)) {
+      return "daysOfWeek must list ISO weekdays 1-7";
+    }
+    fields.daysOfWeek = body.daysOfWeek;
+  }
+  if (body.active !== undefined) {
+    if (typeof body.active !== "boolean") return "active must be true or false";
+    fields.active = body.active;
+  }
+
+  return fields;
+}
+
+/**
+ * Promotion Routes (discount codes and automatic offers)
+ */
+export function setupPromotionRoutes(router: Router) {
+  /**
+   * GET /promotions
+   * List the hotel's promotions with their current redemption counts
+   */
+  router.get(
+    "/promotions",
+    authenticateAdmin,
+    authorizeAdminHotel,
+    requirePermission("promotions:manage"),
+    async (req, res) => {
+      try {
+        const promotions = await listPromotions(req.hotelId!);
+        res.json({ promotions });
+      } catch (error) {
+        console.error("List promotions error:", error);
+        res.status(500).json({ error: "Failed to list promotions" });
+      }
+    }
+  );
+
+  /**
+   * POST /promotions
+   * Create a promotion:
+   * { name, type, code?, value?, buyQuantity?, getQuantity?, categoryId? | menuItemId?,
+   *   daysOfWeek?, startTime?, endTime?, startDate?, endDate?, maxRedemptions?,
+   *   maxPerGuest?, active? }
+   * value is a percentage or an amount in the hotel's currency; promotions
+   * without a code apply automatically
+   */
+  router.post(
+    "/promotions",
+    authenticateAdmin,
+    authorizeAdminHotel,
+    requirePermission("promotions:manage"),
+    async (req, res) => {
+      try {
+        const fields = parsePromotionBody(req.body);
+        if (typeof fields === "string") {
+          return res.status(400).json({ error: fields });
+        }
+        if (fields.name === undefined || fields.type === undefined) {
+          return res.status(400).json({ error: "Name and type are required" });
+        }
+
+        const result = await createPromotion(req.hotelId!, {
+          ...fields,
+          name: fields.name,
+          type: fields.type,
+        });
+        if (!result.success) {
+          return res.status(statusForCode(result.code)).json({ error: result.message });
+        }
+
+        res.status(201).json({ message: result.message, promotion: result.data });
+      } catch (error) {
+        console.error("Create promotion error:", error);
+        res.status(500).json({ error: "Failed to create promotion" });
+      }
+    }
+  );
+
+  /**
+   * PATCH /promotions/:promotionId
+   * Update any of a promotion's fields; null clears an optional one
+   */
+  router.patch(
+    "/promotions/:promotionId",
+    authenticateAdmin,
+    authorizeAdminHotel,
+    requirePermission("promotions:manage"),
+    async (req, res) => {
+      try {
+        const promotionId = parseInt(req.params.promotionId!, 10);
+        if (isNaN(promotionId)) {
+          return res.status(400).json({ error: "Valid promotion ID required" });
+        }
+
+        const fields = parsePromotionBody(req.body);
+        if (typeof fields === "string") {
+          return res.status(400).json({ error: fields });
+        }
+
+        const result = await updatePromotion(req.hotelId!, promotionId, fields);
+        if (!result.success) {
+          return res.status(statusForCode(result.code)).json({ error: result.message });
+        }
+
+        res.json({ message: result.message, promotion: result.data });
+      } catch (error) {
+        console.error("Update promotion error:", error);
+        res.status(500).json({ error: "Failed to update promotion" });
+      }
+    }
+  );
+
+  /**
+   * DELETE /promotions/:promotionId
+   * Delete a promotion; orders placed with it keep their discounts
+   */
+  router.delete(
+    "/promotions/:promotionId",
+    authenticateAdmin,
+    authorizeAdminHotel,
+    requirePermission("promotions:manage"),
+    async (req, res) => {
+      try {
+        const promotionId = parseInt(req.params.promotionId!, 10);
+        if (isNaN(promotionId)) {
+          return res.status(400).json({ error: "Valid promotion ID required" });
+        }
+
+        const result = await deletePromotion(req.hotelId!, promotionId);
+        if (!result.success) {
+          return res.status(statusForCode(result.code)).json({ error: result.message });
+        }
+
+        res.json({ message: result.message });
+      } catch (error) {
+        console.error("Delete promotion error:", error);
+        res.status(500).json({ error: "Failed to delete promotion" });
+      }
+    }
+  );
+}
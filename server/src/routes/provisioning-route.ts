@@ -0,0 +1,105 @@
+import type { Router } from "express";
+import { statusForCode } from "../helpers/http.helper.js";
+import {
+  provisionHotel,
+  exportHotelData,
+  offboardHotel,
+} from "../helpers/provisioning.helper.js";
+import { authenticateSuperAdmin } from "../middleware/auth.middleware.js";
+
+/**
+ * Tenant Provisioning Routes (super-admin only)
+ */
+export function setupProvisioningRoutes(router: Router) {
+  /**
+   * POST /hotels
+   * Onboard a hotel: { name, owner: { name, email, phone }, categories?: string[] }
+   */
+  router.post("/hotels", authenticateSuperAdmin, async (req, res) => {
+    try {
+      const { name, owner, categories } = req.body;
+
+      if (!name || typeof name !== "string") {
+        return res.status(400).json({ error: "Hotel name is required" });
+      }
+      if (!owner?.name || !owner?.email || !owner?.phone) {
+        return res.status(400).json({ error: "Owner name, email and phone are required" });
+      }
+      if (
+        categories !== undefined &&
+        (!Array.isArray(categories) || !categories.every((c) => typeof c === "string" && c.trim()))
+      ) {
+        return res.status(400).json({ error: "Categories must be a list of names" });
+      }
+
+      const result = await provisionHotel({
+        hotel: { name: name.trim() },
+        owner: {
+          name: String(owner.name).trim(),
+          email: String(owner.email).trim().toLowerCase(),
+          phone: String(owner.phone).trim(),
+        },
+        categories: (categories ?? []).map((category: string) => category.trim()),
+      });
+      if (!result.success) {
+        return res.status(statusForCode(result.code)).json({ error: result.message });
+      }
+
+      res.status(201).json({
+        message: result.message,
+        hotelId: result.hotelId,
+        ownerId: result.ownerId,
+        categoryIds: result.categoryIds,
+      });
+    } catch (error) {
+      console.error("Provision hotel error:", error);
+      res.status(500).json({ error: "Failed to provision hotel" });
+    }
+  });
+
+  /**
+   * GET /hotels/:hotelId/export
+   * Export all of a hotel's data
+   */
+  router.get("/hotels/:hotelId/export", authenticateSuperAdmin, async (req, res) => {
+    try {
+      const hotelId = parseInt(req.params.hotelId!, 10);
+      if (isNaN(hotelId)) {
+        return res.status(400).json({ error: "Valid hotel ID required" });
+      }
+
+      const data = await exportHotelData(hotelId);
+      if (!data) {
+        return res.status(404).json({ error: "Hotel not found" });
+      }
+
+      res.json(data);
+    } catch (error) {
+      console.error("Export hotel error:", error);
+      res.status(500).json({ error: "Failed to export hotel" });
+    }
+  });
+
+  /**
+   * DELETE /hotels/:hotelId
+   * Offboard a hotel: responds with its data export, then it is gone
+   */
+  router.delete("/hotels/:hotelId", authenticateSuperAdmin, async (req, res) => {
+    try {
+      const hotelId = parseInt(req.params.hotelId!, 10);
+      if (isNaN(hotelId)) {
+        return res.status(400).json({ error: "Valid hotel ID required" });
+      }
+
+      const result = await offboardHotel(hotelId);
+      if (!result.success) {
+        return res.status(statusForCode(result.code)).json({ error: result.message });
+      }
+
+      res.json({ message: result.message, export: result.export });
+    } catch (error) {
+      console.error("Offboard hotel error:", error);
+      res.status(500).json({ error: "Failed to offboard hotel" });
+    }
+  });
+}
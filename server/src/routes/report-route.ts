@@ -0,0 +1,124 @@
+import type { Request, Router } from "express";
+import { statusForCode } from "../helpers/http.helper.js";
+import {
+  getSalesReport,
+  getPaymentReport,
+  getOperationsReport,
+  type ReportRange,
+} from "../helpers/report.helper.js";
+import { isValidDate } from "../helpers/schedule.helper.js";
+import {
+  authenticateAdmin,
+  authorizeAdminHotel,
+  requirePermission,
+} from "../middleware/auth.middleware.js";
+
+/**
+ * Reads the optional ?from=&to= date filters
+ * Returns null if either isn't formatted YYYY-MM-DD
+ */
+function parseRange(req: Request): Partial<ReportRange> | null {
+  const { from, to } = req.query;
+
+  if ((from !== undefined && !isValidDate(from)) || (to !== undefined && !isValidDate(to))) {
+    return null;
+  }
+
+  return {
+    ...(from !== undefined && { from }),
+    ...(to !== undefined && { to }),
+  };
+}
+
+/**
+ * Report Routes (hotel sales and service figures for owners and managers)
+ * Dates are hotel-local and inclusive; the default range is the last 30 days
+ */
+export function setupReportRoutes(router: Router) {
+  /**
+   * GET /reports/sales?from=YYYY-MM-DD&to=YYYY-MM-DD
+   * Sales by day, hour, category and item, with the average ticket size
+   */
+  router.get(
+    "/reports/sales",
+    authenticateAdmin,
+    authorizeAdminHotel,
+    requirePermission("reports:read"),
+    async (req, res) => {
+      try {
+        const range = parseRange(req);
+        if (!range) {
+          return res.status(400).json({ error: "Dates must be formatted YYYY-MM-DD" });
+        }
+
+        const result = await getSalesReport(req.hotelId!, range);
+        if (!result.success) {
+          return res.status(statusForCode(result.code)).json({ error: result.message });
+        }
+
+        res.json({ report: result.data });
+      } catch (error) {
+        console.error("Sales report error:", error);
+        res.status(500).json({ error: "Failed to generate sales report" });
+      }
+    }
+  );
+
+  /**
+   * GET /reports/payments?from=YYYY-MM-DD&to=YYYY-MM-DD
+   * Collected and refunded amounts per payment method
+   */
+  router.get(
+    "/reports/payments",
+    authenticateAdmin,
+    authorizeAdminHotel,
+    requirePermission("reports:read"),
+    async (req, res) => {
+      try {
+        const range = parseRange(req);
+        if (!range) {
+          return res.status(400).json({ error: "Dates must be formatted YYYY-MM-DD" });
+        }
+
+        const result = await getPaymentReport(req.hotelId!, range);
+        if (!result.success) {
+          return res.status(statusForCode(result.code)).json({ error: result.message });
+        }
+
+        res.json({ report: result.data });
+      } catch (error) {
+        console.error("Payment report error:", error);
+        res.status(500).json({ error: "Failed to generate payment report" });
+      }
+    }
+  );
+
+  /**
+   * GET /reports/operations?from=YYYY-MM-DD&to=YYYY-MM-DD
+   * Average time between order status transitions
+   */
+  router.get(
+    "/reports/operations",
+    authenticateAdmin,
+    authorizeAdminHotel,
+    requirePermission("reports:read"),
+    async (req, res) => {
+      try {
+        const range = parseRange(req);
+        if (!range) {
+          return res.status(400).json({ error: "Dates must be formatted YYYY-MM-DD" });
+        }
+
+        const result = await getOperationsReport(req.hotelId!, range);
+        if (!result.success) {
+          return res.status(statusForCode(result.code)).json({ error: result.message });
+        }
+
+        res.json({ report: result.data });
+      } catch (error) {
+        console.error("Operations report error:", error);
+        res.status(500).json({ error: "Failed to generate operations report" });
+      }
+    }
+  );
+}
@@ -0,0 +1,148 @@
+import type { Router } from "express";
+import { statusForCode } from "../helpers/http.helper.js";
+import {
+  listStaff,
+  inviteStaff,
+  changeStaffRole,
+  removeStaff,
+} from "../helpers/staff.helper.js";
+import { isAdminRole, ROLE_PERMISSIONS } from "../helpers/permission.helper.js";
+import {
+  authenticateAdmin,
+  authorizeAdminHotel,
+  requirePermission,
+} from "../middleware/auth.middleware.js";
+
+/**
+ * Staff Management Routes (owners only)
+ */
+export function setupStaffRoutes(router: Router) {
+  /**
+   * GET /staff/roles
+   * List roles and the permissions they grant
+   */
+  router.get("/staff/roles", authenticateAdmin, (req, res) => {
+    res.json({ roles: ROLE_PERMISSIONS });
+  });
+
+  /**
+   * GET /staff
+   * List the hotel's admins
+   */
+  router.get(
+    "/staff",
+    authenticateAdmin,
+    authorizeAdminHotel,
+    requirePermission("staff:manage"),
+    async (req, res) => {
+      try {
+        const staff = await listStaff(req.hotelId!);
+        res.json({ staff });
+      } catch (error) {
+        console.error("List staff error:", error);
+        res.status(500).json({ error: "Failed to list staff" });
+      }
+    }
+  );
+
+  /**
+   * POST /staff
+   * Invite an admin to the hotel: { name, email, phone, role }
+   */
+  router.post(
+    "/staff",
+    authenticateAdmin,
+    authorizeAdminHotel,
+    requirePermission("staff:manage"),
+    async (req, res) => {
+      try {
+        const { name, email, phone, role } = req.body;
+
+        if (!name || !email || !phone) {
+          return res.status(400).json({ error: "Name, email and phone are required" });
+        }
+        if (!isAdminRole(role)) {
+          return res.status(400).json({ error: "Valid role required" });
+        }
+
+        const result = await inviteStaff(req.hotelId!, {
+          name: String(name).trim(),
+          email: String(email).trim().toLowerCase(),
+          phone: String(phone).trim(),
+          role,
+        });
+        if (!result.success) {
+          return res.status(statusForCode(result.code)).json({ error: result.message });
+        }
+
+        res.status(201).json({ message: result.message, adminId: result.adminId });
+      } catch (error) {
+        console.error("Invite staff error:", error);
+        res.status(500).json({ error: "Failed to invite staff member" });
+      }
+    }
+  );
+
+  /**
+   * PATCH /staff/:adminId
+   * Change an admin's role: { role }
+   */
+  router.patch(
+    "/staff/:adminId",
+    authenticateAdmin,
+    authorizeAdminHotel,
+    requirePermission("staff:manage"),
+    async (req, res) => {
+      try {
+        const adminId = parseInt(req.params.adminId!, 10);
+        const { role } = req.body;
+
+        if (isNaN(adminId)) {
+          return res.status(400).json({ error: "Valid admin ID required" });
+        }
+        if (!isAdminRole(role)) {
+          return res.status(400).json({ error: "Valid role required" });
+        }
+
+        const result = await changeStaffRole(req.hotelId!, adminId, role);
+        if (!result.success) {
+          return res.status(statusForCode(result.code)).json({ error: result.message });
+        }
+
+        res.json({ message: result.message, adminId: result.adminId, role });
+      } catch (error) {
+        console.error("Change staff role error:", error);
+        res.status(500).json({ error: "Failed to change role" });
+      }
+    }
+  );
+
+  /**
+   * DELETE /staff/:adminId
+   * Remove an admin from the hotel
+   */
+  router.delete(
+    "/staff/:adminId",
+    authenticateAdmin,
+    authorizeAdminHotel,
+    requirePermission("staff:manage"),
+    async (req, res) => {
+      try {
+        const adminId = parseInt(req.params.adminId!, 10);
+        if (isNaN(adminId)) {
+          return res.status(400).json({ error: "Valid admin ID required" });
+        }
+
+        const result = await removeStaff(req.hotelId!, adminId);
+        if (!result.success) {
+          return res.status(statusForCode(result.code)).json({ error: result.message });
+        }
+
+        res.json({ message: result.message });
+      } catch (error) {
+        console.error("Remove staff error:", error);
+        res.status(500).json({ error: "Failed to remove staff member" });
+      }
+    }
+  );
+}
@@ -0,0 +1,247 @@
+import type { Router } from "express";
+import { statusForCode } from "../helpers/http.helper.js";
+import {
+  listTables,
+  createTable,
+  updateTable,
+  deleteTable,
+  rotateTableToken,
+  renderTableQrCode,
+  resolveTableToken,
+  getTableUrl,
+  type TableUpdate,
+} from "../helpers/table.helper.js";
+import {
+  authenticateAdmin,
+  authorizeAdminHotel,
+  requirePermission,
+} from "../middleware/auth.middleware.js";
+
+/**
+ * Table & QR Code Routes
+ */
+export function setupTableRoutes(router: Router) {
+  /**
+   * GET /tables/scan/:token
+   * Public: resolve a scanned QR code to its hotel and table
+   */
+  router.get("/tables/scan/:token", async (req, res) => {
+    try {
+      const table = await resolveTableToken(req.params.token!);
+      if (!table) {
+        return res.status(404).json({ error: "Invalid or expired table code" });
+      }
+
+      res.json({
+        hotelId: table.hotelId,
+        table: { id: table.id, label: table.label, zone: table.zone },
+      });
+    } catch (error) {
+      console.error("Scan table error:", error);
+      res.status(500).json({ error: "Failed to resolve table" });
+    }
+  });
+
+  /**
+   * GET /tables
+   * List the hotel's tables with their QR code URLs
+   */
+  router.get(
+    "/tables",
+    authenticateAdmin,
+    authorizeAdminHotel,
+    requirePermission("orders:read"),
+    async (req, res) => {
+      try {
+        const tables = await listTables(req.hotelId!);
+        res.json({
+          tables: tables.map(({ tokenVersion, ...table }) => ({
+            ...table,
+            url: getTableUrl({ ...table, tokenVersion }),
+          })),
+        });
+      } catch (error) {
+        console.error("List tables error:", error);
+        res.status(500).json({ error: "Failed to list tables" });
+      }
+    }
+  );
+
+  /**
+   * POST /tables
+   * Create a table: { label, zone?, active? }
+   */
+  router.post(
+    "/tables",
+    authenticateAdmin,
+    authorizeAdminHotel,
+    requirePermission("tables:manage"),
+    async (req, res) => {
+      try {
+        const { label, zone, active } = req.body;
+
+        if (!label || typeof label !== "string" || !label.trim()) {
+          return res.status(400).json({ error: "Label is required" });
+        }
+        if (zone !== undefined && zone !== null && typeof zone !== "string") {
+          return res.status(400).json({ error: "Zone must be a string" });
+        }
+        if (active !== undefined && typeof active !== "boolean") {
+          return res.status(400).json({ error: "Active must be a boolean" });
+        }
+
+        const result = await createTable(req.hotelId!, {
+          label: label.trim(),
+          zone: zone?.trim() || null,
+          ...(active !== undefined && { active }),
+        });
+        if (!result.success) {
+          return res.status(statusForCode(result.code)).json({ error: result.message });
+        }
+
+        res.status(201).json({ message: result.message, table: result.data });
+      } catch (error) {
+        console.error("Create table error:", error);
+        res.status(500).json({ error: "Failed to create table" });
+      }
+    }
+  );
+
+  /**
+   * PATCH /tables/:tableId
+   * Update a table's label, zone or active flag
+   */
+  router.patch(
+    "/tables/:tableId",
+    authenticateAdmin,
+    authorizeAdminHotel,
+    requirePermission("tables:manage"),
+    async (req, res) => {
+      try {
+        const tableId = parseInt(req.params.tableId!, 10);
+        const { label, zone, active } = req.body;
+
+        if (isNaN(tableId)) {
+          return res.status(400).json({ error: "Valid table ID required" });
+        }
+        if (label !== undefined && (!label || typeof label !== "string" || !label.trim())) {
+          return res.status(400).json({ error: "Label must be a non-empty string" });
+        }
+        if (zone !== undefined && zone !== null && typeof zone !== "string") {
+          return res.status(400).json({ error: "Zone must be a string" });
+        }
+        if (active !== undefined && typeof active !== "boolean") {
+          return res.status(400).json({ error: "Active must be a boolean" });
+        }
+
+        const update: TableUpdate = {
+          ...(label !== undefined && { label: label.trim() }),
+          ...(zone !== undefined && { zone: zone?.trim() || null }),
+          ...(active !== undefined && { active }),
+        };
+
+        const result = await updateTable(req.hotelId!, tableId, update);
+        if (!result.success) {
+          return res.status(statusForCode(result.code)).json({ error: result.message });
+        }
+
+        res.json({ message: result.message, table: result.data });
+      } catch (error) {
+        console.error("Update table error:", error);
+        res.status(500).json({ error: "Failed to update table" });
+      }
+    }
+  );
+
+  /**
+   * DELETE /tables/:tableId
+   * Delete a table that has never received an order
+   */
+  router.delete(
+    "/tables/:tableId",
+    authenticateAdmin,
+    authorizeAdminHotel,
+    requirePermission("tables:manage"),
+    async (req, res) => {
+      try {
+        const tableId = parseInt(req.params.tableId!, 10);
+        if (isNaN(tableId)) {
+          return res.status(400).json({ error: "Valid table ID required" });
+        }
+
+        const result = await deleteTable(req.hotelId!, tableId);
+        if (!result.success) {
+          return res.status(statusForCode(result.code)).json({ error: result.message });
+        }
+
+        res.json({ message: result.message });
+      } catch (error) {
+        console.error("Delete table error:", error);
+        res.status(500).json({ error: "Failed to delete table" });
+      }
+    }
+  );
+
+  /**
+   * GET /tables/:tableId/qr?format=svg|png
+   * Render the table's QR code (SVG by default)
+   */
+  router.get(
+    "/tables/:tableId/qr",
+    authenticateAdmin,
+    authorizeAdminHotel,
+    requirePermission("tables:manage"),
+    async (req, res) => {
+      try {
+        const tableId = parseInt(req.params.tableId!, 10);
+        const format = (req.query.format as string) || "svg";
+
+        if (isNaN(tableId)) {
+          return res.status(400).json({ error: "Valid table ID required" });
+        }
+        if (format !== "svg" && format !== "png") {
+          return res.status(400).json({ error: "Format must be svg or png" });
+        }
+
+        const qr = await renderTableQrCode(req.hotelId!, tableId, format);
+        if (!qr) {
+          return res.status(404).json({ error: "Table not found" });
+        }
+
+        res.type(qr.contentType).send(qr.body);
+      } catch (error) {
+        console.error("Render table QR code error:", error);
+        res.status(500).json({ error: "Failed to render QR code" });
+      }
+    }
+  );
+
+  /**
+   * POST /tables/:tableId/qr/rotate
+   * Invalidate the table's printed QR code and issue a new one
+   */
+  router.post(
+    "/tables/:tableId/qr/rotate",
+    authenticateAdmin,
+    authorizeAdminHotel,
+    requirePermission("tables:manage"),
+    async (req, res) => {
+      try {
+        const tableId = parseInt(req.params.tableId!, 10);
+        if (isNaN(tableId)) {
+          return res.status(400).json({ error: "Valid table ID required" });
+        }
+
+        const result = await rotateTableToken(req.hotelId!, tableId);
+        if (!result.success) {
+          return res.status(statusForCode(result.code)).json({ error: result.message });
+        }
+
+        res.json({ message: result.message, url: result.data!.url });
+      } catch (error) {
+        console.error("Rotate table QR code error:", error);
+        res.status(500).json({ error: "Failed to rotate QR code" });
+      }
+    }
+  );
+}
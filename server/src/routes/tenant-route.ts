@@ -0,0 +1,1194 @@
+import type { Router } from "express";
+import { statusForCode } from "../helpers/http.helper.js";
+import {
+  listCategories,
+  getCategory,
+  createCategory,
+  updateCategory,
+  deleteCategory,
+  listMenuItems,
+  getMenuItem,
+  createMenuItem,
+  updateMenuItem,
+  deleteMenuItem,
+  listModifierGroups,
+  createModifierGroup,
+  updateModifierGroup,
+  deleteModifierGroup,
+  createModifierOption,
+  updateModifierOption,
+  deleteModifierOption,
+  setHotelCurrency,
+  type MenuItemUpdate,
+  type ModifierGroupUpdate,
+  type ModifierOptionInput,
+  type ModifierOptionUpdate,
+  type CategoryDeleteOptions,
+} from "../helpers/tenant.helper.js";
+import {
+  setHotelTimeZone,
+  listSchedules,
+  createSchedule,
+  deleteSchedule,
+  eightySixMenuItem,
+  restoreMenuItem,
+  isValidTime,
+  isValidDate,
+} from "../helpers/schedule.helper.js";
+import { setHotelPricingRules, setCategoryTaxRate, isValidRate } from "../helpers/tax.helper.js";
+import {
+  transitionOrderStatus,
+  listHotelOrders,
+  getOrderStatusHistory,
+  isOrderStatus,
+} from "../helpers/order.helper.js";
+import {
+  authenticateAdmin,
+  authorizeAdminHotel,
+  requirePermission,
+} from "../middleware/auth.middleware.js";
+
+/**
+ * Checks a name that still has text once trimmed
+ */
+function isValidName(name: unknown): name is string {
+  return typeof name === "string" && name.trim() !== "";
+}
+
+/**
+ * Checks a price: a non-negative number or numeric string such as "12.50";
+ * empty strings don't count as zero
+ */
+function isValidPrice(price: unknown): boolean {
+  if (typeof price === "string") return /^\d+(\.\d+)?$/.test(price.trim());
+  return typeof price === "number" && Number.isFinite(price) && price >= 0;
+}
+
+function isValidStock(stock: unknown): boolean {
+  return Number.isInteger(stock) && (stock as number) >= 0;
+}
+
+function isValidPriceDelta(priceDelta: unknown): boolean {
+  if (typeof priceDelta === "string") return /^-?\d+(\.\d+)?$/.test(priceDelta.trim());
+  return typeof priceDelta === "number" && Number.isFinite(priceDelta);
+}
+
+/**
+ * Drops the padding around a validated price string so it can be stored
+ */
+function trimAmount(amount: string | number): string | number {
+  return typeof amount === "string" ? amount.trim() : amount;
+}
+
+/**
+ * Validates a modifier option body; with partial set, every field is optional
+ * Returns an error message, or null if the body is valid
+ */
+function checkOptionBody(
+  body: { name?: unknown; priceDelta?: unknown; stock?: unknown },
+  partial = false
+): string | null {
+  if ((!partial || body.name !== undefined) && !isValidName(body.name)) {
+    return "Option name is required";
+  }
+  if (body.priceDelta !== undefined && !isValidPriceDelta(body.priceDelta)) {
+    return "Price delta must be a number";
+  }
+  if (body.stock !== undefined && body.stock !== null && !isValidStock(body.stock)) {
+    return "Stock must be a non-negative integer or null";
+  }
+  return null;
+}
+
+/**
+ * Admin Hotel Settings Routes
+ */
+export function setupHotelSettingsRoutes(router: Router) {
+  /**
+   * PUT /hotel/currency
+   * Set the ISO 4217 currency menu prices are in: { currency }
+   * Refused once the hotel has taken orders
+   */
+  router.put(
+    "/hotel/currency",
+    authenticateAdmin,
+    authorizeAdminHotel,
+    requirePermission("menu:write"),
+    async (req, res) => {
+      try {
+        const { currency } = req.body;
+        if (!currency || typeof currency !== "string") {
+          return res.status(400).json({ error: "Currency is required" });
+        }
+
+        const result = await setHotelCurrency(req.hotelId!, currency.trim().toUpperCase());
+        if (!result.success) {
+          return res.status(statusForCode(result.code)).json({ error: result.message });
+        }
+
+        res.json({ message: result.message, currency: result.data!.currency });
+      } catch (error) {
+        console.error("Set currency error:", error);
+        res.status(500).json({ error: "Failed to update currency" });
+      }
+    }
+  );
+
+  /**
+   * PUT /hotel/taxes
+   * Update tax and service charge rules; rates are percentages:
+   * { taxName?, taxRate?, taxInclusive?, serviceChargeRate? }
+   * Orders already placed keep their totals
+   */
+  router.put(
+    "/hotel/taxes",
+    authenticateAdmin,
+    authorizeAdminHotel,
+    requirePermission("menu:write"),
+    async (req, res) => {
+      try {
+        const { taxName, taxRate, taxInclusive, serviceChargeRate } = req.body;
+
+        if (taxName !== undefined && (typeof taxName !== "string" || !taxName.trim())) {
+          return res.status(400).json({ error: "Tax name cannot be empty" });
+        }
+        if (taxRate !== undefined && !isValidRate(taxRate)) {
+          return res.status(400).json({ error: "Tax rate must be a percentage from 0 to 100" });
+        }
+        if (taxInclusive !== undefined && typeof taxInclusive !== "boolean") {
+          return res.status(400).json({ error: "taxInclusive must be a boolean" });
+        }
+        if (serviceChargeRate !== undefined && !isValidRate(serviceChargeRate)) {
+          return res
+            .status(400)
+            .json({ error: "Service charge rate must be a percentage from 0 to 100" });
+        }
+
+        const result = await setHotelPricingRules(req.hotelId!, {
+          ...(taxName !== undefined && { taxName: taxName.trim() }),
+          ...(taxRate !== undefined && { taxRate }),
+          ...(taxInclusive !== undefined && { taxInclusive }),
+          ...(serviceChargeRate !== undefined && { serviceChargeRate }),
+        });
+        if (!result.success) {
+          return res.status(statusForCode(result.code)).json({ error: result.message });
+        }
+
+        res.json({ message: result.message, taxes: result.data });
+      } catch (error) {
+        console.error("Set tax settings error:", error);
+        res.status(500).json({ error: "Failed to update tax settings" });
+      }
+    }
+  );
+
+  /**
+   * PUT /menu/categories/:categoryId/tax-rate
+   * Give a category its own tax rate: { taxRate } (null uses the hotel's)
+   */
+  router.put(
+    "/menu/categories/:categoryId/tax-rate",
+    authenticateAdmin,
+    authorizeAdminHotel,
+    requirePermission("menu:write"),
+    async (req, res) => {
+      try {
+        const categoryId = parseInt(req.params.categoryId!, 10);
+        const { taxRate } = req.body;
+
+        if (isNaN(categoryId)) {
+          return res.status(400).json({ error: "Valid category ID required" });
+        }
+        if (taxRate !== null && !isValidRate(taxRate)) {
+          return res
+            .status(400)
+            .json({ error: "Tax rate must be a percentage from 0 to 100, or null" });
+        }
+
+        const result = await setCategoryTaxRate(req.hotelId!, categoryId, taxRate);
+        if (!result.success) {
+          return res.status(statusForCode(result.code)).json({ error: result.message });
+        }
+
+        res.json({ message: result.message, taxRate: result.data!.taxRate });
+      } catch (error) {
+        console.error("Set category tax rate error:", error);
+        res.status(500).json({ error: "Failed to update category tax rate" });
+      }
+    }
+  );
+}
+
+/**
+ * Admin Menu Category Routes
+ */
+export function setupCategoryRoutes(router: Router) {
+  /**
+   * GET /menu/categories
+   * List the admin's hotel categories
+   */
+  router.get(
+    "/menu/categories",
+    authenticateAdmin,
+    authorizeAdminHotel,
+    requirePermission("menu:read"),
+    async (req, res) => {
+      try {
+        const categories = await listCategories(req.hotelId!);
+        res.json({ categories });
+      } catch (error) {
+        console.error("List categories error:", error);
+        res.status(500).json({ error: "Failed to list categories" });
+      }
+    }
+  );
+
+  /**
+   * GET /menu/categories/:categoryId
+   * Get a category with its items
+   */
+  router.get(
+    "/menu/categories/:categoryId",
+    authenticateAdmin,
+    authorizeAdminHotel,
+    requirePermission("menu:read"),
+    async (req, res) => {
+      try {
+        const categoryId = parseInt(req.params.categoryId!, 10);
+        if (isNaN(categoryId)) {
+          return res.status(400).json({ error: "Valid category ID required" });
+        }
+
+        const category = await getCategory(req.hotelId!, categoryId);
+        if (!category) {
+          return res.status(404).json({ error: "Category not found" });
+        }
+
+        res.json({ category });
+      } catch (error) {
+        console.error("Get category error:", error);
+        res.status(500).json({ error: "Failed to get category" });
+      }
+    }
+  );
+
+  /**
+   * POST /menu/categories
+   * Create a category
+   */
+  router.post(
+    "/menu/categories",
+    authenticateAdmin,
+    authorizeAdminHotel,
+    requirePermission("menu:write"),
+    async (req, res) => {
+      try {
+        const { name } = req.body;
+
+        if (!isValidName(name)) {
+          return res.status(400).json({ error: "Name is required" });
+        }
+
+        const result = await createCategory(req.hotelId!, { name: name.trim() });
+        if (!result.success) {
+          return res.status(statusForCode(result.code)).json({ error: result.message });
+        }
+
+        res.status(201).json({ message: result.message, category: result.data });
+      } catch (error) {
+        console.error("Create category error:", error);
+        res.status(500).json({ error: "Failed to create category" });
+      }
+    }
+  );
+
+  /**
+   * PATCH /menu/categories/:categoryId
+   * Rename a category
+   */
+  router.patch(
+    "/menu/categories/:categoryId",
+    authenticateAdmin,
+    authorizeAdminHotel,
+    requirePermission("menu:write"),
+    async (req, res) => {
+      try {
+        const categoryId = parseInt(req.params.categoryId!, 10);
+        const { name } = req.body;
+
+        if (isNaN(categoryId)) {
+          return res.status(400).json({ error: "Valid category ID required" });
+        }
+        if (!isValidName(name)) {
+          return res.status(400).json({ error: "Name is required" });
+        }
+
+        const result = await updateCategory(req.hotelId!, categoryId, { name: name.trim() });
+        if (!result.success) {
+          return res.status(statusForCode(result.code)).json({ error: result.message });
+        }
+
+        res.json({ message: result.message, category: result.data });
+      } catch (error) {
+        console.error("Update category error:", error);
+        res.status(500).json({ error: "Failed to update category" });
+      }
+    }
+  );
+
+  /**
+   * DELETE /menu/categories/:categoryId?mode=cascade
+   * DELETE /menu/categories/:categoryId?mode=reassign&targetCategoryId=<id>
+   * Delete a category; non-empty categories require a mode
+   */
+  router.delete(
+    "/menu/categories/:categoryId",
+    authenticateAdmin,
+    authorizeAdminHotel,
+    requirePermission("menu:write"),
+    async (req, res) => {
+      try {
+        const categoryId = parseInt(req.params.categoryId!, 10);
+        if (isNaN(categoryId)) {
+          return res.status(400).json({ error: "Valid category ID required" });
+        }
+
+        const mode = req.query.mode as string | undefined;
+        let options: CategoryDeleteOptions | undefined;
+
+        if (mode === "cascade") {
+          options = { mode: "cascade" };
+        } else if (mode === "reassign") {
+          const targetCategoryId = parseInt(req.query.targetCategoryId as string, 10);
+          if (isNaN(targetCategoryId)) {
+            return res.status(400).json({ error: "Valid targetCategoryId required for reassign" });
+          }
+          options = { mode: "reassign", targetCategoryId };
+        } else if (mode !== undefined) {
+          return res.status(400).json({ error: "Mode must be 'cascade' or 'reassign'" });
+        }
+
+        const result = await deleteCategory(req.hotelId!, categoryId, options);
+        if (!result.success) {
+          return res.status(statusForCode(result.code)).json({ error: result.message });
+        }
+
+        res.json({ message: result.message, ...result.data });
+      } catch (error) {
+        console.error("Delete category error:", error);
+        res.status(500).json({ error: "Failed to delete category" });
+      }
+    }
+  );
+}
+
+/**
+ * Admin Menu Item Routes
+ */
+export function setupMenuItemRoutes(router: Router) {
+  /**
+   * GET /menu/items?categoryId=<id>
+   * List the admin's hotel menu items
+   */
+  router.get(
+    "/menu/items",
+    authenticateAdmin,
+    authorizeAdminHotel,
+    requirePermission("menu:read"),
+    async (req, res) => {
+      try {
+        const categoryId = req.query.categoryId
+          ? parseInt(req.query.categoryId as string, 10)
+          : undefined;
+
+        if (categoryId !== undefined && isNaN(categoryId)) {
+          return res.status(400).json({ error: "Valid category ID required" });
+        }
+
+        const items = await listMenuItems(req.hotelId!, categoryId);
+        res.json({ items });
+      } catch (error) {
+        console.error("List menu items error:", error);
+        res.status(500).json({ error: "Failed to list menu items" });
+      }
+    }
+  );
+
+  /**
+   * GET /menu/items/:itemId
+   * Get a single menu item
+   */
+  router.get(
+    "/menu/items/:itemId",
+    authenticateAdmin,
+    authorizeAdminHotel,
+    requirePermission("menu:read"),
+    async (req, res) => {
+      try {
+        const itemId = parseInt(req.params.itemId!, 10);
+        if (isNaN(itemId)) {
+          return res.status(400).json({ error: "Valid item ID required" });
+        }
+
+        const item = await getMenuItem(req.hotelId!, itemId);
+        if (!item) {
+          return res.status(404).json({ error: "Menu item not found" });
+        }
+
+        res.json({ item });
+      } catch (error) {
+        console.error("Get menu item error:", error);
+        res.status(500).json({ error: "Failed to get menu item" });
+      }
+    }
+  );
+
+  /**
+   * POST /menu/items
+   * Create a menu item in one of the hotel's categories
+   */
+  router.post(
+    "/menu/items",
+    authenticateAdmin,
+    authorizeAdminHotel,
+    requirePermission("menu:write"),
+    async (req, res) => {
+      try {
+        const { name, description, price, stock, lowStockThreshold, categoryId } = req.body;
+
+        if (!isValidName(name)) {
+          return res.status(400).json({ error: "Name is required" });
+        }
+        if (!isValidPrice(price)) {
+          return res.status(400).json({ error: "Price must be a non-negative number" });
+        }
+        if (stock !== undefined && !isValidStock(stock)) {
+          return res.status(400).json({ error: "Stock must be a non-negative integer" });
+        }
+        if (
+          lowStockThreshold !== undefined &&
+          lowStockThreshold !== null &&
+          !isValidStock(lowStockThreshold)
+        ) {
+          return res.status(400).json({ error: "Low-stock threshold must be a non-negative integer" });
+        }
+        if (!Number.isInteger(categoryId)) {
+          return res.status(400).json({ error: "Valid category ID required" });
+        }
+
+        const result = await createMenuItem(
+          req.hotelId!,
+          {
+            name: name.trim(),
+            description: description ?? null,
+            price: trimAmount(price),
+            ...(stock !== undefined && { stock }),
+            ...(lowStockThreshold !== undefined && { lowStockThreshold }),
+            categoryId,
+          },
+          req.admin!.id
+        );
+        if (!result.success) {
+          return res.status(statusForCode(result.code)).json({ error: result.message });
+        }
+
+        res.status(201).json({ message: result.message, item: result.data });
+      } catch (error) {
+        console.error("Create menu item error:", error);
+        res.status(500).json({ error: "Failed to create menu item" });
+      }
+    }
+  );
+
+  /**
+   * PATCH /menu/items/:itemId
+   * Update a menu item; categoryId moves it within the same hotel
+   */
+  router.patch(
+    "/menu/items/:itemId",
+    authenticateAdmin,
+    authorizeAdminHotel,
+    requirePermission("menu:write"),
+    async (req, res) => {
+      try {
+        const itemId = parseInt(req.params.itemId!, 10);
+        const { name, description, price, stock, lowStockThreshold, categoryId } = req.body;
+
+        if (isNaN(itemId)) {
+          return res.status(400).json({ error: "Valid item ID required" });
+        }
+        if (name !== undefined && !isValidName(name)) {
+          return res.status(400).json({ error: "Name must be a non-empty string" });
+        }
+        if (price !== undefined && !isValidPrice(price)) {
+          return res.status(400).json({ error: "Price must be a non-negative number" });
+        }
+        if (stock !== undefined && !isValidStock(stock)) {
+          return res.status(400).json({ error: "Stock must be a non-negative integer" });
+        }
+        if (
+          lowStockThreshold !== undefined &&
+          lowStockThreshold !== null &&
+          !isValidStock(lowStockThreshold)
+        ) {
+          return res.status(400).json({ error: "Low-stock threshold must be a non-negative integer" });
+        }
+        if (categoryId !== undefined && !Number.isInteger(categoryId)) {
+          return res.status(400).json({ error: "Valid category ID required" });
+        }
+
+        const update: MenuItemUpdate = {
+          ...(name !== undefined && { name: name.trim() }),
+          ...(description !== undefined && { description }),
+          ...(price !== undefined && { price: trimAmount(price) }),
+          ...(stock !== undefined && { stock }),
+          ...(lowStockThreshold !== undefined && { lowStockThreshold }),
+          ...(categoryId !== undefined && { categoryId }),
+        };
+
+        const result = await updateMenuItem(req.hotelId!, itemId, update, req.admin!.id);
+        if (!result.success) {
+          return res.status(statusForCode(result.code)).json({ error: result.message });
+        }
+
+        res.json({ message: result.message, item: result.data });
+      } catch (error) {
+        console.error("Update menu item error:", error);
+        res.status(500).json({ error: "Failed to update menu item" });
+      }
+    }
+  );
+
+  /**
+   * DELETE /menu/items/:itemId
+   * Delete a menu item that has never been ordered
+   */
+  router.delete(
+    "/menu/items/:itemId",
+    authenticateAdmin,
+    authorizeAdminHotel,
+    requirePermission("menu:write"),
+    async (req, res) => {
+      try {
+        const itemId = parseInt(req.params.itemId!, 10);
+        if (isNaN(itemId)) {
+          return res.status(400).json({ error: "Valid item ID required" });
+        }
+
+        const result = await deleteMenuItem(req.hotelId!, itemId);
+        if (!result.success) {
+          return res.status(statusForCode(result.code)).json({ error: result.message });
+        }
+
+        res.json({ message: result.message });
+      } catch (error) {
+        console.error("Delete menu item error:", error);
+        res.status(500).json({ error: "Failed to delete menu item" });
+      }
+    }
+  );
+}
+
+/**
+ * Admin Menu Modifier Routes
+ */
+export function setupModifierRoutes(router: Router) {
+  /**
+   * GET /menu/items/:itemId/modifiers
+   * List a menu item's modifier groups and their options
+   */
+  router.get(
+    "/menu/items/:itemId/modifiers",
+    authenticateAdmin,
+    authorizeAdminHotel,
+    requirePermission("menu:read"),
+    async (req, res) => {
+      try {
+        const itemId = parseInt(req.params.itemId!, 10);
+        if (isNaN(itemId)) {
+          return res.status(400).json({ error: "Valid item ID required" });
+        }
+
+        const groups = await listModifierGroups(req.hotelId!, itemId);
+        res.json({ groups });
+      } catch (error) {
+        console.error("List modifier groups error:", error);
+        res.status(500).json({ error: "Failed to list modifier groups" });
+      }
+    }
+  );
+
+  /**
+   * POST /menu/items/:itemId/modifiers
+   * Add a modifier group: { name, minSelect?, maxSelect?, options?: [{ name, priceDelta?, stock? }] }
+   */
+  router.post(
+    "/menu/items/:itemId/modifiers",
+    authenticateAdmin,
+    authorizeAdminHotel,
+    requirePermission("menu:write"),
+    async (req, res) => {
+      try {
+        const itemId = parseInt(req.params.itemId!, 10);
+        const { name, minSelect, maxSelect, options } = req.body;
+
+        if (isNaN(itemId)) {
+          return res.status(400).json({ error: "Valid item ID required" });
+        }
+        if (!isValidName(name)) {
+          return res.status(400).json({ error: "Name is required" });
+        }
+        if (minSelect !== undefined && !isValidStock(minSelect)) {
+          return res.status(400).json({ error: "minSelect must be a non-negative integer" });
+        }
+        if (maxSelect !== undefined && !isValidStock(maxSelect)) {
+          return res.status(400).json({ error: "maxSelect must be a non-negative integer" });
+        }
+        if (options !== undefined && !Array.isArray(options)) {
+          return res.status(400).json({ error: "Options must be a list" });
+        }
+
+        for (const option of options ?? []) {
+          const optionError = checkOptionBody(option ?? {});
+          if (optionError) {
+            return res.status(400).json({ error: optionError });
+          }
+        }
+
+        const result = await createModifierGroup(req.hotelId!, itemId, {
+          name: name.trim(),
+          ...(minSelect !== undefined && { minSelect }),
+          ...(maxSelect !== undefined && { maxSelect }),
+          options: (options ?? []).map(
+            (option: ModifierOptionInput): ModifierOptionInput => ({
+              name: option.name.trim(),
+              ...(option.priceDelta !== undefined && { priceDelta: trimAmount(option.priceDelta) }),
+              ...(option.stock !== undefined && { stock: option.stock }),
+            })
+          ),
+        });
+        if (!result.success) {
+          return res.status(statusForCode(result.code)).json({ error: result.message });
+        }
+
+        res.status(201).json({ message: result.message, group: result.data });
+      } catch (error) {
+        console.error("Create modifier group error:", error);
+        res.status(500).json({ error: "Failed to create modifier group" });
+      }
+    }
+  );
+
+  /**
+   * PATCH /menu/modifiers/:groupId
+   * Rename a modifier group or change its selection rules
+   */
+  router.patch(
+    "/menu/modifiers/:groupId",
+    authenticateAdmin,
+    authorizeAdminHotel,
+    requirePermission("menu:write"),
+    async (req, res) => {
+      try {
+        const groupId = parseInt(req.params.groupId!, 10);
+        const { name, minSelect, maxSelect } = req.body;
+
+        if (isNaN(groupId)) {
+          return res.status(400).json({ error: "Valid modifier group ID required" });
+        }
+        if (name !== undefined && !isValidName(name)) {
+          return res.status(400).json({ error: "Name must be a non-empty string" });
+        }
+        if (minSelect !== undefined && !isValidStock(minSelect)) {
+          return res.status(400).json({ error: "minSelect must be a non-negative integer" });
+        }
+        if (maxSelect !== undefined && !isValidStock(maxSelect)) {
+          return res.status(400).json({ error: "maxSelect must be a non-negative integer" });
+        }
+
+        const update: ModifierGroupUpdate = {
+          ...(name !== undefined && { name: name.trim() }),
+          ...(minSelect !== undefined && { minSelect }),
+          ...(maxSelect !== undefined && { maxSelect }),
+        };
+
+        const result = await updateModifierGroup(req.hotelId!, groupId, update);
+        if (!result.success) {
+          return res.status(statusForCode(result.code)).json({ error: result.message });
+        }
+
+        res.json({ message: result.message, group: result.data });
+      } catch (error) {
+        console.error("Update modifier group error:", error);
+        res.status(500).json({ error: "Failed to update modifier group" });
+      }
+    }
+  );
+
+  /**
+   * DELETE /menu/modifiers/:groupId
+   * Delete a modifier group and its options
+   */
+  router.delete(
+    "/menu/modifiers/:groupId",
+    authenticateAdmin,
+    authorizeAdminHotel,
+    requirePermission("menu:write"),
+    async (req, res) => {
+      try {
+        const groupId = parseInt(req.params.groupId!, 10);
+        if (isNaN(groupId)) {
+          return res.status(400).json({ error: "Valid modifier group ID required" });
+        }
+
+        const result = await deleteModifierGroup(req.hotelId!, groupId);
+        if (!result.success) {
+          return res.status(statusForCode(result.code)).json({ error: result.message });
+        }
+
+        res.json({ message: result.message });
+      } catch (error) {
+        console.error("Delete modifier group error:", error);
+        res.status(500).json({ error: "Failed to delete modifier group" });
+      }
+    }
+  );
+
+  /**
+   * POST /menu/modifiers/:groupId/options
+   * Add an option to a modifier group: { name, priceDelta?, stock? }
+   */
+  router.post(
+    "/menu/modifiers/:groupId/options",
+    authenticateAdmin,
+    authorizeAdminHotel,
+    requirePermission("menu:write"),
+    async (req, res) => {
+      try {
+        const groupId = parseInt(req.params.groupId!, 10);
+        const { name, priceDelta, stock } = req.body;
+
+        if (isNaN(groupId)) {
+          return res.status(400).json({ error: "Valid modifier group ID required" });
+        }
+
+        const optionError = checkOptionBody(req.body);
+        if (optionError) {
+          return res.status(400).json({ error: optionError });
+        }
+
+        const result = await createModifierOption(req.hotelId!, groupId, {
+          name: name.trim(),
+          ...(priceDelta !== undefined && { priceDelta: trimAmount(priceDelta) }),
+          ...(stock !== undefined && { stock }),
+        });
+        if (!result.success) {
+          return res.status(statusForCode(result.code)).json({ error: result.message });
+        }
+
+        res.status(201).json({ message: result.message, option: result.data });
+      } catch (error) {
+        console.error("Create modifier option error:", error);
+        res.status(500).json({ error: "Failed to create modifier option" });
+      }
+    }
+  );
+
+  /**
+   * PATCH /menu/modifier-options/:optionId
+   * Update a modifier option; stock: null stops tracking its stock
+   */
+  router.patch(
+    "/menu/modifier-options/:optionId",
+    authenticateAdmin,
+    authorizeAdminHotel,
+    requirePermission("menu:write"),
+    async (req, res) => {
+      try {
+        const optionId = parseInt(req.params.optionId!, 10);
+        const { name, priceDelta, stock } = req.body;
+
+        if (isNaN(optionId)) {
+          return res.status(400).json({ error: "Valid modifier option ID required" });
+        }
+
+        const optionError = checkOptionBody(req.body, true);
+        if (optionError) {
+          return res.status(400).json({ error: optionError });
+        }
+
+        const update: ModifierOptionUpdate = {
+          ...(name !== undefined && { name: name.trim() }),
+          ...(priceDelta !== undefined && { priceDelta: trimAmount(priceDelta) }),
+          ...(stock !== undefined && { stock }),
+        };
+
+        const result = await updateModifierOption(req.hotelId!, optionId, update);
+        if (!result.success) {
+          return res.status(statusForCode(result.code)).json({ error: result.message });
+        }
+
+        res.json({ message: result.message, option: result.data });
+      } catch (error) {
+        console.error("Update modifier option error:", error);
+        res.status(500).json({ error: "Failed to update modifier option" });
+      }
+    }
+  );
+
+  /**
+   * DELETE /menu/modifier-options/:optionId
+   * Delete a modifier option
+   */
+  router.delete(
+    "/menu/modifier-options/:optionId",
+    authenticateAdmin,
+    authorizeAdminHotel,
+    requirePermission("menu:write"),
+    async (req, res) => {
+      try {
+        const optionId = parseInt(req.params.optionId!, 10);
+        if (isNaN(optionId)) {
+          return res.status(400).json({ error: "Valid modifier option ID required" });
+        }
+
+        const result = await deleteModifierOption(req.hotelId!, optionId);
+        if (!result.success) {
+          return res.status(statusForCode(result.code)).json({ error: result.message });
+        }
+
+        res.json({ message: result.message });
+      } catch (error) {
+        console.error("Delete modifier option error:", error);
+        res.status(500).json({ error: "Failed to delete modifier option" });
+      }
+    }
+  );
+}
+
+/**
+ * Admin Menu Availability Routes
+ */
+export function setupAvailabilityRoutes(router: Router) {
+  /**
+   * PUT /hotel/timezone
+   * Set the IANA time zone schedules are evaluated in: { timezone }
+   */
+  router.put(
+    "/hotel/timezone",
+    authenticateAdmin,
+    authorizeAdminHotel,
+    requirePermission("menu:write"),
+    async (req, res) => {
+      try {
+        const { timezone } = req.body;
+        if (!timezone || typeof timezone !== "string") {
+          return res.status(400).json({ error: "Time zone is required" });
+        }
+
+        const result = await setHotelTimeZone(req.hotelId!, timezone.trim());
+        if (!result.success) {
+          return res.status(statusForCode(result.code)).json({ error: result.message });
+        }
+
+        res.json({ message: result.message, timezone: result.data!.timezone });
+      } catch (error) {
+        console.error("Set time zone error:", error);
+        res.status(500).json({ error: "Failed to update time zone" });
+      }
+    }
+  );
+
+  /**
+   * GET /menu/schedules?categoryId=<id>&menuItemId=<id>
+   * List the hotel's availability schedules
+   */
+  router.get(
+    "/menu/schedules",
+    authenticateAdmin,
+    authorizeAdminHotel,
+    requirePermission("menu:read"),
+    async (req, res) => {
+      try {
+        const categoryId = req.query.categoryId
+          ? parseInt(req.query.categoryId as string, 10)
+          : undefined;
+        const menuItemId = req.query.menuItemId
+          ? parseInt(req.query.menuItemId as string, 10)
+          : undefined;
+
+        if (categoryId !== undefined && isNaN(categoryId)) {
+          return res.status(400).json({ error: "Valid category ID required" });
+        }
+        if (menuItemId !== undefined && isNaN(menuItemId)) {
+          return res.status(400).json({ error: "Valid item ID required" });
+        }
+
+        const schedules = await listSchedules(req.hotelId!, {
+          ...(categoryId !== undefined && { categoryId }),
+          ...(menuItemId !== undefined && { menuItemId }),
+        });
+        res.json({ schedules });
+      } catch (error) {
+        console.error("List schedules error:", error);
+        res.status(500).json({ error: "Failed to list schedules" });
+      }
+    }
+  );
+
+  /**
+   * POST /menu/schedules
+   * Add a schedule to a category or item:
+   * { categoryId | menuItemId, daysOfWeek: [1-7], startTime: "HH:MM", endTime: "HH:MM", startDate?, endDate? }
+   */
+  router.post(
+    "/menu/schedules",
+    authenticateAdmin,
+    authorizeAdminHotel,
+    requirePermission("menu:write"),
+    async (req, res) => {
+      try {
+        const { categoryId, menuItemId, daysOfWeek, startTime, endTime, startDate, endDate } =
+          req.body;
+
+        if (categoryId !== undefined && !Number.isInteger(categoryId)) {
+          return res.status(400).json({ error: "Valid category ID required" });
+        }
+        if (menuItemId !== undefined && !Number.isInteger(menuItemId)) {
+          return res.status(400).json({ error: "Valid item ID required" });
+        }
+        if (
+          !Array.isArray(daysOfWeek) ||
+          daysOfWeek.length === 0 ||
+          !daysOfWeek.every((day) => Number.isInteger(day) && day >= 1 && day <= 7)
+        ) {
+          return res.status(400).json({ error: "daysOfWeek must list ISO weekdays 1-7" });
+        }
+        if (!isValidTime(startTime) || !isValidTime(endTime, true)) {
+          return res.status(400).json({ error: "Times must be formatted HH:MM" });
+        }
+        if (
+          (startDate != null && !isValidDate(startDate)) ||
+          (endDate != null && !isValidDate(endDate))
+        ) {
+          return res.status(400).json({ error: "Dates must be formatted YYYY-MM-DD" });
+        }
+
+        const result = await createSchedule(req.hotelId!, {
+          ...(categoryId !== undefined && { categoryId }),
+          ...(menuItemId !== undefined && { menuItemId }),
+          daysOfWeek,
+          startTime,
+          endTime,
+          startDate: startDate ?? null,
+          endDate: endDate ?? null,
+        });
+        if (!result.success) {
+          return res.status(statusForCode(result.code)).json({ error: result.message });
+        }
+
+        res.status(201).json({ message: result.message, schedule: result.data });
+      } catch (error) {
+        console.error("Create schedule error:", error);
+        res.status(500).json({ error: "Failed to create schedule" });
+      }
+    }
+  );
+
+  /**
+   * DELETE /menu/schedules/:scheduleId
+   * Delete an availability schedule
+   */
+  router.delete(
+    "/menu/schedules/:scheduleId",
+    authenticateAdmin,
+    authorizeAdminHotel,
+    requirePermission("menu:write"),
+    async (req, res) => {
+      try {
+        const scheduleId = parseInt(req.params.scheduleId!, 10);
+        if (isNaN(scheduleId)) {
+          return res.status(400).json({ error: "Valid schedule ID required" });
+        }
+
+        const result = await deleteSchedule(req.hotelId!, scheduleId);
+        if (!result.success) {
+          return res.status(statusForCode(result.code)).json({ error: result.message });
+        }
+
+        res.json({ message: result.message });
+      } catch (error) {
+        console.error("Delete schedule error:", error);
+        res.status(500).json({ error: "Failed to delete schedule" });
+      }
+    }
+  );
+
+  /**
+   * POST /menu/items/:itemId/86
+   * Mark an item unavailable for the rest of the hotel's day, keeping its stock
+   */
+  router.post(
+    "/menu/items/:itemId/86",
+    authenticateAdmin,
+    authorizeAdminHotel,
+    requirePermission("menu:availability"),
+    async (req, res) => {
+      try {
+        const itemId = parseInt(req.params.itemId!, 10);
+        if (isNaN(itemId)) {
+          return res.status(400).json({ error: "Valid item ID required" });
+        }
+
+        const result = await eightySixMenuItem(req.hotelId!, itemId);
+        if (!result.success) {
+          return res.status(statusForCode(result.code)).json({ error: result.message });
+        }
+
+        res.json({ message: result.message, unavailableUntil: result.data!.unavailableUntil });
+      } catch (error) {
+        console.error("86 menu item error:", error);
+        res.status(500).json({ error: "Failed to mark menu item unavailable" });
+      }
+    }
+  );
+
+  /**
+   * DELETE /menu/items/:itemId/86
+   * Make an 86'd item available again
+   */
+  router.delete(
+    "/menu/items/:itemId/86",
+    authenticateAdmin,
+    authorizeAdminHotel,
+    requirePermission("menu:availability"),
+    async (req, res) => {
+      try {
+        const itemId = parseInt(req.params.itemId!, 10);
+        if (isNaN(itemId)) {
+          return res.status(400).json({ error: "Valid item ID required" });
+        }
+
+        const result = await restoreMenuItem(req.hotelId!, itemId);
+        if (!result.success) {
+          return res.status(statusForCode(result.code)).json({ error: result.message });
+        }
+
+        res.json({ message: result.message });
+      } catch (error) {
+        console.error("Restore menu item error:", error);
+        res.status(500).json({ error: "Failed to restore menu item" });
+      }
+    }
+  );
+}
+
+/**
+ * Admin Order Management Routes
+ */
+export function setupOrderManagementRoutes(router: Router) {
+  /**
+   * GET /orders?status=<status>
+   * List the admin's hotel orders
+   */
+  router.get(
+    "/orders",
+    authenticateAdmin,
+    authorizeAdminHotel,
+    requirePermission("orders:read"),
+    async (req, res) => {
+      try {
+        const status = req.query.status;
+        if (status !== undefined && !isOrderStatus(status)) {
+          return res.status(400).json({ error: "Invalid order status" });
+        }
+
+        const orders = await listHotelOrders(req.hotelId!, status);
+        res.json({ orders });
+      } catch (error) {
+        console.error("List hotel orders error:", error);
+        res.status(500).json({ error: "Failed to list orders" });
+      }
+    }
+  );
+
+  /**
+   * PATCH /orders/:orderId/status
+   * Move an order through its lifecycle: { status }
+   */
+  router.patch(
+    "/orders/:orderId/status",
+    authenticateAdmin,
+    authorizeAdminHotel,
+    requirePermission("orders:advance"),
+    async (req, res) => {
+      try {
+        const orderId = parseInt(req.params.orderId!, 10);
+        const { status } = req.body;
+
+        if (isNaN(orderId)) {
+          return res.status(400).json({ error: "Valid order ID required" });
+        }
+        if (!isOrderStatus(status)) {
+          return res.status(400).json({ error: "Invalid order status" });
+        }
+
+        const result = await transitionOrderStatus(req.hotelId!, orderId, status, req.admin!.id);
+        if (!result.success) {
+          return res.status(statusForCode(result.code)).json({ error: result.message });
+        }
+
+        res.json({
+          message: result.message,
+          orderId: result.orderId,
+          fromStatus: result.fromStatus,
+          status: result.toStatus,
+        });
+      } catch (error) {
+        console.error("Update order status error:", error);
+        res.status(500).json({ error: "Failed to update order status" });
+      }
+    }
+  );
+
+  /**
+   * GET /orders/:orderId/history
+   * Who changed an order's status and when
+   */
+  router.get(
+    "/orders/:orderId/history",
+    authenticateAdmin,
+    authorizeAdminHotel,
+    requirePermission("orders:read"),
+    async (req, res) => {
+      try {
+        const orderId = parseInt(req.params.orderId!, 10);
+        if (isNaN(orderId)) {
+          return res.status(400).json({ error: "Valid order ID required" });
+        }
+
+        const result = await getOrderStatusHistory(req.hotelId!, orderId);
+        if (!result) {
+          return res.status(404).json({ error: "Order not found" });
+        }
+
+        res.json(result);
+      } catch (error) {
+        console.error("Get order history error:", error);
+        res.status(500).json({ error: "Failed to get order history" });
+      }
+    }
+  );
+}
+
+/**
+ * Combined setup function for Express router
+ */
+export function setupTenantRoutes(router: Router) {
+  setupHotelSettingsRoutes(router);
+  setupCategoryRoutes(router);
+  setupMenuItemRoutes(router);
+  setupModifierRoutes(router);
+  setupAvailabilityRoutes(router);
+  setupOrderManagementRoutes(router);
+}
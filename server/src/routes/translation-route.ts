@@ -0,0 +1,215 @@
+import type { Router } from "express";
+import { statusForCode } from "../helpers/http.helper.js";
+import {
+  setHotelDefaultLocale,
+  setCategoryTranslation,
+  setItemTranslation,
+  deleteTranslation,
+  listUntranslatedStrings,
+} from "../helpers/translation.helper.js";
+import {
+  authenticateAdmin,
+  authorizeAdminHotel,
+  requirePermission,
+} from "../middleware/auth.middleware.js";
+
+/**
+ * Menu Translation Routes (category and item text in other locales)
+ */
+export function setupTranslationRoutes(router: Router) {
+  /**
+   * PUT /hotel/locale
+   * Set the locale the base menu text is written in: { locale }
+   */
+  router.put(
+    "/hotel/locale",
+    authenticateAdmin,
+    authorizeAdminHotel,
+    requirePermission("menu:write"),
+    async (req, res) => {
+      try {
+        const { locale } = req.body;
+        if (!locale || typeof locale !== "string") {
+          return res.status(400).json({ error: "Locale is required" });
+        }
+
+        const result = await setHotelDefaultLocale(req.hotelId!, locale.trim());
+        if (!result.success) {
+          return res.status(statusForCode(result.code)).json({ error: result.message });
+        }
+
+        res.json({ message: result.message, defaultLocale: result.data!.defaultLocale });
+      } catch (error) {
+        console.error("Set default locale error:", error);
+        res.status(500).json({ error: "Failed to update default locale" });
+      }
+    }
+  );
+
+  /**
+   * GET /menu/translations/missing?locale=<tag>
+   * List category and item text not yet translated into a locale
+   */
+  router.get(
+    "/menu/translations/missing",
+    authenticateAdmin,
+    authorizeAdminHotel,
+    requirePermission("menu:read"),
+    async (req, res) => {
+      try {
+        const { locale } = req.query;
+        if (!locale || typeof locale !== "string") {
+          return res.status(400).json({ error: "Locale is required" });
+        }
+
+        const result = await listUntranslatedStrings(req.hotelId!, locale);
+        if (!result.success) {
+          return res.status(statusForCode(result.code)).json({ error: result.message });
+        }
+
+        res.json(result.data);
+      } catch (error) {
+        console.error("List untranslated strings error:", error);
+        res.status(500).json({ error: "Failed to list untranslated strings" });
+      }
+    }
+  );
+
+  /**
+   * PUT /menu/categories/:categoryId/translations/:locale
+   * Add or replace a category's name in a locale: { name }
+   */
+  router.put(
+    "/menu/categories/:categoryId/translations/:locale",
+    authenticateAdmin,
+    authorizeAdminHotel,
+    requirePermission("menu:write"),
+    async (req, res) => {
+      try {
+        const categoryId = parseInt(req.params.categoryId!, 10);
+        const { name } = req.body;
+
+        if (isNaN(categoryId)) {
+          return res.status(400).json({ error: "Valid category ID required" });
+        }
+        if (!name || typeof name !== "string" || !name.trim()) {
+          return res.status(400).json({ error: "Name is required" });
+        }
+
+        const result = await setCategoryTranslation(req.hotelId!, categoryId, req.params.locale!, {
+          name: name.trim(),
+        });
+        if (!result.success) {
+          return res.status(statusForCode(result.code)).json({ error: result.message });
+        }
+
+        res.json({ message: result.message, locale: result.data!.locale });
+      } catch (error) {
+        console.error("Save category translation error:", error);
+        res.status(500).json({ error: "Failed to save category translation" });
+      }
+    }
+  );
+
+  /**
+   * DELETE /menu/categories/:categoryId/translations/:locale
+   * Remove a category's translation; the base name shows again
+   */
+  router.delete(
+    "/menu/categories/:categoryId/translations/:locale",
+    authenticateAdmin,
+    authorizeAdminHotel,
+    requirePermission("menu:write"),
+    async (req, res) => {
+      try {
+        const categoryId = parseInt(req.params.categoryId!, 10);
+        if (isNaN(categoryId)) {
+          return res.status(400).json({ error: "Valid category ID required" });
+        }
+
+        const result = await deleteTranslation(req.hotelId!, { categoryId }, req.params.locale!);
+        if (!result.success) {
+          return res.status(statusForCode(result.code)).json({ error: result.message });
+        }
+
+        res.json({ message: result.message });
+      } catch (error) {
+        console.error("Delete category translation error:", error);
+        res.status(500).json({ error: "Failed to delete translation" });
+      }
+    }
+  );
+
+  /**
+   * PUT /menu/items/:itemId/translations/:locale
+   * Add or replace a menu item's text in a locale: { name, description? }
+   */
+  router.put(
+    "/menu/items/:itemId/translations/:locale",
+    authenticateAdmin,
+    authorizeAdminHotel,
+    requirePermission("menu:write"),
+    async (req, res) => {
+      try {
+        const itemId = parseInt(req.params.itemId!, 10);
+        const { name, description } = req.body;
+
+        if (isNaN(itemId)) {
+          return res.status(400).json({ error: "Valid item ID required" });
+        }
+        if (!name || typeof name !== "string" || !name.trim()) {
+          return res.status(400).json({ error: "Name is required" });
+        }
+        if (description !== undefined && description !== null && typeof description !== "string") {
+          return res.status(400).json({ error: "Description must be a string" });
+        }
+
+        const result = await setItemTranslation(req.hotelId!, itemId, req.params.locale!, {
+          name: name.trim(),
+          description: description?.trim() || null,
+        });
+        if (!result.success) {
+          return res.status(statusForCode(result.code)).json({ error: result.message });
+        }
+
+        res.json({ message: result.message, locale: result.data!.locale });
+      } catch (error) {
+        console.error("Save menu item translation error:", error);
+        res.status(500).json({ error: "Failed to save menu item translation" });
+      }
+    }
+  );
+
+  /**
+   * DELETE /menu/items/:itemId/translations/:locale
+   * Remove a menu item's translation; the base text shows again
+   */
+  router.delete(
+    "/menu/items/:itemId/translations/:locale",
+    authenticateAdmin,
+    authorizeAdminHotel,
+    requirePermission("menu:write"),
+    async (req, res) => {
+      try {
+        const itemId = parseInt(req.params.itemId!, 10);
+        if (isNaN(itemId)) {
+          return res.status(400).json({ error: "Valid item ID required" });
+        }
+
+        const result = await deleteTranslation(
+          req.hotelId!,
+          { menuItemId: itemId },
+          req.params.locale!
+        );
+        if (!result.success) {
+          return res.status(statusForCode(result.code)).json({ error: result.message });
+        }
+
+        res.json({ message: result.message });
+      } catch (error) {
+        console.error("Delete menu item translation error:", error);
+        res.status(500).json({ error: "Failed to delete translation" });
+      }
+    }
+  );
+}
@@ -0,0 +1,78 @@
+import { prisma } from "../lib/prisma.js";
+import { placeOrder } from "../src/helpers/customer.helper.js";
+import { startOrderPayment, handlePaymentWebhook } from "../src/helpers/payment.helper.js";
+import { getPaymentProvider, type MockPaymentProvider } from "../src/helpers/payment-provider.helper.js";
+import { createTable } from "../src/helpers/table.helper.js";
+import { createMenuItem } from "../src/helpers/tenant.helper.js";
+
+// ============================================
+// Fixtures
+// ============================================
+
+let sequence = 0;
+
+/**
+ * Creates a hotel with an owner, a guest, a table and one menu item, so
+ * every test works on its own rows
+ */
+export async function createHotelFixture(stock = 10) {
+  sequence += 1;
+
+  const hotel = await prisma.hotel.create({
+    data: { name: `Hotel ${sequence}`, categories: { create: { name: "Mains" } } },
+    include: { categories: true },
+  });
+  const admin = await prisma.admin.create({
+    data: { name: "Owner", email: `owner${sequence}@example.com`, phone: "555", hotelId: hotel.id },
+  });
+  const guest = await prisma.guest.create({
+    data: { name: "Guest", email: `guest${sequence}@example.com` },
+  });
+
+  const table = await createTable(hotel.id, { label: "T1" });
+  const item = await createMenuItem(hotel.id, {
+    name: "Soup",
+    price: "8.50",
+    stock,
+    categoryId: hotel.categories[0]!.id,
+  });
+
+  return {
+    hotelId: hotel.id,
+    adminId: admin.id,
+    guestId: guest.id,
+    tableId: table.data!.id,
+    menuItemId: item.data!.id,
+  };
+}
+
+export type HotelFixture = Awaited<ReturnType<typeof createHotelFixture>>;
+
+/**
+ * Places an order for the fixture's guest and returns its ID
+ */
+export async function placeFixtureOrder(fixture: HotelFixture, quantity: number) {
+  const result = await placeOrder(fixture.guestId, fixture.hotelId, fixture.tableId, [
+    { menuItemId: fixture.menuItemId, quantity },
+  ]);
+  if (!result.success) {
+    throw new Error(result.message);
+  }
+  return result.orderId!;
+}
+
+/**
+ * Pays for an order through the mock provider and returns the payment ID
+ */
+export async function payFixtureOrder(fixture: HotelFixture, orderId: number) {
+  const started = await startOrderPayment(fixture.guestId, orderId, "CARD");
+  const mock = getPaymentProvider("mock") as MockPaymentProvider;
+  const webhook = mock.buildWebhook({ reference: started.payment!.reference!, status: "COMPLETED" });
+  await handlePaymentWebhook("mock", webhook.body, webhook.signature);
+  return started.payment!.id;
+}
+
+export async function getStock(menuItemId: number) {
+  const item = await prisma.menuItem.findUniqueOrThrow({ where: { id: menuItemId } });
+  return item.stock;
+}
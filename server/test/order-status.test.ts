@@ -0,0 +1,88 @@
+import "./setup.js";
+import assert from "node:assert/strict";
+import { after, describe, test } from "node:test";
+import { prisma } from "../lib/prisma.js";
+import { canTransition, transitionOrderStatus } from "../src/helpers/order.helper.js";
+import { createHotelFixture, placeFixtureOrder } from "./fixtures.js";
+
+after(() => prisma.$disconnect());
+
+describe("canTransition", () => {
+  test("allows the kitchen flow and early cancellation", () => {
+    assert.equal(canTransition("PENDING", "PREPARING"), true);
+    assert.equal(canTransition("PREPARING", "SERVED"), true);
+    assert.equal(canTransition("SERVED", "COMPLETED"), true);
+    assert.equal(canTransition("PENDING", "CANCELLED"), true);
+    assert.equal(canTransition("PREPARING", "CANCELLED"), true);
+  });
+
+  test("rejects skipped steps, going back and leaving terminal states", () => {
+    assert.equal(canTransition("PENDING", "SERVED"), false);
+    assert.equal(canTransition("SERVED", "PREPARING"), false);
+    assert.equal(canTransition("SERVED", "CANCELLED"), false);
+    assert.equal(canTransition("COMPLETED", "PENDING"), false);
+    assert.equal(canTransition("CANCELLED", "PENDING"), false);
+  });
+});
+
+describe("transitionOrderStatus", () => {
+  test("records each change in the status history", async () => {
+    const fixture = await createHotelFixture();
+    const orderId = await placeFixtureOrder(fixture, 1);
+
+    for (const status of ["PREPARING", "SERVED", "COMPLETED"] as const) {
+      const result = await transitionOrderStatus(fixture.hotelId, orderId, status, fixture.adminId);
+      assert.equal(result.success, true);
+    }
+
+    const history = await prisma.orderStatusHistory.findMany({
+      where: { orderId },
+      orderBy: { id: "asc" },
+    });
+    assert.deepEqual(
+      history.map((entry) => [entry.fromStatus, entry.toStatus]),
+      [
+        [null, "PENDING"],
+        ["PENDING", "PREPARING"],
+        ["PREPARING", "SERVED"],
+        ["SERVED", "COMPLETED"],
+      ]
+    );
+  });
+
+  test("rejects an illegal transition without changing the order", async () => {
+    const fixture = await createHotelFixture();
+    const orderId = await placeFixtureOrder(fixture, 1);
+
+    const result = await transitionOrderStatus(fixture.hotelId, orderId, "COMPLETED", fixture.adminId);
+
+    assert.equal(result.success, false);
+    assert.equal(result.code, "INVALID_TRANSITION");
+    const order = await prisma.order.findUniqueOrThrow({ where: { id: orderId } });
+    assert.equal(order.status, "PENDING");
+  });
+
+  test("doesn't find another hotel's order", async () => {
+    const fixture = await createHotelFixture();
+    const other = await createHotelFixture();
+    const orderId = await placeFixtureOrder(fixture, 1);
+
+    const result = await transitionOrderStatus(other.hotelId, orderId, "PREPARING", other.adminId);
+
+    assert.equal(result.code, "NOT_FOUND");
+  });
+
+  test("lets only one of two concurrent transitions apply", async () => {
+    const fixture = await createHotelFixture(10);
+    const orderId = await placeFixtureOrder(fixture, 2);
+
+    const results = await Promise.all([
+      transitionOrderStatus(fixture.hotelId, orderId, "CANCELLED", fixture.adminId),
+      transitionOrderStatus(fixture.hotelId, orderId, "CANCELLED", fixture.adminId),
+    ]);
+
+    assert.equal(results.filter((result) => result.success).length, 1);
+    const item = await prisma.menuItem.findUniqueOrThrow({ where: { id: fixture.menuItemId } });
+    assert.equal(item.stock, 10);
+  });
+});
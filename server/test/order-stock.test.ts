@@ -0,0 +1,151 @@
+import "./setup.js";
+import assert from "node:assert/strict";
+import { after, describe, test } from "node:test";
+import { prisma } from "../lib/prisma.js";
+import { placeOrder } from "../src/helpers/customer.helper.js";
+import { transitionOrderStatus } from "../src/helpers/order.helper.js";
+import { refundPayment } from "../src/helpers/payment.helper.js";
+import {
+  createHotelFixture,
+  getStock,
+  payFixtureOrder,
+  placeFixtureOrder,
+} from "./fixtures.js";
+
+after(() => prisma.$disconnect());
+
+async function getOrderItem(orderId: number) {
+  return prisma.orderItem.findFirstOrThrow({ where: { orderId } });
+}
+
+describe("order placement", () => {
+  test("reserves stock and records it in the ledger", async () => {
+    const fixture = await createHotelFixture(10);
+
+    const orderId = await placeFixtureOrder(fixture, 3);
+
+    assert.equal(await getStock(fixture.menuItemId), 7);
+    const movements = await prisma.stockMovement.findMany({ where: { orderId } });
+    assert.deepEqual(
+      movements.map((movement) => [movement.reason, movement.delta]),
+      [["ORDER", -3]]
+    );
+  });
+
+  test("rejects an order larger than the stock without writing anything", async () => {
+    const fixture = await createHotelFixture(2);
+
+    const result = await placeOrder(fixture.guestId, fixture.hotelId, fixture.tableId, [
+      { menuItemId: fixture.menuItemId, quantity: 3 },
+    ]);
+
+    assert.equal(result.success, false);
+    assert.equal(result.lineErrors?.[0]?.code, "CONFLICT");
+    assert.equal(await getStock(fixture.menuItemId), 2);
+    assert.equal(await prisma.order.count({ where: { hotelId: fixture.hotelId } }), 0);
+  });
+
+  test("rejects a malformed line as invalid", async () => {
+    const fixture = await createHotelFixture(5);
+
+    const result = await placeOrder(fixture.guestId, fixture.hotelId, fixture.tableId, [
+      { menuItemId: fixture.menuItemId, quantity: 0 },
+    ]);
+
+    assert.equal(result.success, false);
+    assert.equal(result.lineErrors?.[0]?.code, "INVALID");
+  });
+});
+
+describe("order cancellation", () => {
+  test("puts the order's stock back", async () => {
+    const fixture = await createHotelFixture(10);
+    const orderId = await placeFixtureOrder(fixture, 4);
+
+    const result = await transitionOrderStatus(fixture.hotelId, orderId, "CANCELLED", fixture.adminId);
+
+    assert.equal(result.success, true);
+    assert.equal(await getStock(fixture.menuItemId), 10);
+    assert.equal((await getOrderItem(orderId)).restockedQuantity, 4);
+  });
+
+  test("is refused while the order's payment is completed", async () => {
+    const fixture = await createHotelFixture(10);
+    const orderId = await placeFixtureOrder(fixture, 2);
+    await payFixtureOrder(fixture, orderId);
+
+    const result = await transitionOrderStatus(fixture.hotelId, orderId, "CANCELLED", fixture.adminId);
+
+    assert.equal(result.success, false);
+    assert.equal(result.code, "CONFLICT");
+    assert.equal(await getStock(fixture.menuItemId), 8);
+  });
+
+  test("after a restocking refund only puts back the remaining units", async () => {
+    const fixture = await createHotelFixture(10);
+    const orderId = await placeFixtureOrder(fixture, 3);
+    const paymentId = await payFixtureOrder(fixture, orderId);
+    const orderItem = await getOrderItem(orderId);
+
+    const partial = await refundPayment(fixture.hotelId, paymentId, fixture.adminId, {
+      amount: "8.50",
+      reason: "Spilled",
+      items: [{ orderItemId: orderItem.id, quantity: 1 }],
+      restock: true,
+    });
+    assert.equal(partial.paymentStatus, "PARTIALLY_REFUNDED");
+    assert.equal(await getStock(fixture.menuItemId), 8);
+
+    const refused = await transitionOrderStatus(fixture.hotelId, orderId, "CANCELLED", fixture.adminId);
+    assert.equal(refused.code, "CONFLICT");
+
+    const rest = await refundPayment(fixture.hotelId, paymentId, fixture.adminId, {
+      amount: "17.00",
+      reason: "Order cancelled",
+    });
+    assert.equal(rest.paymentStatus, "REFUNDED");
+
+    const cancelled = await transitionOrderStatus(fixture.hotelId, orderId, "CANCELLED", fixture.adminId);
+    assert.equal(cancelled.success, true);
+
+    assert.equal(await getStock(fixture.menuItemId), 10);
+    const movements = await prisma.stockMovement.findMany({
+      where: { menuItemId: fixture.menuItemId, reason: { in: ["REFUND", "CANCELLATION"] } },
+      orderBy: { id: "asc" },
+    });
+    assert.deepEqual(
+      movements.map((movement) => [movement.reason, movement.delta]),
+      [
+        ["REFUND", 1],
+        ["CANCELLATION", 2],
+      ]
+    );
+  });
+});
+
+describe("refund restocking", () => {
+  test("never restocks more units than the order took", async () => {
+    const fixture = await createHotelFixture(10);
+    const orderId = await placeFixtureOrder(fixture, 2);
+    const paymentId = await payFixtureOrder(fixture, orderId);
+    const orderItem = await getOrderItem(orderId);
+
+    const refund = await refundPayment(fixture.hotelId, paymentId, fixture.adminId, {
+      amount: "17.00",
+      reason: "Wrong order",
+      items: [{ orderItemId: orderItem.id, quantity: 2 }],
+      restock: true,
+    });
+    const overRefund = await refundPayment(fixture.hotelId, paymentId, fixture.adminId, {
+      amount: "0.01",
+      reason: "Again",
+      items: [{ orderItemId: orderItem.id, quantity: 1 }],
+      restock: true,
+    });
+
+    assert.equal(refund.success, true);
+    assert.equal(overRefund.success, false);
+    assert.equal(await getStock(fixture.menuItemId), 10);
+    assert.equal((await getOrderItem(orderId)).restockedQuantity, 2);
+  });
+});
@@ -0,0 +1,31 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import Database from "better-sqlite3";
+
+// ============================================
+// Test Database
+// ============================================
+
+/**
+ * Builds a fresh SQLite database from the migrations and points
+ * DATABASE_URL at it; import this before anything that loads the client
+ */
+const migrationsDir = path.join(import.meta.dirname, "../prisma/migrations");
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), "zapmenu-test-"));
+const file = path.join(dir, "test.db");
+
+const db = new Database(file);
+for (const migration of fs.readdirSync(migrationsDir).sort()) {
+  const sql = path.join(migrationsDir, migration, "migration.sql");
+  if (fs.existsSync(sql)) {
+    db.exec(fs.readFileSync(sql, "utf8"));
+  }
+}
+db.close();
+
+process.env.DATABASE_URL = `file:${file}`;
+
+process.on("exit", () => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
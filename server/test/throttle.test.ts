@@ -0,0 +1,109 @@
+import "./setup.js";
+import assert from "node:assert/strict";
+import { after, describe, test } from "node:test";
+import { prisma } from "../lib/prisma.js";
+import {
+  checkThrottle,
+  recordThrottleEvent,
+  resetThrottle,
+  type ThrottlePolicy,
+} from "../src/helpers/throttle.helper.js";
+
+after(() => prisma.$disconnect());
+
+const MINUTE = 60 * 1000;
+
+const POLICY: ThrottlePolicy = {
+  limit: 3,
+  windowMs: 15 * MINUTE,
+  lockMs: MINUTE,
+  backoff: true,
+  maxLockMs: 4 * MINUTE,
+};
+
+let sequence = 0;
+
+function newTarget() {
+  sequence += 1;
+  return { scope: "test:email", key: `user${sequence}@example.com` };
+}
+
+/**
+ * Ends a key's lockout as if its lock duration had passed
+ */
+async function expireLock(target: { scope: string; key: string }) {
+  await prisma.authThrottle.update({
+    where: { scope_key: target },
+    data: { lockedUntil: new Date(Date.now() - 1000) },
+  });
+}
+
+describe("recordThrottleEvent", () => {
+  test("allows events up to the limit, then locks the key", async () => {
+    const target = newTarget();
+
+    for (let attempt = 0; attempt < POLICY.limit; attempt++) {
+      assert.equal((await recordThrottleEvent(target, POLICY)).allowed, true);
+    }
+    const locked = await recordThrottleEvent(target, POLICY);
+
+    assert.equal(locked.allowed, false);
+    assert.equal(locked.retryAfterSeconds, 60);
+    assert.equal((await checkThrottle(target)).allowed, false);
+  });
+
+  test("counts concurrent events so none slip past the limit", async () => {
+    const target = newTarget();
+
+    const results = await Promise.all(
+      Array.from({ length: 10 }, () => recordThrottleEvent(target, POLICY))
+    );
+
+    assert.equal(results.filter((result) => result.allowed).length, POLICY.limit);
+    assert.equal((await checkThrottle(target)).allowed, false);
+  });
+
+  test("doubles the lock on each repeat lockout up to the maximum", async () => {
+    const target = newTarget();
+    const lockDurations: (number | undefined)[] = [];
+
+    for (let lockout = 0; lockout < 4; lockout++) {
+      let status = await recordThrottleEvent(target, POLICY);
+      while (status.allowed) {
+        status = await recordThrottleEvent(target, POLICY);
+      }
+      lockDurations.push(status.retryAfterSeconds);
+      await expireLock(target);
+    }
+
+    assert.deepEqual(lockDurations, [60, 120, 240, 240]);
+  });
+
+  test("starts a new window once the old one has passed", async () => {
+    const target = newTarget();
+    for (let attempt = 0; attempt < POLICY.limit; attempt++) {
+      await recordThrottleEvent(target, POLICY);
+    }
+
+    await prisma.authThrottle.update({
+      where: { scope_key: target },
+      data: { windowStart: new Date(Date.now() - POLICY.windowMs - 1000) },
+    });
+
+    assert.equal((await recordThrottleEvent(target, POLICY)).allowed, true);
+  });
+});
+
+describe("resetThrottle", () => {
+  test("clears the count and the lockout", async () => {
+    const target = newTarget();
+    for (let attempt = 0; attempt <= POLICY.limit; attempt++) {
+      await recordThrottleEvent(target, POLICY);
+    }
+
+    await resetThrottle(target);
+
+    assert.equal((await checkThrottle(target)).allowed, true);
+    assert.equal((await recordThrottleEvent(target, POLICY)).allowed, true);
+  });
+});